@@ -1,9 +1,34 @@
 import React, { useState, useEffect } from 'react';
-import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import Sidebar from './components/Sidebar';
 import ChatWindow from './components/ChatWindow';
-import type { Citation } from '@ragika/shared';
+import SourcePanel from './components/SourcePanel';
+import Login from './components/Login';
+import AdminPanel from './components/AdminPanel';
+import FeedbackDashboard from './components/FeedbackDashboard';
+import { buildFilter, ChatFilters, EMPTY_FILTERS } from './components/FilterBar';
+import {
+  appendMessage,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  getSession,
+  importConversations,
+  listConversations,
+  logout,
+  onUnauthorized,
+  renameConversation,
+  streamChatQuery,
+  submitFeedback
+} from './api';
+import type {
+  ChatTurn,
+  Citation,
+  ErrorCode,
+  FeedbackRating,
+  GroundingReport,
+  SessionResponse
+} from '@ragika/shared';
 
 type Role = 'user' | 'assistant';
 
@@ -12,145 +37,407 @@ export interface Message {
   role: Role;
   content: string;
   citations?: Citation[];
+  /** True while the assistant answer is still being streamed */
+  streaming?: boolean;
+  /** True if the message reports a failure rather than an answer */
+  error?: boolean;
+  /** Standalone query the API searched for, when rewritten from the history */
+  rewrittenQuery?: string;
+  /** Citation and grounding check of an assistant answer */
+  grounding?: GroundingReport;
+  /** ID under which the API logged an assistant answer */
+  answerId?: string;
+  /** Rating the user gave an assistant answer in this session */
+  feedback?: FeedbackRating;
 }
 
 export interface ChatMeta {
   id: string;
   title: string;
   messages: Message[];
+  /** False until the chat's messages have been fetched from the server */
+  loaded?: boolean;
+}
+
+const GENERIC_ERROR = 'Error: unable to retrieve response from server. Please try again later.';
+
+// What to tell the user when the API names the stage of the query that failed
+const ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  embedding_failed: 'Error: the embeddings service could not process your question. Please try again.',
+  embedding_unavailable: 'Error: the embeddings service is unavailable. Please try again in a minute.',
+  search_failed: 'Error: the document index could not be searched. Please try again.',
+  search_unavailable: 'Error: the document index is unavailable. Please try again in a minute.',
+  generation_failed: 'Error: the language model could not generate an answer. Please try again.',
+  generation_unavailable: 'Error: the language model is unavailable. Please try again in a minute.'
+};
+
+function errorMessage(code: ErrorCode | undefined): string {
+  return (code && ERROR_MESSAGES[code]) || GENERIC_ERROR;
+}
+
+// Key under which earlier versions kept chats in local storage
+const LEGACY_STORAGE_KEY = 'ragika-chats';
+
+/**
+ * Upload chats kept in local storage by earlier versions of the client to
+ * the server, then forget them locally. If the upload fails the chats stay
+ * in local storage and the import is retried on the next load.
+ */
+async function importLocalChats(): Promise<void> {
+  if (typeof localStorage === 'undefined') return;
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+  let legacy: ChatMeta[];
+  try {
+    legacy = JSON.parse(saved) as ChatMeta[];
+  } catch {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+  await importConversations({
+    conversations: legacy.map(chat => ({
+      id: chat.id,
+      title: chat.title,
+      messages: chat.messages.map(({ id, role, content, citations }) => ({ id, role, content, citations }))
+    }))
+  });
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
 }
 
 /**
  * Main application component. Handles management of multiple chats and
  * communicates with the backend API to submit queries and receive answers.
+ * Chats are stored on the server so they follow the user across browsers.
+ * When the API requires authentication a sign-in form is shown first.
  */
 const App: React.FC = () => {
-  // Persist chats in local storage so conversations survive refresh
-  const [chats, setChats] = useState<ChatMeta[]>(() => {
-    if (typeof localStorage !== 'undefined') {
-      const saved = localStorage.getItem('ragika-chats');
-      if (saved) {
-        try {
-          return JSON.parse(saved) as ChatMeta[];
-        } catch {
-          return [];
-        }
-      }
-    }
-    return [];
-  });
+  const [chats, setChats] = useState<ChatMeta[]>([]);
   // Currently selected chat ID (null means no chat yet)
-  const [currentChatId, setCurrentChatId] = useState<string | null>(
-    chats.length > 0 ? chats[0].id : null
-  );
-  // Update local storage whenever chats change
-  useEffect(() => {
-    if (typeof localStorage !== 'undefined') {
-      localStorage.setItem('ragika-chats', JSON.stringify(chats));
+  const [currentChatId, setCurrentChatId] = useState<string | null>(null);
+  // Citation shown in the source panel, if any
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
+  // Caller as reported by the server; null until known
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  // True while the user has to sign in before using the API
+  const [needsLogin, setNeedsLogin] = useState(false);
+  // Retrieval filters applied to every new question
+  const [filters, setFilters] = useState<ChatFilters>(EMPTY_FILTERS);
+  // Whether the main area shows the chat, the document administration or the feedback dashboard
+  const [view, setView] = useState<'chat' | 'documents' | 'feedback'>('chat');
+  const userId = session?.user.id;
+
+  // Forget the signed in user's chats and show the sign-in form
+  const signOut = () => {
+    setNeedsLogin(true);
+    setSession(null);
+    setChats([]);
+    setCurrentChatId(null);
+    setActiveCitation(null);
+    setView('chat');
+  };
+
+  // Fetch the messages of a chat the first time it is shown
+  const loadChat = async (id: string) => {
+    try {
+      const conversation = await getConversation(id);
+      setChats(prev =>
+        prev.map(chat =>
+          chat.id === id
+            ? {
+                ...chat,
+                title: conversation.title,
+                messages: conversation.messages.map(msg => ({
+                  id: msg.id,
+                  role: msg.role,
+                  content: msg.content,
+                  citations: msg.citations,
+                  rewrittenQuery: msg.rewrittenQuery,
+                  grounding: msg.grounding,
+                  answerId: msg.answerId
+                })),
+                loaded: true
+              }
+            : chat
+        )
+      );
+    } catch (err) {
+      console.error(err);
     }
-  }, [chats]);
+  };
+
+  // Ask the server who we are; rejected credentials bring up the sign-in form
+  useEffect(() => {
+    const unsubscribe = onUnauthorized(signOut);
+    getSession()
+      .then(setSession)
+      .catch(err => console.error(err));
+    return unsubscribe;
+  }, []);
 
-  // Create a new chat
-  const handleNewChat = () => {
-    const id = uuidv4();
+  // Load the chat list from the server, importing any local chats first
+  useEffect(() => {
+    if (!userId) return;
+    const init = async () => {
+      try {
+        await importLocalChats();
+      } catch (err) {
+        console.error(err);
+      }
+      const summaries = await listConversations();
+      setChats(summaries.map(summary => ({ id: summary.id, title: summary.title, messages: [], loaded: false })));
+      if (summaries.length > 0) {
+        setCurrentChatId(summaries[0].id);
+        await loadChat(summaries[0].id);
+      }
+    };
+    init().catch(err => console.error(err));
+  }, [userId]);
+
+  // Create a new chat and return its ID
+  const handleNewChat = async (): Promise<string> => {
+    const conversation = await createConversation();
     const newChat: ChatMeta = {
-      id,
-      title: 'New Chat',
-      messages: []
+      id: conversation.id,
+      title: conversation.title,
+      messages: [],
+      loaded: true
     };
     setChats(prev => [newChat, ...prev]);
-    setCurrentChatId(id);
+    setCurrentChatId(conversation.id);
+    setView('chat');
+    return conversation.id;
   };
 
   // Select an existing chat from sidebar
   const handleSelectChat = (id: string) => {
     setCurrentChatId(id);
+    setView('chat');
+    const chat = chats.find(c => c.id === id);
+    if (chat && !chat.loaded) {
+      loadChat(id);
+    }
+  };
+
+  const handleRenameChat = async (id: string, title: string) => {
+    try {
+      const summary = await renameConversation(id, title);
+      setChats(prev => prev.map(chat => (chat.id === id ? { ...chat, title: summary.title } : chat)));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDeleteChat = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      const remaining = chats.filter(chat => chat.id !== id);
+      setChats(remaining);
+      if (currentChatId === id) {
+        const next = remaining[0] || null;
+        setCurrentChatId(next ? next.id : null);
+        if (next && !next.loaded) {
+          loadChat(next.id);
+        }
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Apply an update to a single message of a chat
+  const updateMessage = (chatId: string, messageId: string, update: (msg: Message) => Message) => {
+    setChats(prev =>
+      prev.map(chat => {
+        if (chat.id !== chatId) return chat;
+        return {
+          ...chat,
+          messages: chat.messages.map(msg => (msg.id === messageId ? update(msg) : msg))
+        };
+      })
+    );
   };
 
-  // Send a user message and get assistant response
+  // Send a user message and stream the assistant response into the chat
   const handleSendMessage = async (content: string) => {
-    if (!currentChatId) {
+    let chatId = currentChatId;
+    if (!chatId) {
       // If no chat exists, create one implicitly
-      handleNewChat();
-      return;
+      try {
+        chatId = await handleNewChat();
+      } catch (err) {
+        console.error(err);
+        return;
+      }
     }
-    // Append user message
+    const userId = uuidv4();
+    const assistantId = uuidv4();
+    // Prior turns give the API the context needed for follow-up questions
+    const history: ChatTurn[] = (chats.find(chat => chat.id === chatId)?.messages || [])
+      .filter(msg => !msg.streaming && !msg.error)
+      .map(msg => ({ role: msg.role, content: msg.content }));
+    // Append user message and an empty assistant message to stream into
     setChats(prev =>
       prev.map(chat => {
-        if (chat.id !== currentChatId) return chat;
+        if (chat.id !== chatId) return chat;
         const userMessage: Message = {
-          id: uuidv4(),
+          id: userId,
           role: 'user',
           content
         };
+        const assistantMessage: Message = {
+          id: assistantId,
+          role: 'assistant',
+          content: '',
+          streaming: true
+        };
         return {
           ...chat,
-          messages: [...chat.messages, userMessage]
+          messages: [...chat.messages, userMessage, assistantMessage]
         };
       })
     );
+    const targetId = chatId;
+    // Save the question; the server titles the chat after its first question
+    const savedQuestion = appendMessage(targetId, { id: userId, role: 'user', content })
+      .then(res => {
+        setChats(prev =>
+          prev.map(chat => (chat.id === targetId ? { ...chat, title: res.conversation.title } : chat))
+        );
+      })
+      .catch(err => console.error(err));
+    let rewrittenQuery: string | undefined;
     try {
-      // Call API for answer
-      const response = await axios.post<{
-        answer: string;
-        citations: Citation[];
-      }>(
-        `${import.meta.env.VITE_API_URL || 'http://localhost:5000'}/chat/query`,
-        {
-          query: content
+      const filter = buildFilter(filters);
+      await streamChatQuery({ query: content, history, ...(filter ? { filter } : {}) }, event => {
+        switch (event.type) {
+          case 'citations':
+            rewrittenQuery = event.rewrittenQuery;
+            updateMessage(targetId, assistantId, msg => ({
+              ...msg,
+              citations: event.citations,
+              rewrittenQuery: event.rewrittenQuery
+            }));
+            break;
+          case 'delta':
+            updateMessage(targetId, assistantId, msg => ({ ...msg, content: msg.content + event.text }));
+            break;
+          case 'done':
+            // The final answer renumbers its markers to the citations it uses
+            updateMessage(targetId, assistantId, msg => ({
+              ...msg,
+              content: event.answer,
+              citations: event.citations,
+              grounding: event.grounding,
+              answerId: event.answerId,
+              streaming: false
+            }));
+            savedQuestion
+              .then(() =>
+                appendMessage(targetId, {
+                  id: assistantId,
+                  role: 'assistant',
+                  content: event.answer,
+                  citations: event.citations,
+                  rewrittenQuery,
+                  grounding: event.grounding,
+                  answerId: event.answerId
+                })
+              )
+              .catch(err => console.error(err));
+            break;
+          case 'error':
+            updateMessage(targetId, assistantId, msg => ({
+              ...msg,
+              content: errorMessage(event.code),
+              citations: undefined,
+              streaming: false,
+              error: true
+            }));
+            break;
         }
-      );
-      const assistantMessage: Message = {
-        id: uuidv4(),
-        role: 'assistant',
-        content: response.data.answer,
-        citations: response.data.citations
-      };
-      // Append assistant message
-      setChats(prev =>
-        prev.map(chat => {
-          if (chat.id !== currentChatId) return chat;
-          return {
-            ...chat,
-            messages: [...chat.messages, assistantMessage]
-          };
-        })
-      );
+      });
     } catch (err: any) {
       console.error(err);
-      const assistantMessage: Message = {
-        id: uuidv4(),
-        role: 'assistant',
-        content: 'Error: unable to retrieve response from server. Please try again later.'
-      };
-      setChats(prev =>
-        prev.map(chat => {
-          if (chat.id !== currentChatId) return chat;
-          return {
-            ...chat,
-            messages: [...chat.messages, assistantMessage]
-          };
-        })
-      );
+      updateMessage(targetId, assistantId, msg => ({
+        ...msg,
+        content: errorMessage(err?.code),
+        citations: undefined,
+        streaming: false,
+        error: true
+      }));
+    }
+  };
+
+  // Rate an answer, showing the rating straight away
+  const handleFeedback = async (messageId: string, rating: FeedbackRating, comment?: string) => {
+    const chatId = currentChatId;
+    const answerId = chats
+      .find(chat => chat.id === chatId)
+      ?.messages.find(msg => msg.id === messageId)?.answerId;
+    if (!chatId || !answerId) return;
+    updateMessage(chatId, messageId, msg => ({ ...msg, feedback: rating }));
+    try {
+      await submitFeedback(answerId, { rating, comment });
+    } catch (err) {
+      console.error(err);
     }
   };
 
   const currentChat = chats.find(c => c.id === currentChatId) || null;
+  const canIngest = !!session?.user.roles.some(role => role === 'admin' || role === 'ingest');
+  const isAdmin = !!session?.user.roles.includes('admin');
+
+  if (needsLogin) {
+    return (
+      <Login
+        onLogin={res => {
+          setNeedsLogin(false);
+          setSession({ authEnabled: true, user: res.user });
+        }}
+      />
+    );
+  }
 
   return (
     <div className="flex h-screen bg-chatBg text-white">
       <Sidebar
         chats={chats}
         currentChatId={currentChatId}
-        onNewChat={handleNewChat}
+        onNewChat={() => {
+          handleNewChat().catch(err => console.error(err));
+        }}
         onSelectChat={handleSelectChat}
+        onRenameChat={handleRenameChat}
+        onDeleteChat={handleDeleteChat}
+        onOpenDocuments={canIngest ? () => setView('documents') : undefined}
+        documentsOpen={view === 'documents'}
+        onOpenFeedback={isAdmin ? () => setView('feedback') : undefined}
+        feedbackOpen={view === 'feedback'}
+        user={session?.authEnabled ? session.user : undefined}
+        onSignOut={() => {
+          logout();
+          signOut();
+        }}
       />
-      <ChatWindow
-        chat={currentChat}
-        onSendMessage={handleSendMessage}
-      />
+      {view === 'documents' ? (
+        <AdminPanel />
+      ) : view === 'feedback' ? (
+        <FeedbackDashboard />
+      ) : (
+        <ChatWindow
+          chat={currentChat}
+          onSendMessage={handleSendMessage}
+          onOpenCitation={setActiveCitation}
+          filters={filters}
+          onFiltersChange={setFilters}
+          onFeedback={handleFeedback}
+        />
+      )}
+      {view === 'chat' && activeCitation && (
+        <SourcePanel citation={activeCitation} onClose={() => setActiveCitation(null)} />
+      )}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
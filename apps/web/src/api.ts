@@ -0,0 +1,290 @@
+import axios from 'axios';
+import type {
+  AnswerRecord,
+  AppendMessageRequest,
+  ChatQueryRequest,
+  ChatStreamEvent,
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+  CreateConversationRequest,
+  DocumentDetailResponse,
+  DocumentListResponse,
+  ErrorCode,
+  ErrorResponse,
+  FeedbackRequest,
+  FeedbackSummaryResponse,
+  ImportConversationsRequest,
+  ImportConversationsResponse,
+  IngestJob,
+  IngestJobListResponse,
+  IngestJobStatus,
+  IngestTextRequest,
+  IngestTextResponse,
+  LoginRequest,
+  LoginResponse,
+  ReplaceDocumentRequest,
+  SessionResponse
+} from '@ragika/shared';
+
+/** Base URL of the RAGIKA API */
+export const API_URL: string = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+
+// Key under which the bearer token of the signed in user is kept
+const TOKEN_STORAGE_KEY = 'ragika-token';
+
+const unauthorizedListeners = new Set<() => void>();
+
+export function getAuthToken(): string | null {
+  return typeof localStorage === 'undefined' ? null : localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+/** Remember the token sent with every request, or forget it with null */
+export function setAuthToken(token: string | null): void {
+  if (typeof localStorage === 'undefined') return;
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+function authHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Call `listener` whenever the API rejects the credentials sent, i.e. the
+ * user has to sign in (again). Returns a function removing the listener.
+ */
+export function onUnauthorized(listener: () => void): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+function handleUnauthorized(): void {
+  setAuthToken(null);
+  unauthorizedListeners.forEach(listener => listener());
+}
+
+// Client for all API calls: sends the stored token and reports rejected credentials
+const client = axios.create();
+
+client.interceptors.request.use(config => {
+  Object.entries(authHeaders()).forEach(([name, value]) => config.headers.set(name, value));
+  return config;
+});
+
+client.interceptors.response.use(undefined, err => {
+  if (axios.isAxiosError(err) && err.response?.status === 401 && !err.config?.url?.endsWith('/auth/login')) {
+    handleUnauthorized();
+  }
+  return Promise.reject(err);
+});
+
+/** Sign in with a username and password and keep the issued token */
+export async function login(body: LoginRequest): Promise<LoginResponse> {
+  const res = await client.post<LoginResponse>(`${API_URL}/auth/login`, body);
+  setAuthToken(res.data.token);
+  return res.data;
+}
+
+export function logout(): void {
+  setAuthToken(null);
+}
+
+/** Find out who the server takes the caller to be and whether login is required */
+export async function getSession(): Promise<SessionResponse> {
+  const res = await client.get<SessionResponse>(`${API_URL}/auth/me`);
+  return res.data;
+}
+
+/** A chat query the API failed to answer; `code` names the stage that failed */
+export class ChatError extends Error {
+  constructor(
+    message: string,
+    readonly code?: ErrorCode
+  ) {
+    super(message);
+    this.name = 'ChatError';
+  }
+}
+
+/**
+ * Submit a query to the streaming chat endpoint and invoke `onEvent` for
+ * every Server-Sent Event received. EventSource only supports GET, so the
+ * stream is read from a fetch response body and parsed by hand. Resolves
+ * once the server closes the stream.
+ */
+export async function streamChatQuery(
+  body: ChatQueryRequest,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const res = await fetch(`${API_URL}/chat/query/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(body)
+  });
+  if (res.status === 401) {
+    handleUnauthorized();
+  }
+  if (!res.ok || !res.body) {
+    const body = (await res.json().catch(() => null)) as ErrorResponse | null;
+    throw new ChatError(`Chat stream failed with status ${res.status}`, body?.code);
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = rawEvent
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice('data:'.length).trim())
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data) as ChatStreamEvent);
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const res = await client.get<{ conversations: ConversationSummary[] }>(`${API_URL}/conversations`);
+  return res.data.conversations;
+}
+
+export async function getConversation(id: string): Promise<Conversation> {
+  const res = await client.get<Conversation>(`${API_URL}/conversations/${id}`);
+  return res.data;
+}
+
+export async function createConversation(body: CreateConversationRequest = {}): Promise<Conversation> {
+  const res = await client.post<Conversation>(`${API_URL}/conversations`, body);
+  return res.data;
+}
+
+export async function renameConversation(id: string, title: string): Promise<ConversationSummary> {
+  const res = await client.patch<ConversationSummary>(`${API_URL}/conversations/${id}`, { title });
+  return res.data;
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await client.delete(`${API_URL}/conversations/${id}`);
+}
+
+/**
+ * Append a message to a stored conversation. The returned summary carries
+ * the conversation title, which the server derives from the first question.
+ */
+export async function appendMessage(
+  id: string,
+  body: AppendMessageRequest
+): Promise<{ message: ConversationMessage; conversation: ConversationSummary }> {
+  const res = await client.post<{ message: ConversationMessage; conversation: ConversationSummary }>(
+    `${API_URL}/conversations/${id}/messages`,
+    body
+  );
+  return res.data;
+}
+
+export async function importConversations(
+  body: ImportConversationsRequest
+): Promise<ImportConversationsResponse> {
+  const res = await client.post<ImportConversationsResponse>(`${API_URL}/conversations/import`, body);
+  return res.data;
+}
+
+/** Fetch a document's metadata together with all of its chunks */
+export async function getDocument(id: string): Promise<DocumentDetailResponse> {
+  const res = await client.get<DocumentDetailResponse>(`${API_URL}/documents/${id}`);
+  return res.data;
+}
+
+/** List documents, newest first, optionally filtered by category or a search over titles and tags */
+export async function listDocuments(
+  params: { q?: string; category?: string; limit?: number; offset?: number } = {}
+): Promise<DocumentListResponse> {
+  const res = await client.get<DocumentListResponse>(`${API_URL}/documents`, { params });
+  return res.data;
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await client.delete(`${API_URL}/documents/${id}`);
+}
+
+/**
+ * Ingestion requests are processed in the background: the API answers
+ * with the queued job, or with the document straight away when its
+ * content is already indexed.
+ */
+export type IngestSubmission = { job: IngestJob } | { unchanged: IngestTextResponse };
+
+function toSubmission(status: number, data: IngestJob | IngestTextResponse): IngestSubmission {
+  return status === 202 ? { job: data as IngestJob } : { unchanged: data as IngestTextResponse };
+}
+
+export async function ingestText(body: IngestTextRequest): Promise<IngestSubmission> {
+  const res = await client.post(`${API_URL}/ingest/text`, body, { params: { async: true } });
+  return toSubmission(res.status, res.data);
+}
+
+/**
+ * Upload a file for ingestion. Passing `documentId` replaces the content
+ * of that document; its category and title are kept unless given.
+ */
+export async function ingestFile(
+  file: File,
+  fields: { category?: string; title?: string; documentId?: string }
+): Promise<IngestSubmission> {
+  const form = new FormData();
+  Object.entries(fields).forEach(([name, value]) => {
+    if (value) form.append(name, value);
+  });
+  form.append('file', file);
+  const res = await client.post(`${API_URL}/ingest/file`, form, { params: { async: true } });
+  return toSubmission(res.status, res.data);
+}
+
+export async function replaceDocument(id: string, body: ReplaceDocumentRequest): Promise<IngestSubmission> {
+  const res = await client.put(`${API_URL}/documents/${id}`, body, { params: { async: true } });
+  return toSubmission(res.status, res.data);
+}
+
+export async function listIngestJobs(
+  params: { status?: IngestJobStatus; limit?: number; offset?: number } = {}
+): Promise<IngestJobListResponse> {
+  const res = await client.get<IngestJobListResponse>(`${API_URL}/ingest/jobs`, { params });
+  return res.data;
+}
+
+/** Run a failed ingestion job again; only the chunks that failed are embedded anew */
+export async function retryIngestJob(id: string): Promise<IngestJob> {
+  const res = await client.post<IngestJob>(`${API_URL}/ingest/jobs/${id}/retry`);
+  return res.data;
+}
+
+/** Rate a logged answer; rating it again replaces the earlier feedback */
+export async function submitFeedback(answerId: string, body: FeedbackRequest): Promise<AnswerRecord> {
+  const res = await client.post<AnswerRecord>(`${API_URL}/answers/${answerId}/feedback`, body);
+  return res.data;
+}
+
+/** Summarise answer feedback, optionally for answers given since a date (admins only) */
+export async function getFeedbackSummary(
+  params: { since?: string; limit?: number } = {}
+): Promise<FeedbackSummaryResponse> {
+  const res = await client.get<FeedbackSummaryResponse>(`${API_URL}/feedback/summary`, { params });
+  return res.data;
+}
@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { DocumentListResponse, DocumentRecord, IngestJob } from '@ragika/shared';
+import { deleteDocument, IngestSubmission, listDocuments, listIngestJobs, retryIngestJob } from '../api';
+import DocumentTable, { JobStatus } from './DocumentTable';
+import IngestForm from './IngestForm';
+
+const PAGE_SIZE = 20;
+// How often jobs are polled while any of them is queued or running
+const POLL_INTERVAL_MS = 2000;
+
+/** Latest job of each document, given jobs newest first */
+function latestJobs(jobs: IngestJob[]): Map<string, IngestJob> {
+  const latest = new Map<string, IngestJob>();
+  for (const job of jobs) {
+    if (!latest.has(job.documentId)) latest.set(job.documentId, job);
+  }
+  return latest;
+}
+
+/**
+ * Administration view of the knowledge base. Adds documents from uploaded
+ * files or pasted text, lists indexed documents with a search over their
+ * titles and tags, and re-ingests or deletes them. Ingestion runs in the
+ * background on the server, so the view polls the job list while jobs are
+ * pending and shows their progress and errors, with a retry for failures.
+ */
+const AdminPanel: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<DocumentListResponse | null>(null);
+  const [jobs, setJobs] = useState<Map<string, IngestJob>>(new Map());
+  // Document whose content is being replaced, if any
+  const [target, setTarget] = useState<DocumentRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setPage(await listDocuments({ q: search.trim() || undefined, limit: PAGE_SIZE, offset }));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('Unable to load documents.');
+    }
+  }, [search, offset]);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const res = await listIngestJobs({ limit: 100 });
+      setJobs(latestJobs(res.jobs));
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const pending = Array.from(jobs.values()).filter(job => job.status !== 'done');
+  const active = pending.some(job => job.status === 'queued' || job.status === 'running');
+
+  // Poll while jobs are in flight; finished jobs change the document list
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(async () => {
+      await loadJobs();
+      await loadDocuments();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [active, loadJobs, loadDocuments]);
+
+  const handleSubmitted = (submission: IngestSubmission) => {
+    setTarget(null);
+    if ('job' in submission) {
+      const { job } = submission;
+      setJobs(prev => new Map(prev).set(job.documentId, job));
+    }
+    loadDocuments();
+  };
+
+  const handleDelete = async (document: DocumentRecord) => {
+    try {
+      await deleteDocument(document.id);
+      await loadDocuments();
+    } catch (err) {
+      console.error(err);
+      setError(`Unable to delete "${document.title || 'Untitled document'}".`);
+    }
+  };
+
+  const handleRetry = async (job: IngestJob) => {
+    try {
+      const retried = await retryIngestJob(job.id);
+      setJobs(prev => new Map(prev).set(retried.documentId, retried));
+    } catch (err) {
+      console.error(err);
+      setError('Unable to retry the ingestion.');
+    }
+  };
+
+  const total = page?.total ?? 0;
+
+  return (
+    <main className="flex-1 overflow-y-auto p-6 space-y-6">
+      <h1 className="text-xl font-semibold">Documents</h1>
+      {target ? (
+        <IngestForm
+          key={target.id}
+          target={target}
+          onSubmitted={handleSubmitted}
+          onCancel={() => setTarget(null)}
+        />
+      ) : (
+        <IngestForm onSubmitted={handleSubmitted} />
+      )}
+      {pending.length > 0 && (
+        <section className="space-y-1 text-sm">
+          <h2 className="font-semibold">Ingestion jobs</h2>
+          {pending.map(job => (
+            <div key={job.id} className="flex items-center justify-between border-b border-border py-1">
+              <span className="truncate">
+                {job.title || 'Untitled document'} <span className="text-gray-500">({job.category})</span>
+              </span>
+              <span className="ml-4 text-right">
+                <JobStatus job={job} onRetry={handleRetry} />
+                {job.error && <div className="text-xs text-red-400">{job.error}</div>}
+              </span>
+            </div>
+          ))}
+        </section>
+      )}
+      <section className="space-y-2">
+        <input
+          value={search}
+          onChange={e => {
+            setSearch(e.target.value);
+            setOffset(0);
+          }}
+          placeholder="Search documents"
+          className="w-72 bg-inputBg text-white placeholder-gray-400 border border-border rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-1 focus:ring-assistant/50"
+        />
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        {page && (
+          <DocumentTable
+            documents={page.documents}
+            jobs={jobs}
+            onReingest={setTarget}
+            onDelete={handleDelete}
+            onRetry={handleRetry}
+          />
+        )}
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-end space-x-3 text-sm text-gray-400">
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              className="hover:text-white disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <button
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              className="hover:text-white disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+};
+
+export default AdminPanel;
@@ -1,18 +1,35 @@
 import React, { useEffect, useRef } from 'react';
+import type { Citation, FeedbackRating } from '@ragika/shared';
 import type { ChatMeta, Message } from '../App';
 import ChatInput from './ChatInput';
+import FilterBar, { ChatFilters } from './FilterBar';
 import MessageBubble from './MessageBubble';
 
 interface ChatWindowProps {
   chat: ChatMeta | null;
   onSendMessage: (text: string) => void;
+  onOpenCitation: (citation: Citation) => void;
+  /** Retrieval filters applied to new questions */
+  filters: ChatFilters;
+  onFiltersChange: (filters: ChatFilters) => void;
+  /** Rates an assistant message that was logged by the API */
+  onFeedback?: (messageId: string, rating: FeedbackRating, comment?: string) => void;
 }
 
 /**
  * Primary chat view component. Displays the conversation history and
- * provides an input area at the bottom for sending new messages.
+ * provides an input area at the bottom for sending new messages, with a
+ * filter bar above it restricting the sources used. Sending without a
+ * selected chat starts a new one.
  */
-const ChatWindow: React.FC<ChatWindowProps> = ({ chat, onSendMessage }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({
+  chat,
+  onSendMessage,
+  onOpenCitation,
+  filters,
+  onFiltersChange,
+  onFeedback
+}) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const messages: Message[] = chat?.messages || [];
 
@@ -26,7 +43,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ chat, onSendMessage }) => {
   return (
     <main className="flex-1 flex flex-col">
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-2">
-        {messages.length === 0 && (
+        {chat?.loaded === false && (
+          <div className="text-gray-400 text-sm mt-4 text-center">Loading conversation…</div>
+        )}
+        {chat?.loaded !== false && messages.length === 0 && (
           <div className="text-gray-400 text-sm mt-4 text-center">
             Start a conversation by typing a message below.
           </div>
@@ -37,10 +57,21 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ chat, onSendMessage }) => {
             role={msg.role}
             content={msg.content}
             citations={msg.citations}
+            streaming={msg.streaming}
+            rewrittenQuery={msg.rewrittenQuery}
+            grounding={msg.grounding}
+            onCitationClick={idx => msg.citations && onOpenCitation(msg.citations[idx])}
+            feedback={msg.feedback}
+            onFeedback={
+              onFeedback && msg.answerId
+                ? (rating, comment) => onFeedback(msg.id, rating, comment)
+                : undefined
+            }
           />
         ))}
       </div>
-      <ChatInput onSend={onSendMessage} disabled={!chat} />
+      <FilterBar filters={filters} onChange={onFiltersChange} />
+      <ChatInput onSend={onSendMessage} disabled={chat?.loaded === false} />
     </main>
   );
 };
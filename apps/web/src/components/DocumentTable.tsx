@@ -0,0 +1,102 @@
+import React from 'react';
+import type { DocumentRecord, IngestJob } from '@ragika/shared';
+
+interface DocumentTableProps {
+  documents: DocumentRecord[];
+  /** Latest ingestion job of each document, keyed by document ID */
+  jobs: Map<string, IngestJob>;
+  onReingest: (document: DocumentRecord) => void;
+  onDelete: (document: DocumentRecord) => void;
+  onRetry: (job: IngestJob) => void;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+/** Ingestion status of a document as shown in the table */
+export function JobStatus({ job, onRetry }: { job?: IngestJob; onRetry: (job: IngestJob) => void }) {
+  if (!job || job.status === 'done') {
+    return <span className="text-gray-400">Indexed</span>;
+  }
+  if (job.status === 'failed') {
+    return (
+      <span className="text-red-400" title={job.error}>
+        Failed{job.failedChunks > 0 ? ` (${job.failedChunks} chunks)` : ''}{' '}
+        <button onClick={() => onRetry(job)} className="underline hover:text-white">
+          Retry
+        </button>
+      </span>
+    );
+  }
+  return (
+    <span className="text-blue-300">{job.status === 'queued' ? 'Queued' : `Ingesting ${job.progress}%`}</span>
+  );
+}
+
+/**
+ * Table of ingested documents with their stored metadata, chunk counts and
+ * the state of their latest ingestion. Each row offers re-ingesting the
+ * document from new content and deleting it.
+ */
+const DocumentTable: React.FC<DocumentTableProps> = ({ documents, jobs, onReingest, onDelete, onRetry }) => {
+  if (documents.length === 0) {
+    return <div className="p-4 text-sm text-gray-400">No documents found.</div>;
+  }
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-gray-400 border-b border-border">
+        <tr>
+          <th className="py-2 pr-3 font-normal">Title</th>
+          <th className="py-2 pr-3 font-normal">Category</th>
+          <th className="py-2 pr-3 font-normal">Tags</th>
+          <th className="py-2 pr-3 font-normal">Format</th>
+          <th className="py-2 pr-3 font-normal text-right">Chunks</th>
+          <th className="py-2 pr-3 font-normal">Updated</th>
+          <th className="py-2 pr-3 font-normal">Status</th>
+          <th className="py-2 font-normal" />
+        </tr>
+      </thead>
+      <tbody>
+        {documents.map(doc => (
+          <tr key={doc.id} className="border-b border-border align-top">
+            <td className="py-2 pr-3">
+              <div>{doc.title || 'Untitled document'}</div>
+              {doc.externalId && <div className="text-xs text-gray-500">{doc.externalId}</div>}
+            </td>
+            <td className="py-2 pr-3">{doc.category}</td>
+            <td className="py-2 pr-3 text-gray-300">{(doc.tags || []).join(', ')}</td>
+            <td className="py-2 pr-3 text-gray-300">
+              {doc.format || 'text'}
+              {doc.pages !== undefined && `, ${doc.pages} pages`}
+            </td>
+            <td className="py-2 pr-3 text-right">{doc.chunks}</td>
+            <td className="py-2 pr-3 text-gray-300" title={`Created ${formatDate(doc.createdAt)}`}>
+              {formatDate(doc.updatedAt || doc.createdAt)}
+            </td>
+            <td className="py-2 pr-3">
+              <JobStatus job={jobs.get(doc.id)} onRetry={onRetry} />
+            </td>
+            <td className="py-2 whitespace-nowrap space-x-2 text-gray-400">
+              <button onClick={() => onReingest(doc)} className="hover:text-white">
+                Re-ingest
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete "${doc.title || 'Untitled document'}" and all of its chunks?`)) {
+                    onDelete(doc);
+                  }
+                }}
+                className="hover:text-white"
+              >
+                Delete
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default DocumentTable;
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import type { FeedbackSummaryResponse } from '@ragika/shared';
+import { getFeedbackSummary } from '../api';
+
+// Periods the summary can be limited to, in days; 0 means all time
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 0, label: 'All time' }
+];
+
+function percent(rate: number | undefined): string {
+  return rate === undefined ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Dashboard summarising the feedback users gave on answers: thumbs up and
+ * down rates per category, the questions most often left unanswered, the
+ * documents most often cited by downvoted answers and the latest
+ * downvotes with their comments.
+ */
+const FeedbackDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<FeedbackSummaryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+    getFeedbackSummary({ since })
+      .then(res => {
+        setSummary(res);
+        setError(null);
+      })
+      .catch(err => {
+        console.error(err);
+        setError('Unable to load the feedback summary.');
+      });
+  }, [days]);
+
+  const { totals } = summary || {};
+
+  return (
+    <main className="flex-1 overflow-y-auto p-6 space-y-6 text-sm">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold">Feedback</h1>
+        <select
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          className="bg-inputBg border border-border rounded-md py-1 px-2 focus:outline-none"
+        >
+          {PERIODS.map(period => (
+            <option key={period.days} value={period.days}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+      {summary && totals && (
+        <>
+          <div className="text-gray-300">
+            {totals.answers} answers, {totals.rated} rated: {totals.up} 👍 and {totals.down} 👎 (
+            {percent(totals.rated > 0 ? totals.up / totals.rated : undefined)} positive)
+          </div>
+          <section>
+            <h2 className="font-semibold mb-2">By category</h2>
+            <table className="w-full text-left">
+              <thead className="text-gray-400 border-b border-border">
+                <tr>
+                  <th className="py-1 pr-3 font-normal">Category</th>
+                  <th className="py-1 pr-3 font-normal text-right">Answers</th>
+                  <th className="py-1 pr-3 font-normal text-right">👍</th>
+                  <th className="py-1 pr-3 font-normal text-right">👎</th>
+                  <th className="py-1 font-normal text-right">Positive</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.categories.map(category => (
+                  <tr key={category.category} className="border-b border-border">
+                    <td className="py-1 pr-3">{category.category}</td>
+                    <td className="py-1 pr-3 text-right">{category.answers}</td>
+                    <td className="py-1 pr-3 text-right">{category.up}</td>
+                    <td className="py-1 pr-3 text-right">{category.down}</td>
+                    <td className="py-1 text-right">{percent(category.upRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+          <section>
+            <h2 className="font-semibold mb-2">Unanswered questions</h2>
+            {summary.unanswered.length === 0 && <div className="text-gray-400">None.</div>}
+            <ul className="space-y-1">
+              {summary.unanswered.map(question => (
+                <li key={question.query} className="flex justify-between">
+                  <span>{question.query}</span>
+                  <span className="ml-4 text-gray-400 whitespace-nowrap">
+                    {question.count}× {question.outcome === 'no_results' ? 'nothing found' : "didn't know"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+          <section>
+            <h2 className="font-semibold mb-2">Documents cited in downvoted answers</h2>
+            {summary.downvotedDocuments.length === 0 && <div className="text-gray-400">None.</div>}
+            <ul className="space-y-1">
+              {summary.downvotedDocuments.map(document => (
+                <li key={document.documentId} className="flex justify-between">
+                  <span>{document.title || document.documentId}</span>
+                  <span className="ml-4 text-gray-400">{document.count}×</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+          <section>
+            <h2 className="font-semibold mb-2">Recent downvotes</h2>
+            {summary.recentDownvotes.length === 0 && <div className="text-gray-400">None.</div>}
+            <ul className="space-y-3">
+              {summary.recentDownvotes.map(record => (
+                <li key={record.id} className="border-l-2 border-border pl-3">
+                  <div className="font-semibold">{record.query}</div>
+                  <div className="text-gray-300 whitespace-pre-wrap">{record.answer}</div>
+                  {record.feedback?.comment && (
+                    <div className="text-yellow-300">“{record.feedback.comment}”</div>
+                  )}
+                  <div className="text-xs text-gray-500">
+                    {record.model}, prompt {record.promptVersion},{' '}
+                    {new Date(record.createdAt).toLocaleString()}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </>
+      )}
+    </main>
+  );
+};
+
+export default FeedbackDashboard;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import type { FilterExpression, MetadataValue } from '@ragika/shared';
+
+/** Retrieval filters as entered in the filter bar */
+export interface ChatFilters {
+  /** Comma separated categories, any of which may match */
+  categories: string;
+  /** Comma separated tags, any of which may match */
+  tags: string;
+  /** Earliest ingestion date, as YYYY-MM-DD */
+  from: string;
+  /** Latest ingestion date, as YYYY-MM-DD */
+  to: string;
+  /** Comma separated `key=value` metadata conditions, all of which must match */
+  metadata: string;
+}
+
+export const EMPTY_FILTERS: ChatFilters = { categories: '', tags: '', from: '', to: '', metadata: '' };
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Metadata values typed in the bar are numbers or booleans when they look like one
+function parseValue(value: string): MetadataValue {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+}
+
+/**
+ * Translate the filter bar fields into the filter expression sent with a
+ * chat query. Returns undefined when no filter is set.
+ */
+export function buildFilter(filters: ChatFilters): FilterExpression | undefined {
+  const conditions: FilterExpression[] = [];
+  const categories = splitList(filters.categories);
+  if (categories.length > 0) conditions.push({ field: 'category', in: categories });
+  const tags = splitList(filters.tags);
+  if (tags.length > 0) conditions.push({ field: 'tags', in: tags });
+  if (filters.from || filters.to) {
+    conditions.push({
+      field: 'createdAt',
+      range: {
+        ...(filters.from ? { gte: `${filters.from}T00:00:00.000Z` } : {}),
+        ...(filters.to ? { lte: `${filters.to}T23:59:59.999Z` } : {})
+      }
+    });
+  }
+  for (const pair of splitList(filters.metadata)) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    conditions.push({
+      field: `metadata.${pair.slice(0, separator).trim()}`,
+      eq: parseValue(pair.slice(separator + 1).trim())
+    });
+  }
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+interface FilterBarProps {
+  filters: ChatFilters;
+  onChange: (filters: ChatFilters) => void;
+}
+
+/**
+ * Bar above the chat input restricting the sources answers are drawn
+ * from by category, tag, ingestion date and custom metadata. Collapsed
+ * to a summary of the active filters until opened.
+ */
+const FilterBar: React.FC<FilterBarProps> = ({ filters, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const active = (Object.keys(filters) as (keyof ChatFilters)[]).filter(key => filters[key].trim()).length;
+
+  const update = (key: keyof ChatFilters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...filters, [key]: e.target.value });
+
+  const inputClass =
+    'bg-inputBg text-white placeholder-gray-400 border border-border rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-1 focus:ring-assistant/50';
+
+  return (
+    <div className="px-4 pt-2 border-t border-border bg-chatBg text-sm">
+      <div className="flex items-center space-x-3 text-gray-400">
+        <button onClick={() => setOpen(!open)} className="hover:text-white">
+          {open ? '▾' : '▸'} Filters{active > 0 ? ` (${active})` : ''}
+        </button>
+        {active > 0 && (
+          <button onClick={() => onChange(EMPTY_FILTERS)} className="hover:text-white">
+            Clear
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="grid grid-cols-2 gap-2 py-2">
+          <input
+            value={filters.categories}
+            onChange={update('categories')}
+            placeholder="Categories (comma separated)"
+            className={inputClass}
+          />
+          <input
+            value={filters.tags}
+            onChange={update('tags')}
+            placeholder="Tags (comma separated)"
+            className={inputClass}
+          />
+          <label className="flex items-center space-x-2 text-gray-400">
+            <span>From</span>
+            <input type="date" value={filters.from} onChange={update('from')} className={`${inputClass} flex-1`} />
+          </label>
+          <label className="flex items-center space-x-2 text-gray-400">
+            <span>To</span>
+            <input type="date" value={filters.to} onChange={update('to')} className={`${inputClass} flex-1`} />
+          </label>
+          <input
+            value={filters.metadata}
+            onChange={update('metadata')}
+            placeholder="Metadata, e.g. region=EU, year=2024"
+            className={`${inputClass} col-span-2`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import type { DocumentRecord } from '@ragika/shared';
+import { ingestFile, IngestSubmission, ingestText, replaceDocument } from '../api';
+
+interface IngestFormProps {
+  /** Document whose content is replaced; a new document is added when omitted */
+  target?: DocumentRecord;
+  onSubmitted: (submission: IngestSubmission) => void;
+  onCancel?: () => void;
+}
+
+function errorMessage(err: unknown): string {
+  if (axios.isAxiosError(err) && err.response?.data?.error) {
+    return err.response.data.error;
+  }
+  return 'The request failed. Please try again later.';
+}
+
+/**
+ * Form adding knowledge to the index, either by dropping or choosing files
+ * or by pasting text, with the category and title to file it under. Given
+ * a target document it re-ingests that document from the new content
+ * instead, keeping its category and title unless changed.
+ */
+const IngestForm: React.FC<IngestFormProps> = ({ target, onSubmitted, onCancel }) => {
+  const [category, setCategory] = useState(target?.category || '');
+  const [title, setTitle] = useState(target?.title || '');
+  const [text, setText] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (submit: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await submit();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const uploadFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (!category.trim()) {
+      setError('Choose a category before uploading.');
+      return;
+    }
+    // Several files are uploaded one after the other, each as its own document
+    run(async () => {
+      for (const file of target ? files.slice(0, 1) : files) {
+        const fields = target
+          ? { documentId: target.id, category: category.trim(), title: title.trim() || undefined }
+          : { category: category.trim(), title: files.length === 1 ? title.trim() : undefined };
+        onSubmitted(await ingestFile(file, fields));
+      }
+    });
+  };
+
+  const submitText = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const submission = target
+        ? await replaceDocument(target.id, { text, category: category.trim(), title: title.trim() })
+        : await ingestText({ text, category: category.trim(), title: title.trim() || undefined });
+      setText('');
+      onSubmitted(submission);
+    });
+  };
+
+  const inputClass =
+    'bg-inputBg text-white placeholder-gray-400 border border-border rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-1 focus:ring-assistant/50';
+
+  return (
+    <form onSubmit={submitText} className="space-y-3 bg-sidebar border border-border rounded-lg p-4 text-sm">
+      {target && <div className="font-semibold">Re-ingest “{target.title || 'Untitled document'}”</div>}
+      <div className="flex space-x-2">
+        <input
+          value={category}
+          onChange={e => setCategory(e.target.value)}
+          placeholder="Category"
+          className={`${inputClass} w-48`}
+        />
+        <input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          placeholder="Title (optional)"
+          className={`${inputClass} flex-1`}
+        />
+      </div>
+      <label
+        onDragOver={e => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragging(false);
+          uploadFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`block border-2 border-dashed rounded-lg p-6 text-center cursor-pointer text-gray-400 ${
+          dragging ? 'border-blue-400 bg-assistant/30' : 'border-border hover:bg-assistant/20'
+        }`}
+      >
+        Drop {target ? 'a file' : 'files'} here or click to choose (PDF, DOCX, HTML, Markdown, text)
+        <input
+          type="file"
+          multiple={!target}
+          accept=".pdf,.docx,.html,.htm,.md,.markdown,.txt,.text"
+          onChange={e => {
+            uploadFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="hidden"
+          data-testid="file-input"
+        />
+      </label>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="…or paste text"
+        rows={5}
+        className={`${inputClass} w-full resize-y`}
+      />
+      {error && <div className="text-red-400">{error}</div>}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 rounded text-gray-400 hover:text-white"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || !text.trim() || !category.trim()}
+          className="px-3 py-1 rounded bg-assistant hover:bg-assistant/80 disabled:opacity-40"
+        >
+          {submitting ? 'Submitting…' : target ? 'Replace content' : 'Ingest text'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default IngestForm;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import type { LoginResponse } from '@ragika/shared';
+import { login } from '../api';
+
+interface LoginProps {
+  onLogin: (response: LoginResponse) => void;
+}
+
+/**
+ * Sign-in form shown when the API requires authentication. The token the
+ * server issues is stored by the API client and sent with every request.
+ */
+const Login: React.FC<LoginProps> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onLogin(await login({ username, password }));
+    } catch (err) {
+      setError(
+        axios.isAxiosError(err) && err.response?.status === 401
+          ? 'Invalid username or password.'
+          : 'Unable to sign in. Please try again later.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-inputBg text-white placeholder-gray-400 border border-border rounded-md py-2 px-3 focus:outline-none focus:ring-1 focus:ring-assistant/50';
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-chatBg text-white">
+      <form onSubmit={handleSubmit} className="w-80 space-y-4 bg-sidebar border border-border rounded-lg p-6">
+        <div className="font-semibold text-lg">RAGIKA</div>
+        <input
+          autoFocus
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          className={inputClass}
+        />
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="w-full py-2 rounded bg-assistant hover:bg-assistant/80 text-sm disabled:opacity-40"
+        >
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
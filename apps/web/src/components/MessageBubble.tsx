@@ -1,19 +1,89 @@
-import React from 'react';
-import type { Citation } from '@ragika/shared';
+import React, { useState } from 'react';
+import type { Citation, FeedbackRating, GroundingReport } from '@ragika/shared';
 
 interface MessageBubbleProps {
   role: 'user' | 'assistant';
   content: string;
   citations?: Citation[];
+  streaming?: boolean;
+  rewrittenQuery?: string;
+  grounding?: GroundingReport;
+  /** Called with the zero-based index of a citation when it is clicked */
+  onCitationClick?: (index: number) => void;
+  /** Rating given to an assistant answer, if any */
+  feedback?: FeedbackRating;
+  /** Rates an assistant answer; the rating buttons are hidden when omitted */
+  onFeedback?: (rating: FeedbackRating, comment?: string) => void;
+}
+
+/**
+ * Split answer text on bracketed citation markers such as "[2]" and turn
+ * the markers that refer to an existing citation into buttons.
+ */
+function renderWithMarkers(
+  content: string,
+  citations: Citation[] | undefined,
+  onCitationClick?: (index: number) => void
+): React.ReactNode[] {
+  return content.split(/(\[\d+\])/).map((part, idx) => {
+    const marker = /^\[(\d+)\]$/.exec(part);
+    const index = marker ? Number(marker[1]) - 1 : -1;
+    if (!marker || !citations || index < 0 || index >= citations.length) {
+      return <React.Fragment key={idx}>{part}</React.Fragment>;
+    }
+    return (
+      <button
+        key={idx}
+        onClick={() => onCitationClick?.(index)}
+        title={citations[index].title || undefined}
+        className="text-blue-400 hover:underline"
+      >
+        {part}
+      </button>
+    );
+  });
 }
 
 /**
  * Renders a single message bubble. Styles differ for user and assistant
  * messages. Citations are displayed as numbered links in the footer of
- * assistant messages.
+ * assistant messages, and the [n] markers within the answer are clickable
+ * too; both open the cited source. While an answer is streaming a blinking cursor is
+ * shown after the text received so far. When the API rewrote a follow-up
+ * question for retrieval, the query actually searched is shown as well.
+ * Answers the API found poorly supported by their sources carry a warning.
+ * Finished answers can be rated thumbs up or down, after which a comment
+ * saying what was good or wrong can be added.
  */
-const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content, citations }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  role,
+  content,
+  citations,
+  streaming,
+  rewrittenQuery,
+  grounding,
+  onCitationClick,
+  feedback,
+  onFeedback
+}) => {
   const isUser = role === 'user';
+  // Rating awaiting an optional comment
+  const [commenting, setCommenting] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+
+  const rate = (rating: FeedbackRating) => {
+    onFeedback?.(rating);
+    setCommenting(rating);
+  };
+
+  const sendComment = () => {
+    if (commenting && comment.trim()) {
+      onFeedback?.(commenting, comment.trim());
+    }
+    setCommenting(null);
+    setComment('');
+  };
+
   return (
     <div className="w-full py-2">
       <div className={`max-w-3xl mx-auto flex ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -22,16 +92,77 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ role, content, citations
             isUser ? 'bg-user text-white' : 'bg-assistant text-white'
           }`}
         >
-          <div>{content}</div>
-          {!isUser && citations && citations.length > 0 && (
+          {!isUser && rewrittenQuery && (
+            <div className="mb-2 text-xs text-gray-400 italic">Searched for: {rewrittenQuery}</div>
+          )}
+          <div>
+            {isUser ? content : renderWithMarkers(content, citations, onCitationClick)}
+            {streaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-300 animate-pulse" />}
+          </div>
+          {!isUser && !streaming && grounding?.lowGrounding && (
+            <div
+              className="mt-2 px-2 py-1 rounded border border-yellow-500/50 text-xs text-yellow-300"
+              title="Share of the answer's content found in the cited sources"
+            >
+              ⚠ This answer is only weakly supported by its sources
+              {grounding.score !== undefined && ` (grounding ${Math.round(grounding.score * 100)}%)`}. Check the
+              citations before relying on it.
+            </div>
+          )}
+          {!isUser && !streaming && citations && citations.length > 0 && (
             <div className="mt-2 text-xs text-blue-400 space-x-1">
-              {citations.map((_, idx) => (
-                <a key={idx} href="#" className="underline">
+              {citations.map((citation, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => onCitationClick?.(idx)}
+                  title={citation.title || undefined}
+                  className="underline"
+                >
                   [{idx + 1}]
-                </a>
+                </button>
               ))}
             </div>
           )}
+          {!isUser && !streaming && onFeedback && (
+            <div className="mt-2 flex items-center space-x-2 text-xs text-gray-400">
+              <button
+                title="Good answer"
+                aria-pressed={feedback === 'up'}
+                onClick={() => rate('up')}
+                className={feedback === 'up' ? 'text-white' : 'opacity-60 hover:opacity-100'}
+              >
+                👍
+              </button>
+              <button
+                title="Bad answer"
+                aria-pressed={feedback === 'down'}
+                onClick={() => rate('down')}
+                className={feedback === 'down' ? 'text-white' : 'opacity-60 hover:opacity-100'}
+              >
+                👎
+              </button>
+              {commenting && (
+                <>
+                  <input
+                    autoFocus
+                    value={comment}
+                    onChange={e => setComment(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') sendComment();
+                      if (e.key === 'Escape') setCommenting(null);
+                    }}
+                    placeholder={
+                      commenting === 'down' ? 'What was wrong? (optional)' : 'Any comment? (optional)'
+                    }
+                    className="flex-1 min-w-0 bg-chatBg border border-border rounded px-1 py-0.5 text-white focus:outline-none"
+                  />
+                  <button onClick={sendComment} className="hover:text-white">
+                    Send
+                  </button>
+                </>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
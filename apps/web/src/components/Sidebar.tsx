@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useState } from 'react';
+import type { AuthUser } from '@ragika/shared';
 import type { ChatMeta } from '../App';
 
 interface SidebarProps {
@@ -6,13 +7,58 @@ interface SidebarProps {
   currentChatId: string | null;
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
+  onRenameChat: (id: string, title: string) => void;
+  onDeleteChat: (id: string) => void;
+  /** Opens the document administration view; omitted for users who cannot ingest */
+  onOpenDocuments?: () => void;
+  /** True while the document administration view is shown */
+  documentsOpen?: boolean;
+  /** Opens the answer feedback dashboard; omitted for users who are not admins */
+  onOpenFeedback?: () => void;
+  /** True while the feedback dashboard is shown */
+  feedbackOpen?: boolean;
+  /** Signed in user; omitted when the API does not require authentication */
+  user?: AuthUser;
+  onSignOut: () => void;
 }
 
 /**
  * Sidebar component rendering the list of chats and a button to create a
- * new chat. The currently active chat is highlighted.
+ * new chat. The currently active chat is highlighted. Hovering a chat
+ * reveals buttons to rename it in place or delete it. Users allowed to
+ * ingest get a link to the document administration view, and admins one
+ * to the dashboard of feedback on answers. The signed in user is shown
+ * at the bottom with a button to sign out.
  */
-const Sidebar: React.FC<SidebarProps> = ({ chats, currentChatId, onNewChat, onSelectChat }) => {
+const Sidebar: React.FC<SidebarProps> = ({
+  chats,
+  currentChatId,
+  onNewChat,
+  onSelectChat,
+  onRenameChat,
+  onDeleteChat,
+  onOpenDocuments,
+  documentsOpen,
+  onOpenFeedback,
+  feedbackOpen,
+  user,
+  onSignOut
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (chat: ChatMeta) => {
+    setEditingId(chat.id);
+    setDraftTitle(chat.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRenameChat(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
   return (
     <aside className="w-64 bg-sidebar flex flex-col border-r border-border">
       <div className="p-4 border-b border-border flex items-center justify-between">
@@ -32,16 +78,89 @@ const Sidebar: React.FC<SidebarProps> = ({ chats, currentChatId, onNewChat, onSe
           <div
             key={chat.id}
             onClick={() => onSelectChat(chat.id)}
-            className={`cursor-pointer px-4 py-3 border-b border-border text-sm ${
-              currentChatId === chat.id ? 'bg-inputBg' : 'hover:bg-assistant/20'
+            className={`group flex items-center cursor-pointer px-4 py-3 border-b border-border text-sm ${
+              !documentsOpen && !feedbackOpen && currentChatId === chat.id
+                ? 'bg-inputBg'
+                : 'hover:bg-assistant/20'
             }`}
           >
-            <div className="truncate">{chat.title}</div>
+            {editingId === chat.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onClick={e => e.stopPropagation()}
+                onBlur={commitEditing}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 bg-chatBg border border-border rounded px-1 focus:outline-none"
+              />
+            ) : (
+              <div className="flex-1 truncate" onDoubleClick={() => startEditing(chat)}>
+                {chat.title}
+              </div>
+            )}
+            {editingId !== chat.id && (
+              <div className="hidden group-hover:flex ml-2 space-x-1 text-gray-400">
+                <button
+                  title="Rename"
+                  onClick={e => {
+                    e.stopPropagation();
+                    startEditing(chat);
+                  }}
+                  className="hover:text-white"
+                >
+                  ✎
+                </button>
+                <button
+                  title="Delete"
+                  onClick={e => {
+                    e.stopPropagation();
+                    if (window.confirm(`Delete "${chat.title}"?`)) {
+                      onDeleteChat(chat.id);
+                    }
+                  }}
+                  className="hover:text-white"
+                >
+                  ×
+                </button>
+              </div>
+            )}
           </div>
         ))}
       </nav>
+      {onOpenDocuments && (
+        <button
+          onClick={onOpenDocuments}
+          className={`px-4 py-3 border-t border-border text-left text-sm ${
+            documentsOpen ? 'bg-inputBg' : 'hover:bg-assistant/20'
+          }`}
+        >
+          Documents
+        </button>
+      )}
+      {onOpenFeedback && (
+        <button
+          onClick={onOpenFeedback}
+          className={`px-4 py-3 border-t border-border text-left text-sm ${
+            feedbackOpen ? 'bg-inputBg' : 'hover:bg-assistant/20'
+          }`}
+        >
+          Feedback
+        </button>
+      )}
+      {user && (
+        <div className="p-4 border-t border-border flex items-center justify-between text-sm">
+          <span className="truncate text-gray-300">{user.name}</span>
+          <button onClick={onSignOut} className="ml-2 text-gray-400 hover:text-white">
+            Sign out
+          </button>
+        </div>
+      )}
     </aside>
   );
 };
 
-export default Sidebar;
\ No newline at end of file
+export default Sidebar;
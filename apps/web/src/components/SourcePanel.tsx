@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import type { Citation, DocumentChunk } from '@ragika/shared';
+import { getDocument } from '../api';
+
+interface SourcePanelProps {
+  citation: Citation;
+  onClose: () => void;
+}
+
+/**
+ * Highlight the citation snippet within the cited chunk. The snippet may
+ * carry leading or trailing ellipses added when it was cut from the chunk,
+ * so those are stripped before searching for it.
+ */
+function highlightSnippet(text: string, snippet?: string): React.ReactNode {
+  const needle = snippet?.replace(/^…|…$/g, '').trim();
+  const start = needle ? text.indexOf(needle) : -1;
+  if (!needle || start === -1) {
+    return text;
+  }
+  return (
+    <>
+      {text.slice(0, start)}
+      <mark className="bg-yellow-300/30 text-white">{needle}</mark>
+      {text.slice(start + needle.length)}
+    </>
+  );
+}
+
+/**
+ * Side panel showing the source of a citation. The cited chunk is shown
+ * together with its neighbouring chunks from the same document so that the
+ * passage can be read in context, with the most relevant snippet
+ * highlighted. Falls back to the chunk text carried by the citation when
+ * the document can no longer be fetched.
+ */
+const SourcePanel: React.FC<SourcePanelProps> = ({ citation, onClose }) => {
+  const [chunks, setChunks] = useState<DocumentChunk[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setChunks(null);
+    getDocument(citation.documentId)
+      .then(res => {
+        if (!cancelled) setChunks(res.chunks);
+      })
+      .catch(err => console.error(err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [citation.documentId, citation.chunkId]);
+
+  const position = chunks ? chunks.findIndex(chunk => chunk.id === citation.chunkId) : -1;
+  const context = chunks && position !== -1 ? chunks.slice(Math.max(0, position - 1), position + 2) : null;
+
+  return (
+    <aside className="w-96 bg-sidebar flex flex-col border-l border-border">
+      <div className="p-4 border-b border-border flex items-start justify-between">
+        <div className="min-w-0">
+          <div className="font-semibold truncate">{citation.title || 'Untitled document'}</div>
+          <div className="text-xs text-gray-400 space-x-2">
+            {citation.category && <span>{citation.category}</span>}
+            {citation.page !== undefined && <span>Page {citation.page}</span>}
+            {citation.start !== undefined && citation.end !== undefined && (
+              <span>
+                Chars {citation.start}–{citation.end}
+              </span>
+            )}
+          </div>
+          {citation.headingPath && citation.headingPath.length > 0 && (
+            <div className="text-xs text-gray-400 truncate">{citation.headingPath.join(' › ')}</div>
+          )}
+          <div className="text-xs text-gray-500 space-x-2">
+            {citation.score !== undefined && <span>Retrieval {citation.score.toFixed(3)}</span>}
+            {citation.rerankScore !== undefined && <span>Rerank {citation.rerankScore.toFixed(3)}</span>}
+          </div>
+        </div>
+        <button onClick={onClose} title="Close" className="ml-2 text-gray-400 hover:text-white">
+          ×
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 text-sm whitespace-pre-wrap space-y-3">
+        {loading && <div className="text-gray-400">Loading source…</div>}
+        {!loading &&
+          context &&
+          context.map(chunk =>
+            chunk.id === citation.chunkId ? (
+              <div key={chunk.id} className="border-l-2 border-blue-400 pl-3">
+                {highlightSnippet(chunk.text, citation.snippet)}
+              </div>
+            ) : (
+              <div key={chunk.id} className="text-gray-500 pl-3">
+                {chunk.text}
+              </div>
+            )
+          )}
+        {!loading && !context && (
+          <div className="border-l-2 border-blue-400 pl-3">
+            {citation.text ? highlightSnippet(citation.text, citation.snippet) : 'Source passage unavailable.'}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default SourcePanel;
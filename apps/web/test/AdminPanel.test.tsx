@@ -0,0 +1,127 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { DocumentRecord, IngestJob } from '@ragika/shared';
+import AdminPanel from '../src/components/AdminPanel';
+import * as api from '../src/api';
+
+vi.mock('../src/api', () => ({
+  listDocuments: vi.fn(),
+  deleteDocument: vi.fn(),
+  ingestText: vi.fn(),
+  ingestFile: vi.fn(),
+  replaceDocument: vi.fn(),
+  listIngestJobs: vi.fn(),
+  retryIngestJob: vi.fn()
+}));
+
+const mocked = vi.mocked(api);
+
+const handbook: DocumentRecord = {
+  id: 'doc-1',
+  category: 'hr',
+  title: 'Handbook',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  chunks: 12,
+  contentHash: 'abc',
+  externalId: 'policies/handbook.pdf',
+  format: 'pdf',
+  pages: 4,
+  tags: ['policy']
+};
+
+function job(overrides: Partial<IngestJob>): IngestJob {
+  return {
+    id: 'job-1',
+    documentId: 'doc-1',
+    category: 'hr',
+    title: 'Handbook',
+    status: 'done',
+    progress: 100,
+    totalChunks: 12,
+    completedChunks: 12,
+    failedChunks: 0,
+    attempts: 1,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('AdminPanel', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocked.listDocuments.mockResolvedValue({ documents: [handbook], total: 1, limit: 20, offset: 0 });
+    mocked.listIngestJobs.mockResolvedValue({ jobs: [], total: 0, limit: 100, offset: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists documents and searches them', async () => {
+    render(<AdminPanel />);
+    expect(await screen.findByText('Handbook')).toBeTruthy();
+    expect(screen.getByText('policies/handbook.pdf')).toBeTruthy();
+    expect(screen.getByText('12')).toBeTruthy();
+    expect(screen.getByText('pdf, 4 pages')).toBeTruthy();
+    fireEvent.change(screen.getByPlaceholderText('Search documents'), { target: { value: 'vpn' } });
+    await waitFor(() =>
+      expect(mocked.listDocuments).toHaveBeenLastCalledWith({ q: 'vpn', limit: 20, offset: 0 })
+    );
+  });
+
+  it('ingests pasted text and polls the job until it is done', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    mocked.ingestText.mockResolvedValue({ job: job({ status: 'queued', progress: 0, completedChunks: 0 }) });
+    render(<AdminPanel />);
+    await screen.findByText('Handbook');
+    fireEvent.change(screen.getByPlaceholderText('Category'), { target: { value: 'hr' } });
+    fireEvent.change(screen.getByPlaceholderText('…or paste text'), { target: { value: 'Be kind.' } });
+    fireEvent.click(screen.getByText('Ingest text'));
+    expect(await screen.findAllByText('Queued')).toHaveLength(2);
+    expect(mocked.ingestText).toHaveBeenCalledWith({ text: 'Be kind.', category: 'hr', title: undefined });
+
+    mocked.listIngestJobs.mockResolvedValue({ jobs: [job({})], total: 1, limit: 100, offset: 0 });
+    await vi.advanceTimersByTimeAsync(2000);
+    await waitFor(() => expect(screen.queryByText('Queued')).toBeNull());
+    expect(screen.getByText('Indexed')).toBeTruthy();
+  });
+
+  it('shows failed ingestions and retries them', async () => {
+    const failed = job({ status: 'failed', error: 'embedding service unavailable', failedChunks: 3 });
+    mocked.listIngestJobs.mockResolvedValue({ jobs: [failed], total: 1, limit: 100, offset: 0 });
+    mocked.retryIngestJob.mockResolvedValue({ ...failed, status: 'queued', error: undefined });
+    render(<AdminPanel />);
+    expect(await screen.findByText('embedding service unavailable')).toBeTruthy();
+    fireEvent.click(screen.getAllByText('Retry')[0]);
+    await waitFor(() => expect(mocked.retryIngestJob).toHaveBeenCalledWith('job-1'));
+    expect(await screen.findAllByText('Queued')).toHaveLength(2);
+  });
+
+  it('re-ingests a document from an uploaded file', async () => {
+    mocked.ingestFile.mockResolvedValue({ job: job({ status: 'queued' }) });
+    render(<AdminPanel />);
+    fireEvent.click(await screen.findByText('Re-ingest'));
+    expect(screen.getByText('Re-ingest “Handbook”')).toBeTruthy();
+    const file = new File(['New handbook'], 'handbook.txt', { type: 'text/plain' });
+    fireEvent.change(screen.getByTestId('file-input'), { target: { files: [file] } });
+    await waitFor(() =>
+      expect(mocked.ingestFile).toHaveBeenCalledWith(file, {
+        documentId: 'doc-1',
+        category: 'hr',
+        title: 'Handbook'
+      })
+    );
+    await waitFor(() => expect(screen.queryByText('Re-ingest “Handbook”')).toBeNull());
+  });
+
+  it('deletes a document after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    mocked.deleteDocument.mockResolvedValue();
+    render(<AdminPanel />);
+    fireEvent.click(await screen.findByText('Delete'));
+    await waitFor(() => expect(mocked.deleteDocument).toHaveBeenCalledWith('doc-1'));
+    expect(mocked.listDocuments).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,201 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import type { ChatStreamEvent, Conversation } from '@ragika/shared';
+import App from '../src/App';
+import * as api from '../src/api';
+
+vi.mock('../src/api', () => ({
+  API_URL: 'http://api.test',
+  listConversations: vi.fn(),
+  getConversation: vi.fn(),
+  createConversation: vi.fn(),
+  renameConversation: vi.fn(),
+  deleteConversation: vi.fn(),
+  appendMessage: vi.fn(),
+  importConversations: vi.fn(),
+  streamChatQuery: vi.fn(),
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  deleteDocument: vi.fn(),
+  ingestText: vi.fn(),
+  ingestFile: vi.fn(),
+  replaceDocument: vi.fn(),
+  listIngestJobs: vi.fn(),
+  retryIngestJob: vi.fn(),
+  submitFeedback: vi.fn(),
+  getFeedbackSummary: vi.fn(),
+  getSession: vi.fn(),
+  login: vi.fn(),
+  logout: vi.fn(),
+  onUnauthorized: vi.fn()
+}));
+
+const mocked = vi.mocked(api);
+
+const conversation: Conversation = {
+  id: 'chat-1',
+  title: 'Vacation',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  messages: [
+    { id: 'm1', role: 'user', content: 'How many vacation days?', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: 'm2', role: 'assistant', content: 'Twenty days.', createdAt: '2024-01-01T00:00:00.000Z' }
+  ]
+};
+
+/** Make the mocked stream emit the given events, in order */
+function streamEvents(events: ChatStreamEvent[]) {
+  mocked.streamChatQuery.mockImplementation(async (_body, onEvent) => {
+    events.forEach(onEvent);
+  });
+}
+
+async function send(text: string) {
+  const input = await screen.findByPlaceholderText('Type your message...');
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+}
+
+describe('App', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    localStorage.clear();
+    mocked.onUnauthorized.mockReturnValue(() => {});
+    mocked.getSession.mockResolvedValue({
+      authEnabled: false,
+      user: { id: 'anonymous', name: 'Anonymous', roles: ['admin'], categories: ['*'] }
+    });
+    mocked.listConversations.mockResolvedValue([
+      { id: 'chat-1', title: 'Vacation', createdAt: '', updatedAt: '', messageCount: 2 }
+    ]);
+    mocked.getConversation.mockResolvedValue(conversation);
+    mocked.appendMessage.mockImplementation(async (_id, body) => ({
+      conversation: { id: 'chat-1', title: 'Vacation', createdAt: '', updatedAt: '', messageCount: 3 },
+      message: { ...body, id: body.id || 'new', createdAt: '' }
+    }));
+  });
+
+  it('loads the chat list and opens the most recent chat', async () => {
+    render(<App />);
+    expect(await screen.findByText('Twenty days.')).toBeTruthy();
+    expect(screen.getAllByText('Vacation').length).toBeGreaterThan(0);
+    expect(mocked.getConversation).toHaveBeenCalledWith('chat-1');
+  });
+
+  it('streams an answer with history, then saves both messages', async () => {
+    const citation = { documentId: 'd1', chunkId: 'c1', title: 'Leave policy' };
+    streamEvents([
+      { type: 'citations', citations: [citation, { documentId: 'd2', chunkId: 'c2' }] },
+      { type: 'delta', text: 'Thirty ' },
+      { type: 'delta', text: 'days [2].' },
+      { type: 'done', answer: 'Thirty days [1].', citations: [citation] }
+    ]);
+    render(<App />);
+    await screen.findByText('Twenty days.');
+    await send('And for managers?');
+
+    expect(await screen.findByText(/^Thirty days/)).toBeTruthy();
+    expect(mocked.streamChatQuery).toHaveBeenCalledWith(
+      {
+        query: 'And for managers?',
+        history: [
+          { role: 'user', content: 'How many vacation days?' },
+          { role: 'assistant', content: 'Twenty days.' }
+        ]
+      },
+      expect.any(Function)
+    );
+    await waitFor(() => expect(mocked.appendMessage).toHaveBeenCalledTimes(2));
+    expect(mocked.appendMessage.mock.calls[1][1]).toMatchObject({
+      role: 'assistant',
+      content: 'Thirty days [1].',
+      citations: [citation]
+    });
+  });
+
+  it('sends feedback on logged answers', async () => {
+    streamEvents([{ type: 'done', answer: 'Thirty days.', citations: [], answerId: 'answer-1' }]);
+    render(<App />);
+    await screen.findByText('Twenty days.');
+    // Answers loaded without a logged ID cannot be rated
+    expect(screen.queryByTitle('Good answer')).toBeNull();
+    await send('And for managers?');
+    fireEvent.click(await screen.findByTitle('Good answer'));
+    expect(mocked.submitFeedback).toHaveBeenCalledWith('answer-1', { rating: 'up', comment: undefined });
+    expect(screen.getByTitle('Good answer').getAttribute('aria-pressed')).toBe('true');
+    await waitFor(() => expect(mocked.appendMessage).toHaveBeenCalledTimes(2));
+    expect(mocked.appendMessage.mock.calls[1][1]).toMatchObject({ answerId: 'answer-1' });
+  });
+
+  it('shows an error message when the answer cannot be streamed', async () => {
+    mocked.streamChatQuery.mockRejectedValue(new Error('network down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<App />);
+    await screen.findByText('Twenty days.');
+    await send('Anything new?');
+    expect(await screen.findByText(/unable to retrieve response from server/)).toBeTruthy();
+  });
+
+  it('names the service that failed when the API reports it', async () => {
+    streamEvents([
+      { type: 'citations', citations: [] },
+      { type: 'error', error: 'Failed to process chat query', code: 'generation_unavailable' }
+    ]);
+    render(<App />);
+    await screen.findByText('Twenty days.');
+    await send('Anything new?');
+    expect(await screen.findByText(/the language model is unavailable/)).toBeTruthy();
+  });
+
+  it('creates a chat implicitly when sending without one', async () => {
+    mocked.listConversations.mockResolvedValue([]);
+    mocked.createConversation.mockResolvedValue({ ...conversation, id: 'chat-2', title: 'New chat', messages: [] });
+    streamEvents([{ type: 'done', answer: 'Hello.', citations: [] }]);
+    render(<App />);
+    expect(await screen.findByText('No chats yet. Start a new chat!')).toBeTruthy();
+    await send('Hi');
+    expect(await screen.findByText('Hello.')).toBeTruthy();
+    expect(mocked.createConversation).toHaveBeenCalled();
+  });
+
+  it('asks for a login when the API rejects the credentials, then loads the chats', async () => {
+    let unauthorized = () => {};
+    mocked.onUnauthorized.mockImplementation(listener => {
+      unauthorized = listener;
+      return () => {};
+    });
+    mocked.getSession.mockImplementation(async () => {
+      unauthorized();
+      throw new Error('Request failed with status code 401');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const user = { id: 'user:alice', name: 'Alice', roles: ['query' as const], categories: ['hr'] };
+    mocked.login.mockResolvedValue({ token: 't', expiresAt: '', user });
+    render(<App />);
+
+    fireEvent.change(await screen.findByPlaceholderText('Username'), { target: { value: 'alice' } });
+    fireEvent.change(screen.getByPlaceholderText('Password'), { target: { value: 'wonderland' } });
+    fireEvent.click(screen.getByText('Sign in'));
+
+    expect(await screen.findByText('Twenty days.')).toBeTruthy();
+    expect(mocked.login).toHaveBeenCalledWith({ username: 'alice', password: 'wonderland' });
+    expect(screen.getByText('Alice')).toBeTruthy();
+    expect(screen.queryByText('Documents')).toBeNull();
+    fireEvent.click(screen.getByText('Sign out'));
+    expect(mocked.logout).toHaveBeenCalled();
+    expect(await screen.findByPlaceholderText('Username')).toBeTruthy();
+  });
+
+  it('switches between the document administration and the chat', async () => {
+    mocked.listDocuments.mockResolvedValue({ documents: [], total: 0, limit: 20, offset: 0 });
+    mocked.listIngestJobs.mockResolvedValue({ jobs: [], total: 0, limit: 100, offset: 0 });
+    render(<App />);
+    expect(await screen.findByText('Twenty days.')).toBeTruthy();
+    fireEvent.click(screen.getByText('Documents'));
+    expect(await screen.findByText('No documents found.')).toBeTruthy();
+    expect(screen.queryByText('Twenty days.')).toBeNull();
+    fireEvent.click(screen.getAllByText('Vacation')[0]);
+    expect(await screen.findByText('Twenty days.')).toBeTruthy();
+  });
+});
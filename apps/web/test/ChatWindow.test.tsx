@@ -0,0 +1,62 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import type { ChatMeta } from '../src/App';
+import ChatWindow from '../src/components/ChatWindow';
+import { EMPTY_FILTERS } from '../src/components/FilterBar';
+
+// Props not under test
+const filterProps = { filters: EMPTY_FILTERS, onFiltersChange: vi.fn() };
+
+const chat: ChatMeta = {
+  id: 'chat-1',
+  title: 'Leave',
+  loaded: true,
+  messages: [
+    { id: 'm1', role: 'user', content: 'How many vacation days?' },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'Twenty days [1].',
+      citations: [{ documentId: 'd1', chunkId: 'c1', title: 'Leave policy' }]
+    }
+  ]
+};
+
+describe('ChatWindow', () => {
+  it('prompts for a first message when the chat is empty', () => {
+    render(<ChatWindow chat={null} onSendMessage={vi.fn()} onOpenCitation={vi.fn()} {...filterProps} />);
+    expect(screen.getByText('Start a conversation by typing a message below.')).toBeTruthy();
+  });
+
+  it('shows a loading state and disables input until messages arrive', () => {
+    render(
+      <ChatWindow
+        chat={{ ...chat, messages: [], loaded: false }}
+        onSendMessage={vi.fn()}
+        onOpenCitation={vi.fn()}
+        {...filterProps}
+      />
+    );
+    expect(screen.getByText('Loading conversation…')).toBeTruthy();
+    expect((screen.getByPlaceholderText('Type your message...') as HTMLTextAreaElement).disabled).toBe(true);
+  });
+
+  it('renders the messages and opens citations', () => {
+    const onOpenCitation = vi.fn();
+    render(<ChatWindow chat={chat} onSendMessage={vi.fn()} onOpenCitation={onOpenCitation} {...filterProps} />);
+    expect(screen.getByText('How many vacation days?')).toBeTruthy();
+    fireEvent.click(screen.getAllByRole('button', { name: '[1]' })[0]);
+    expect(onOpenCitation).toHaveBeenCalledWith(chat.messages[1].citations![0]);
+  });
+
+  it('sends the trimmed message on Enter and clears the input', () => {
+    const onSendMessage = vi.fn();
+    render(<ChatWindow chat={chat} onSendMessage={onSendMessage} onOpenCitation={vi.fn()} {...filterProps} />);
+    const input = screen.getByPlaceholderText('Type your message...') as HTMLTextAreaElement;
+    fireEvent.change(input, { target: { value: '  And for managers?  ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSendMessage).toHaveBeenCalledWith('And for managers?');
+    expect(input.value).toBe('');
+  });
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import FeedbackDashboard from '../src/components/FeedbackDashboard';
+import * as api from '../src/api';
+
+vi.mock('../src/api', () => ({
+  getFeedbackSummary: vi.fn()
+}));
+
+const mocked = vi.mocked(api);
+
+describe('FeedbackDashboard', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mocked.getFeedbackSummary.mockResolvedValue({
+      totals: { answers: 5, rated: 4, up: 3, down: 1 },
+      categories: [
+        { category: 'hr', answers: 3, rated: 3, up: 3, down: 0, upRate: 1 },
+        { category: 'it', answers: 2, rated: 1, up: 0, down: 1, upRate: 0 }
+      ],
+      unanswered: [
+        {
+          query: 'Where do I park?',
+          count: 2,
+          outcome: 'no_results',
+          lastAskedAt: '2024-01-02T00:00:00.000Z'
+        }
+      ],
+      downvotedDocuments: [{ documentId: 'd1', title: 'Hardware', count: 1 }],
+      recentDownvotes: [
+        {
+          id: 'a1',
+          query: 'How often are laptops replaced?',
+          answer: 'Every three years.',
+          retrievedChunkIds: ['c1'],
+          citedDocuments: [{ documentId: 'd1', chunkId: 'c1', title: 'Hardware' }],
+          outcome: 'answered',
+          promptVersion: 'v1',
+          model: 'ollama:llama3.1',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          feedback: {
+            rating: 'down',
+            comment: 'It is four years now.',
+            createdAt: '2024-01-01T00:00:00.000Z'
+          }
+        }
+      ]
+    });
+  });
+
+  it('shows feedback rates, unanswered questions and downvoted answers', async () => {
+    render(<FeedbackDashboard />);
+    expect(await screen.findByText('Where do I park?')).toBeTruthy();
+    expect(screen.getByText(/5 answers, 4 rated/).textContent).toContain('75%');
+    expect(screen.getByText('2× nothing found')).toBeTruthy();
+    expect(screen.getByText('Hardware')).toBeTruthy();
+    expect(screen.getByText('“It is four years now.”')).toBeTruthy();
+    expect(mocked.getFeedbackSummary).toHaveBeenCalledWith({ since: expect.any(String) });
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: '0' } });
+    await waitFor(() => expect(mocked.getFeedbackSummary).toHaveBeenLastCalledWith({ since: undefined }));
+  });
+});
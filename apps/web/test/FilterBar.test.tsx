@@ -0,0 +1,41 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import FilterBar, { buildFilter, EMPTY_FILTERS } from '../src/components/FilterBar';
+
+describe('FilterBar', () => {
+  it('builds no filter when nothing is set', () => {
+    expect(buildFilter(EMPTY_FILTERS)).toBeUndefined();
+    expect(buildFilter({ ...EMPTY_FILTERS, tags: ' , ' })).toBeUndefined();
+  });
+
+  it('combines the fields into one filter expression', () => {
+    const filter = buildFilter({
+      categories: 'hr, it',
+      tags: 'policy',
+      from: '2024-01-01',
+      to: '',
+      metadata: 'region=EU, year=2024, archived=false'
+    });
+    expect(filter).toEqual({
+      and: [
+        { field: 'category', in: ['hr', 'it'] },
+        { field: 'tags', in: ['policy'] },
+        { field: 'createdAt', range: { gte: '2024-01-01T00:00:00.000Z' } },
+        { field: 'metadata.region', eq: 'EU' },
+        { field: 'metadata.year', eq: 2024 },
+        { field: 'metadata.archived', eq: false }
+      ]
+    });
+  });
+
+  it('shows the number of active filters and edits them when opened', () => {
+    const onChange = vi.fn();
+    render(<FilterBar filters={{ ...EMPTY_FILTERS, tags: 'policy' }} onChange={onChange} />);
+    fireEvent.click(screen.getByText(/Filters \(1\)/));
+    fireEvent.change(screen.getByPlaceholderText('Categories (comma separated)'), { target: { value: 'hr' } });
+    expect(onChange).toHaveBeenCalledWith({ ...EMPTY_FILTERS, tags: 'policy', categories: 'hr' });
+    fireEvent.click(screen.getByText('Clear'));
+    expect(onChange).toHaveBeenLastCalledWith(EMPTY_FILTERS);
+  });
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import type { Citation } from '@ragika/shared';
+import MessageBubble from '../src/components/MessageBubble';
+
+const citations: Citation[] = [
+  { documentId: 'd1', chunkId: 'c1', title: 'Leave policy' },
+  { documentId: 'd2', chunkId: 'c2', title: 'Approvals' }
+];
+
+describe('MessageBubble', () => {
+  it('renders user messages verbatim', () => {
+    render(<MessageBubble role="user" content="What about [1]?" citations={citations} />);
+    expect(screen.getByText('What about [1]?')).toBeTruthy();
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+
+  it('turns citation markers into buttons that open the cited source', () => {
+    const onCitationClick = vi.fn();
+    render(
+      <MessageBubble
+        role="assistant"
+        content="Twenty days [2] per year [1]. See [7]."
+        citations={citations}
+        onCitationClick={onCitationClick}
+      />
+    );
+    const inline = screen.getAllByRole('button', { name: '[2]' });
+    // One marker in the answer and one in the citation footer
+    expect(inline).toHaveLength(2);
+    fireEvent.click(inline[0]);
+    expect(onCitationClick).toHaveBeenCalledWith(1);
+    // Markers without a matching citation stay plain text
+    expect(screen.queryByRole('button', { name: '[7]' })).toBeNull();
+  });
+
+  it('hides the citation footer while streaming and shows a cursor', () => {
+    const { container } = render(
+      <MessageBubble role="assistant" content="Twenty" citations={citations} streaming />
+    );
+    expect(screen.queryAllByRole('button')).toHaveLength(0);
+    expect(container.querySelector('.animate-pulse')).not.toBeNull();
+  });
+
+  it('shows the rewritten query and warns about weakly grounded answers', () => {
+    render(
+      <MessageBubble
+        role="assistant"
+        content="Probably thirty days."
+        rewrittenQuery="vacation days for managers"
+        grounding={{ score: 0.2, lowGrounding: true, sentences: [], invalidCitations: [] }}
+      />
+    );
+    expect(screen.getByText('Searched for: vacation days for managers')).toBeTruthy();
+    expect(screen.getByText(/weakly supported by its sources/).textContent).toContain('grounding 20%');
+  });
+
+  it('rates finished answers and sends an optional comment', () => {
+    const onFeedback = vi.fn();
+    const { rerender } = render(
+      <MessageBubble role="assistant" content="Twenty days." onFeedback={onFeedback} />
+    );
+    fireEvent.click(screen.getByTitle('Bad answer'));
+    expect(onFeedback).toHaveBeenCalledWith('down');
+    fireEvent.change(screen.getByPlaceholderText('What was wrong? (optional)'), {
+      target: { value: ' It is thirty days. ' }
+    });
+    fireEvent.click(screen.getByText('Send'));
+    expect(onFeedback).toHaveBeenLastCalledWith('down', 'It is thirty days.');
+    expect(screen.queryByText('Send')).toBeNull();
+
+    rerender(
+      <MessageBubble role="assistant" content="Twenty days." onFeedback={onFeedback} feedback="down" />
+    );
+    expect(screen.getByTitle('Bad answer').getAttribute('aria-pressed')).toBe('true');
+    rerender(<MessageBubble role="assistant" content="Twenty" onFeedback={onFeedback} streaming />);
+    expect(screen.queryByTitle('Good answer')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatError, getAuthToken, onUnauthorized, setAuthToken, streamChatQuery } from '../src/api';
+
+function streamResponse(status: number, body = ''): Response {
+  return new Response(status === 200 ? body : null, { status });
+}
+
+describe('API client authentication', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('sends the stored token with chat streams', async () => {
+    setAuthToken('abc');
+    const fetchMock = vi.fn().mockResolvedValue(
+      streamResponse(200, 'event: done\ndata: {"type":"done","answer":"Hi.","citations":[]}\n\n')
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const events: unknown[] = [];
+    await streamChatQuery({ query: 'Hello' }, event => events.push(event));
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer abc' });
+    expect(events).toEqual([{ type: 'done', answer: 'Hi.', citations: [] }]);
+  });
+
+  it('forgets the token and notifies listeners when it is rejected', async () => {
+    setAuthToken('expired');
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse(401)));
+    const listener = vi.fn();
+    const unsubscribe = onUnauthorized(listener);
+    await expect(streamChatQuery({ query: 'Hello' }, () => {})).rejects.toThrow(/401/);
+    unsubscribe();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getAuthToken()).toBeNull();
+  });
+});
+
+describe('chat stream errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports the stage of a failed chat query', async () => {
+    const body = JSON.stringify({ error: 'Failed to process chat query', code: 'embedding_failed' });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 502 })));
+    const err = await streamChatQuery({ query: 'Hello' }, () => {}).catch(e => e);
+    expect(err).toBeInstanceOf(ChatError);
+    expect(err).toMatchObject({ code: 'embedding_failed', message: 'Chat stream failed with status 502' });
+  });
+});
@@ -1,9 +1,11 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
 // Vite configuration for the web application. This sets up React support
 // and defines an alias to allow cleaner imports from the src directory.
+// Component tests run under Vitest in a simulated DOM.
 export default defineConfig({
   plugins: [react()],
   resolve: {
@@ -13,5 +15,9 @@ export default defineConfig({
   },
   server: {
     port: 5173
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./test/setup.ts']
   }
 });
\ No newline at end of file
@@ -7,6 +7,14 @@ export interface DocumentChunk {
   category: string;
   /** The raw text of this chunk */
   text: string;
+  /** Page of the source document the chunk was taken from, if paginated */
+  page?: number;
+  /** Character offset of the chunk start within the source document */
+  start?: number;
+  /** Character offset just past the chunk end within the source document */
+  end?: number;
+  /** Markdown headings enclosing this chunk, outermost first */
+  headingPath?: string[];
   /** Optional embedding vector for this chunk */
   embedding?: number[];
 }
@@ -20,13 +28,126 @@ export interface DocumentRecord {
   title: string;
   /** Date the document was ingested */
   createdAt: string;
+  /** Date the document content was last replaced, if ever */
+  updatedAt?: string;
+  /** Number of chunks stored for this document */
+  chunks: number;
+  /** SHA-256 hex digest of the document text */
+  contentHash: string;
+  /** Client supplied key used for upsert-by-key ingestion */
+  externalId?: string;
+  /** Chunking settings the document was last indexed with */
+  chunking?: ChunkingOptions;
+  /** Format of the source file, for uploaded documents */
+  format?: DocumentFormat;
+  /** Number of pages in the source file, for paginated formats */
+  pages?: number;
+  /** Free-form labels usable in chat query filters */
+  tags?: string[];
+  /** Custom key/value metadata usable in chat query filters */
+  metadata?: Record<string, MetadataValue>;
+}
+
+export interface DocumentListResponse {
+  /** Documents on the requested page, newest first */
+  documents: DocumentRecord[];
+  /** Total number of documents matching the filter */
+  total: number;
+  /** Maximum number of documents returned */
+  limit: number;
+  /** Number of matching documents skipped */
+  offset: number;
+}
+
+export interface DocumentDetailResponse {
+  /** Stored metadata for the document */
+  document: DocumentRecord;
+  /** Chunks of the document in source order */
+  chunks: DocumentChunk[];
+}
+
+export interface ReplaceDocumentRequest {
+  /** New text replacing the document content */
+  text: string;
+  /** New category; keeps the current one when omitted */
+  category?: string;
+  /** New title; keeps the current one when omitted */
+  title?: string;
+  /** Optional override of how the text is split into chunks */
+  chunking?: ChunkingOptions;
+  /** New tags; keeps the current ones when omitted */
+  tags?: string[];
+  /** New custom metadata; keeps the current metadata when omitted */
+  metadata?: Record<string, MetadataValue>;
+}
+
+/**
+ * How candidate chunks are retrieved: by embedding similarity, by lexical
+ * (BM25) matching, or by fusing both rankings.
+ */
+export type RetrievalMode = 'dense' | 'sparse' | 'hybrid';
+
+export interface RetrievalOptions {
+  /** Retrieval mode; defaults to the server configuration */
+  mode?: RetrievalMode;
+  /** Weight of the dense ranking in hybrid fusion */
+  denseWeight?: number;
+  /** Weight of the sparse ranking in hybrid fusion */
+  sparseWeight?: number;
+}
+
+/** A previous message of the conversation a query belongs to */
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
 }
 
+/** Value of a custom metadata field */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Field a filter condition applies to: a document field, or a custom
+ * metadata key written as `metadata.<key>`. `createdAt` is the date the
+ * document was first ingested; `tags` matches if any tag matches.
+ */
+export type FilterField = 'category' | 'title' | 'tags' | 'documentId' | 'createdAt' | `metadata.${string}`;
+
+/** Bounds of a range condition, either all numbers or all ISO 8601 dates */
+export interface FilterRange {
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+/**
+ * Filter restricting the chunks a chat query retrieves. Conditions compare
+ * a field with a value (`eq`), a list of strings or integers (`in`) or a
+ * range, and combine with `and`, `or` and `not`.
+ */
+export type FilterExpression =
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression }
+  | { field: FilterField; eq: MetadataValue }
+  | { field: FilterField; in: (string | number)[] }
+  | { field: FilterField; range: FilterRange };
+
 export interface ChatQueryRequest {
   /** The user's natural language query */
   query: string;
+  /** Earlier messages of the conversation, oldest first */
+  history?: ChatTurn[];
   /** Optionally restrict retrieval to a specific category */
   category?: string;
+  /** Optionally restrict retrieval to the chunks matching a filter */
+  filter?: FilterExpression;
+  /** Optional override of how candidate chunks are retrieved */
+  retrieval?: RetrievalOptions;
+  /** Name of the prompt template to answer with, instead of the one for the category */
+  promptTemplate?: string;
+  /** Language to answer in, e.g. "German"; defaults to the server setting */
+  language?: string;
 }
 
 export interface Citation {
@@ -34,13 +155,167 @@ export interface Citation {
   documentId: string;
   /** Chunk ID within the document */
   chunkId: string;
+  /** Title of the cited document */
+  title?: string;
+  /** Category of the cited document */
+  category?: string;
+  /** Full text of the cited chunk */
+  text?: string;
+  /** Passage of the chunk most relevant to the query */
+  snippet?: string;
+  /** Retrieval score; the fused rank score in hybrid mode */
+  score?: number;
+  /** Cross-encoder score, when a reranker is configured */
+  rerankScore?: number;
+  /** Page of the source document the chunk was taken from, if paginated */
+  page?: number;
+  /** Character offset of the chunk start within the source document */
+  start?: number;
+  /** Character offset just past the chunk end within the source document */
+  end?: number;
+  /** Markdown headings enclosing the chunk, outermost first */
+  headingPath?: string[];
+  /**
+   * Every chunk in the cited context when adjacent chunks of the document
+   * were merged into it; `chunkId` is then the best ranked of them
+   */
+  chunkIds?: string[];
+}
+
+/** How well a single sentence of an answer is supported by its sources */
+export interface SentenceGrounding {
+  /** The sentence, including its citation markers */
+  text: string;
+  /** Share of the sentence's content words found in the cited chunks, 0–1 */
+  score: number;
+  /** Citation numbers referenced by the sentence */
+  citations: number[];
+}
+
+/** Result of checking an answer against the contexts it was generated from */
+export interface GroundingReport {
+  /** Overall grounding score, 0–1; absent when the answer makes no claims */
+  score?: number;
+  /** True when the score is below the configured threshold */
+  lowGrounding: boolean;
+  /** Per-sentence scores in answer order */
+  sentences: SentenceGrounding[];
+  /** Citation numbers in the raw answer that matched no context; removed from the answer */
+  invalidCitations: number[];
+}
+
+/** How the retrieved chunks were packed into the prompt of an answer */
+export interface PromptUsage {
+  /** Contexts included in the prompt, after merging adjacent chunks */
+  contexts: number;
+  /** Retrieved chunks included in those contexts */
+  chunks: number;
+  /** Retrieved chunks left out as near-duplicates of included ones */
+  duplicates: number;
+  /** Estimated tokens of the contexts */
+  contextTokens: number;
+  /** Tokens the contexts were allowed to take */
+  contextBudget: number;
+  /** Estimated tokens of the whole prompt, instructions and history included */
+  promptTokens: number;
+}
+
+/** External services the API depends on */
+export type Dependency = 'vector_store' | 'embeddings' | 'reranker' | 'llm';
+
+/** Outcome of probing one dependency */
+export interface DependencyHealth {
+  status: 'ok' | 'error';
+  /** Time the probe took, in milliseconds */
+  latencyMs: number;
+  /** Why the dependency is considered down */
+  error?: string;
+}
+
+export interface HealthResponse {
+  /**
+   * `ok` when every dependency answers, `degraded` when only optional ones
+   * (the reranker) are down, and `error` when the API cannot answer queries
+   */
+  status: 'ok' | 'degraded' | 'error';
+  /** Probe results per dependency; the reranker is absent when none is configured */
+  dependencies: Partial<Record<Dependency, DependencyHealth>>;
+}
+
+/**
+ * Machine-readable reason a request failed, naming the stage that failed:
+ * embedding the query, searching the vector store, reranking, or
+ * generating the answer. `unavailable` codes mean the dependency's circuit
+ * breaker is open after repeated failures, so retrying at once is futile.
+ */
+export type ErrorCode =
+  | 'embedding_failed'
+  | 'embedding_unavailable'
+  | 'search_failed'
+  | 'search_unavailable'
+  | 'rerank_failed'
+  | 'rerank_unavailable'
+  | 'generation_failed'
+  | 'generation_unavailable'
+  | 'internal_error';
+
+/** Body of error responses from endpoints that report failure stages */
+export interface ErrorResponse {
+  /** Human readable error message */
+  error: string;
+  code?: ErrorCode;
+}
+
+/** Which steps of a chat query were served from the cache */
+export interface CacheStatus {
+  /** The whole answer was cached; retrieval and generation were skipped */
+  answer: boolean;
+  /** Retrieval results were cached; absent when retrieval was skipped */
+  search?: boolean;
+  /** The query embedding was cached; absent when no embedding was needed */
+  embedding?: boolean;
+}
+
+/** Results held by the query cache */
+export type CacheLayer = 'embedding' | 'search' | 'answer';
+
+/** Hits and misses per cache layer since the server started */
+export type CacheStats = Record<CacheLayer, { hits: number; misses: number }>;
+
+export interface CacheStatsResponse {
+  enabled: boolean;
+  /** Entries held in memory */
+  entries: number;
+  layers: CacheStats;
 }
 
 export interface ChatQueryResponse {
-  /** Final answer generated by the LLM */
+  /** Final answer generated by the LLM, citation markers renumbered to match `citations` */
   answer: string;
-  /** List of citations supporting the answer */
+  /** Citations referenced by the answer; `[n]` in the answer refers to the n-th entry */
   citations: Citation[];
+  /** Standalone query used for retrieval when rewritten from the history */
+  rewrittenQuery?: string;
+  /** Citation and grounding check of the answer, when one was generated */
+  grounding?: GroundingReport;
+  /** ID under which the answer was logged, for feedback on it; absent if logging failed */
+  answerId?: string;
+  /** Contexts and tokens used by the prompt; absent when retrieval found nothing */
+  usage?: PromptUsage;
+  /** Steps served from the cache; absent when caching is disabled */
+  cache?: CacheStatus;
+}
+
+/** Strategies available for splitting documents into chunks */
+export type ChunkStrategy = 'fixed' | 'sentence' | 'markdown';
+
+export interface ChunkingOptions {
+  /** Splitting strategy; defaults to the server configuration */
+  strategy?: ChunkStrategy;
+  /** Maximum size of a chunk in tokens */
+  maxTokens?: number;
+  /** Number of tokens repeated from the end of the previous chunk */
+  overlapTokens?: number;
 }
 
 export interface IngestTextRequest {
@@ -50,11 +325,314 @@ export interface IngestTextRequest {
   category: string;
   /** Optional title for the document */
   title?: string;
+  /** Optional override of how the text is split into chunks */
+  chunking?: ChunkingOptions;
+  /**
+   * Optional client supplied key. Ingesting again with the same key updates
+   * the existing document instead of creating a new one.
+   */
+  externalId?: string;
+  /** Free-form labels for filtering, e.g. `["policy", "2024"]` */
+  tags?: string[];
+  /** Custom key/value metadata for filtering, e.g. `{ "region": "EU" }` */
+  metadata?: Record<string, MetadataValue>;
 }
 
+/**
+ * Outcome of an ingestion: a new document was created, an existing one was
+ * updated, or the content was already indexed and nothing changed.
+ */
+export type IngestStatus = 'created' | 'updated' | 'unchanged';
+
 export interface IngestTextResponse {
   /** ID of the created document */
   documentId: string;
   /** Number of chunks created */
   chunks: number;
-}
\ No newline at end of file
+  /** Whether the document was created, updated or already up to date */
+  status: IngestStatus;
+  /** Number of chunks that had to be embedded; unchanged chunks are reused */
+  embeddedChunks: number;
+}
+
+/** Document formats accepted by the file upload endpoint */
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface IngestFileResponse extends IngestTextResponse {
+  /** Format detected from the uploaded file */
+  format: DocumentFormat;
+  /** Number of pages in the source file, for paginated formats */
+  pages?: number;
+}
+
+/** Lifecycle of an ingestion job */
+export type IngestJobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+/**
+ * A document ingestion processed in the background. Returned with status
+ * 202 by the ingestion endpoints when called with `?async=true`, and by
+ * the `/ingest/jobs` endpoints.
+ */
+export interface IngestJob {
+  id: string;
+  /** Document created or updated by the job */
+  documentId: string;
+  category: string;
+  title: string;
+  status: IngestJobStatus;
+  /** Percentage of the document's chunks embedded and stored, 0 to 100 */
+  progress: number;
+  /** Number of chunks in the document; 0 until the job has started */
+  totalChunks: number;
+  completedChunks: number;
+  /** Chunks the last attempt could not embed or store */
+  failedChunks: number;
+  /** Reason the last attempt failed */
+  error?: string;
+  /** Number of times the job has been started */
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Outcome of a finished job */
+  result?: IngestTextResponse;
+}
+
+export interface IngestJobListResponse {
+  jobs: IngestJob[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Events emitted by the streaming chat endpoint. Each event is sent as a
+ * Server-Sent Event whose `event` field matches `type` and whose `data`
+ * field is the JSON encoded event.
+ */
+export type ChatStreamEvent =
+  | {
+      type: 'citations';
+      /** Citations for the contexts supplied to the LLM, sent before any tokens */
+      citations: Citation[];
+      /** Standalone query used for retrieval when rewritten from the history */
+      rewrittenQuery?: string;
+      /** Contexts and tokens used by the prompt; absent when retrieval found nothing */
+      usage?: PromptUsage;
+      /** Steps served from the cache; absent when caching is disabled */
+      cache?: CacheStatus;
+    }
+  | {
+      type: 'delta';
+      /** Next fragment of the answer as produced by the LLM */
+      text: string;
+    }
+  | {
+      type: 'done';
+      /**
+       * Complete answer after citation verification. Markers are renumbered
+       * to match `citations`, so it may differ from the concatenated deltas.
+       */
+      answer: string;
+      /** Citations referenced by the final answer, replacing the earlier list */
+      citations: Citation[];
+      /** Citation and grounding check of the answer, when one was generated */
+      grounding?: GroundingReport;
+      /** ID under which the answer was logged, for feedback on it; absent if logging failed */
+      answerId?: string;
+    }
+  | {
+      type: 'error';
+      /** Human readable error message */
+      error: string;
+      /** Stage that failed */
+      code?: ErrorCode;
+    };
+
+/**
+ * Roles granted to API callers. `query` may ask questions, read the
+ * documents it is entitled to and keep conversations; `ingest` may add,
+ * replace and delete documents; `admin` may do everything.
+ */
+export type Role = 'query' | 'ingest' | 'admin';
+
+/** An authenticated caller: a user who logged in or an API key */
+export interface AuthUser {
+  /** Stable identifier, e.g. `user:alice` or `key:ci-ingest` */
+  id: string;
+  /** Display name */
+  name: string;
+  roles: Role[];
+  /** Categories the caller may read and write; `*` grants all categories */
+  categories: string[];
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  /** Bearer token to send in the Authorization header */
+  token: string;
+  /** Date the token expires */
+  expiresAt: string;
+  user: AuthUser;
+}
+
+/** The caller as seen by the server */
+export interface SessionResponse {
+  /** False when the server accepts unauthenticated requests */
+  authEnabled: boolean;
+  user: AuthUser;
+}
+
+/** A message stored as part of a server-side conversation */
+export interface ConversationMessage {
+  /** Unique identifier of the message */
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Citations attached to an assistant answer */
+  citations?: Citation[];
+  /** Standalone query used for retrieval, for assistant answers */
+  rewrittenQuery?: string;
+  /** Grounding check of an assistant answer */
+  grounding?: GroundingReport;
+  /** ID of the logged answer, for assistant answers */
+  answerId?: string;
+  /** Date the message was added */
+  createdAt: string;
+}
+
+export interface Conversation {
+  /** Unique identifier of the conversation */
+  id: string;
+  /** ID of the caller who created it; absent if created without authentication */
+  ownerId?: string;
+  /** Title shown in the chat list; generated from the first question */
+  title: string;
+  /** Date the conversation was created */
+  createdAt: string;
+  /** Date of the last change to the conversation */
+  updatedAt: string;
+  /** Messages in the order they were added */
+  messages: ConversationMessage[];
+}
+
+/** Conversation as returned by the list endpoint, without its messages */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Number of messages in the conversation */
+  messageCount: number;
+}
+
+export interface CreateConversationRequest {
+  /** Optional client generated ID */
+  id?: string;
+  /** Optional title; generated from the first question when omitted */
+  title?: string;
+}
+
+export interface RenameConversationRequest {
+  /** New title of the conversation */
+  title: string;
+}
+
+export interface AppendMessageRequest {
+  /** Optional client generated message ID */
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: Citation[];
+  rewrittenQuery?: string;
+  grounding?: GroundingReport;
+  answerId?: string;
+}
+
+export interface ImportConversationsRequest {
+  /** Conversations to import, typically from browser local storage */
+  conversations: {
+    id: string;
+    title: string;
+    messages: { id: string; role: 'user' | 'assistant'; content: string; citations?: Citation[] }[];
+  }[];
+}
+
+export interface ImportConversationsResponse {
+  /** Number of conversations created */
+  imported: number;
+  /** Number of conversations skipped because their ID already existed */
+  skipped: number;
+}
+
+/**
+ * How a chat query was answered: from retrieved context, with an answer
+ * admitting it does not know, or without any context found at all.
+ */
+export type AnswerOutcome = 'answered' | 'unknown' | 'no_results';
+
+export type FeedbackRating = 'up' | 'down';
+
+export interface AnswerFeedback {
+  rating: FeedbackRating;
+  /** Free-text remark, e.g. what was wrong with the answer */
+  comment?: string;
+  /** Date the feedback was last given */
+  createdAt: string;
+}
+
+/** A chat answer as logged by the server, with the feedback given on it */
+export interface AnswerRecord {
+  /** Unique identifier of the answer */
+  id: string;
+  /** ID of the caller who asked; absent without authentication */
+  userId?: string;
+  /** Question as asked */
+  query: string;
+  /** Standalone query used for retrieval when rewritten from the history */
+  rewrittenQuery?: string;
+  /** Category the question was asked in, else the category of its best context */
+  category?: string;
+  /** IDs of the retrieved chunks in rerank order */
+  retrievedChunkIds: string[];
+  /** Documents cited by the final answer, in citation order */
+  citedDocuments: { documentId: string; chunkId: string; title?: string }[];
+  answer: string;
+  outcome: AnswerOutcome;
+  /** Version of the prompt the answer was generated with */
+  promptVersion: string;
+  /** LLM that generated the answer */
+  model: string;
+  /** Date the answer was given */
+  createdAt: string;
+  feedback?: AnswerFeedback;
+}
+
+export interface FeedbackRequest {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+export interface FeedbackSummaryResponse {
+  /** Start of the period summarised, if limited */
+  since?: string;
+  totals: { answers: number; rated: number; up: number; down: number };
+  /** Feedback per category; `upRate` is the share of rated answers voted up */
+  categories: {
+    category: string;
+    answers: number;
+    rated: number;
+    up: number;
+    down: number;
+    upRate?: number;
+  }[];
+  /** Questions most often left unanswered, most frequent first */
+  unanswered: { query: string; count: number; outcome: AnswerOutcome; lastAskedAt: string }[];
+  /** Documents most often cited by downvoted answers */
+  downvotedDocuments: { documentId: string; title?: string; count: number }[];
+  /** Most recent downvoted answers */
+  recentDownvotes: AnswerRecord[];
+}
@@ -0,0 +1,1638 @@
+import fastify, { FastifyReply } from 'fastify';
+import cors from '@fastify/cors';
+import multipart from '@fastify/multipart';
+import * as dotenv from 'dotenv';
+import path from 'path';
+import { createHash } from 'crypto';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { detectFormat, extractText, TextSection } from './extract';
+import { chunkDocument, validateChunkingOptions } from './chunking';
+import { JsonStore } from './store';
+import { conversationRoutes } from './conversations';
+import { answerOutcome, feedbackRoutes, normaliseQuestion } from './feedback';
+import { QueryCache } from './cache';
+import {
+  cacheRequests,
+  checkDependencies,
+  embeddedChunksTotal,
+  ingestChunksTotal,
+  ingestDuration,
+  ingestJobsTotal,
+  instrumentProviders,
+  log,
+  logger,
+  metrics,
+  observeRequests,
+  requestId
+} from './telemetry';
+import {
+  ChunkFailureError,
+  ingestJobRoutes,
+  JobProgress,
+  JobQueue,
+  mapConcurrent,
+  withRetries
+} from './jobs';
+import { encodeSparseDocument, encodeSparseQuery } from './sparse';
+import { reciprocalRankFusion, validateRetrievalOptions } from './retrieval';
+import { extractSnippet } from './snippets';
+import { verifyAnswer } from './grounding';
+import { estimateTokens, PackedContext, packContexts } from './context';
+import { allOf, validateFilter, validateMetadata } from './filters';
+import {
+  authenticate,
+  authRoutes,
+  canAccessCategory,
+  entitledCategories,
+  loadAuthConfig,
+  ANONYMOUS,
+  requireRole
+} from './auth';
+import { ChatPrompt, createProviders, SearchHit, VectorPoint } from './providers';
+import { protectProviders, UpstreamError } from './resilience';
+import { loadConfig } from './config';
+import { serveOpenApi } from './openapi';
+import {
+  chatQueryBody,
+  DocumentListQuery,
+  documentListQuery,
+  formatValidationError,
+  IngestQuery,
+  ingestQuery,
+  ingestTextBody,
+  replaceDocumentBody,
+  validatorCompiler
+} from './schemas';
+import { loadPromptLibrary, renderPrompt, templateVersion, validatePromptOptions } from './prompts';
+
+// Import shared types for strong typing
+import type {
+  AnswerRecord,
+  AuthUser,
+  CacheStatsResponse,
+  CacheStatus,
+  ErrorResponse,
+  IngestTextRequest,
+  IngestTextResponse,
+  IngestFileResponse,
+  ChatQueryRequest,
+  ChatQueryResponse,
+  ChatStreamEvent,
+  ChatTurn,
+  ChunkingOptions,
+  ChunkStrategy,
+  Citation,
+  Conversation,
+  DocumentChunk,
+  DocumentDetailResponse,
+  DocumentFormat,
+  DocumentListResponse,
+  DocumentRecord,
+  FilterExpression,
+  GroundingReport,
+  HealthResponse,
+  IngestJob,
+  MetadataValue,
+  PromptUsage,
+  ReplaceDocumentRequest,
+  RetrievalOptions
+} from '@ragika/shared';
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Settings from the environment and CONFIG_FILE; invalid ones stop the server here
+export const config = loadConfig();
+const {
+  EMBEDDINGS_PROVIDER,
+  EMBEDDINGS_BASE_URL,
+  EMBEDDING_DIMENSION,
+  RERANK_BASE_URL,
+  RERANK_PROVIDER,
+  LLM_PROVIDER,
+  LLM_BASE_URL,
+  LLM_MODEL,
+  LLM_FALLBACKS,
+  EMBEDDINGS_TIMEOUT_MS,
+  RERANK_TIMEOUT_MS,
+  LLM_TIMEOUT_MS,
+  UPSTREAM_RETRIES,
+  UPSTREAM_RETRY_DELAY_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_RESET_SECONDS,
+  VECTOR_STORE,
+  QDRANT_URL,
+  COLLECTION_NAME,
+  METADATA_INDEXES,
+  TOP_K,
+  MAX_CONTEXT,
+  MAX_UPLOAD_MB,
+  CHUNK_STRATEGY,
+  CHUNK_MAX_TOKENS,
+  CHUNK_OVERLAP_TOKENS,
+  DATA_DIR,
+  RETRIEVAL_MODE,
+  DENSE_WEIGHT,
+  SPARSE_WEIGHT,
+  RRF_K,
+  HISTORY_MAX_TURNS,
+  HISTORY_MAX_CHARS,
+  GROUNDING_THRESHOLD,
+  PROMPT_TEMPLATES_DIR,
+  PROMPT_TEMPLATE,
+  ANSWER_LANGUAGE,
+  LLM_CONTEXT_WINDOW,
+  LLM_ANSWER_TOKENS,
+  LLM_CHARS_PER_TOKEN,
+  CONTEXT_TOKEN_BUDGET,
+  CONTEXT_DIVERSITY,
+  CONTEXT_DUPLICATE_THRESHOLD,
+  CACHE_BACKEND,
+  CACHE_MAX_ENTRIES,
+  CACHE_TTL_SECONDS,
+  LOG_LEVEL,
+  HEALTH_TIMEOUT_MS,
+  INGEST_CONCURRENCY,
+  EMBED_BATCH_SIZE,
+  EMBED_CONCURRENCY,
+  EMBED_RETRIES,
+  EMBED_RETRY_DELAY_MS,
+  UPSERT_BATCH_SIZE,
+  AUTH_FILE,
+  JWT_SECRET,
+  TOKEN_TTL_SECONDS,
+  CORS_ORIGINS
+} = config;
+export const { PORT } = config;
+
+// The application is built here and started by index.ts, so tests can drive
+// it through `inject` without binding a port. Requests are logged as JSON
+// lines with their correlation ID once they complete.
+export const app = fastify({
+  logger,
+  genReqId: requestId,
+  requestIdLogLabel: 'requestId',
+  disableRequestLogging: true,
+  schemaErrorFormatter: formatValidationError
+});
+observeRequests(app);
+
+// Requests are checked against the route schemas, and rejected ones are
+// answered like the handlers' own 400s
+app.setValidatorCompiler(validatorCompiler);
+app.setErrorHandler((error, _request, reply) => {
+  if (error.validation) {
+    return reply.status(400).send({ error: error.message });
+  }
+  return reply.send(error);
+});
+serveOpenApi(app, { title: 'Ragika API', version: '0.1.0' });
+
+// The app's logger is a child of the root logger, so both take the level
+logger.level = LOG_LEVEL;
+app.log.level = LOG_LEVEL;
+
+// Browsers may call the API from any origin unless CORS_ORIGINS lists the allowed ones
+app.register(cors, { origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : true });
+
+// Callers are identified by bearer token or API key; without an auth file
+// every request is served with full access
+const authConfig = loadAuthConfig(AUTH_FILE, JWT_SECRET, TOKEN_TTL_SECONDS);
+if (!authConfig.enabled) {
+  logger.warn('AUTH_FILE is not set; the API accepts unauthenticated requests with full access');
+}
+app.addHook('onRequest', authenticate(authConfig));
+app.register(authRoutes, { config: authConfig });
+
+// Prompt templates are validated on load, so a broken template stops the server here
+export const promptTemplates = loadPromptLibrary(PROMPT_TEMPLATES_DIR, PROMPT_TEMPLATE);
+
+// Settings that shape retrieval and answers, recorded with evaluation runs
+export const PIPELINE_SETTINGS = {
+  embeddingsProvider: EMBEDDINGS_PROVIDER,
+  rerankProvider: RERANK_PROVIDER,
+  llmProvider: LLM_PROVIDER,
+  llmModel: LLM_MODEL,
+  vectorStore: VECTOR_STORE,
+  collection: COLLECTION_NAME,
+  retrievalMode: RETRIEVAL_MODE,
+  denseWeight: DENSE_WEIGHT,
+  sparseWeight: SPARSE_WEIGHT,
+  rrfK: RRF_K,
+  topK: TOP_K,
+  maxContext: MAX_CONTEXT,
+  contextTokenBudget: CONTEXT_TOKEN_BUDGET,
+  contextDiversity: CONTEXT_DIVERSITY,
+  contextDuplicateThreshold: CONTEXT_DUPLICATE_THRESHOLD,
+  llmContextWindow: LLM_CONTEXT_WINDOW,
+  promptTemplate: templateVersion(promptTemplates.defaultTemplate),
+  groundingThreshold: GROUNDING_THRESHOLD
+};
+
+// Embeddings, reranking, generation and vector storage are pluggable; the
+// hash, none, extractive and memory providers run without external services.
+// Every call to them is timed and counted for tracing and metrics, each
+// attempt separately, and goes through retries and circuit breakers.
+export const { embedder, reranker, generator, vectorStore } = protectProviders(
+  instrumentProviders(
+    createProviders({
+      embeddings: {
+        provider: EMBEDDINGS_PROVIDER,
+        baseUrl: EMBEDDINGS_BASE_URL,
+        dimension: EMBEDDING_DIMENSION,
+        timeoutMs: EMBEDDINGS_TIMEOUT_MS
+      },
+      rerank: { provider: RERANK_PROVIDER, baseUrl: RERANK_BASE_URL, timeoutMs: RERANK_TIMEOUT_MS },
+      llm: {
+        provider: LLM_PROVIDER,
+        baseUrl: LLM_BASE_URL,
+        model: LLM_MODEL,
+        contextWindow: LLM_CONTEXT_WINDOW,
+        timeoutMs: LLM_TIMEOUT_MS,
+        fallbacks: LLM_FALLBACKS
+      },
+      vectorStore: {
+        provider: VECTOR_STORE,
+        url: QDRANT_URL,
+        collection: COLLECTION_NAME,
+        payloadIndexes: METADATA_INDEXES
+      }
+    })
+  ),
+  {
+    retries: UPSTREAM_RETRIES,
+    retryDelayMs: UPSTREAM_RETRY_DELAY_MS,
+    failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+    resetMs: CIRCUIT_RESET_SECONDS * 1000
+  }
+);
+
+// `provider:model` of the LLM and its fallbacks, by endpoint, for the answer log
+const LLM_MODELS = [{ provider: LLM_PROVIDER, model: LLM_MODEL }, ...LLM_FALLBACKS].map(
+  endpoint => `${endpoint.provider}:${endpoint.model}`
+);
+
+// Document records are kept outside the vector store so listing does not need a scroll
+const documents = new JsonStore<DocumentRecord>(path.join(DATA_DIR, 'documents.json'));
+const conversations = new JsonStore<Conversation>(path.join(DATA_DIR, 'conversations.json'));
+
+// Conversation history API used by the web client
+app.register(conversationRoutes, { store: conversations });
+
+// Every chat answer is logged with what produced it, for feedback and analytics
+const answers = new JsonStore<AnswerRecord>(path.join(DATA_DIR, 'answers.json'));
+app.register(feedbackRoutes, { store: answers });
+
+// Query embeddings, retrieval results and answers are cached; entries
+// drawn from a category are invalidated when its documents change
+export const queryCache = new QueryCache({
+  backend: CACHE_BACKEND,
+  maxEntries: CACHE_MAX_ENTRIES,
+  ttlSeconds: CACHE_TTL_SECONDS,
+  dir: path.join(DATA_DIR, 'cache')
+});
+app.addHook('onReady', async () => {
+  void queryCache.prune();
+});
+metrics.onCollect(() => {
+  const { layers } = queryCache.stats();
+  for (const [layer, counts] of Object.entries(layers)) {
+    cacheRequests.setTotal({ layer, result: 'hit' }, counts.hits);
+    cacheRequests.setTotal({ layer, result: 'miss' }, counts.misses);
+  }
+});
+
+// Ingestion runs as background jobs; unfinished jobs resume when the server starts
+export const ingestJobs = new JobQueue<IngestInput>(
+  new JsonStore<IngestJob>(path.join(DATA_DIR, 'jobs.json')),
+  path.join(DATA_DIR, 'jobs'),
+  async (input, report) => {
+    // A job may move the document to another category, and even a failed
+    // job leaves some chunks written, so both categories are invalidated
+    const previous = await documents.get(input.documentId);
+    const started = performance.now();
+    try {
+      const result = await runIngest(input, report);
+      releasePendingDocument(input.documentId);
+      ingestJobsTotal.inc({ status: 'done' });
+      ingestChunksTotal.inc({}, result.chunks);
+      embeddedChunksTotal.inc({}, result.embeddedChunks ?? 0);
+      return result;
+    } catch (err) {
+      ingestJobsTotal.inc({ status: 'failed' });
+      throw err;
+    } finally {
+      ingestDuration.observe({}, (performance.now() - started) / 1000);
+      await queryCache.invalidate([input.category, previous?.category]);
+    }
+  },
+  INGEST_CONCURRENCY
+);
+app.register(ingestJobRoutes, { queue: ingestJobs });
+app.addHook('onReady', async () => {
+  // Documents of jobs left unfinished or failed before a restart are still pending
+  for (const job of await ingestJobs.list()) {
+    const input = job.status === 'done' ? undefined : await ingestJobs.input(job.id);
+    if (input && !pendingDocuments.has(pendingKey(input))) {
+      pendingDocuments.set(pendingKey(input), input.documentId);
+    }
+  }
+  await ingestJobs.resume();
+});
+app.addHook('onClose', () => ingestJobs.close());
+
+// Accept multipart uploads for file ingestion
+app.register(multipart, { limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 } });
+
+/**
+ * Embed a search query, reusing the vector cached for the same normalised
+ * query and embedding model, and report whether the cache served it.
+ */
+async function embedQuery(query: string): Promise<{ vector: number[]; cached: boolean }> {
+  const key = queryCache.key(
+    'embedding',
+    EMBEDDINGS_PROVIDER,
+    EMBEDDINGS_BASE_URL,
+    EMBEDDING_DIMENSION,
+    normaliseQuestion(query)
+  );
+  const cached = await queryCache.get<number[]>('embedding', key);
+  if (cached) {
+    return { vector: cached, cached: true };
+  }
+  const [vector] = await embedder.embed([query]);
+  await queryCache.set('embedding', key, vector);
+  return { vector, cached: false };
+}
+
+/**
+ * Retrieve the top candidate chunks for a query. Dense mode searches the
+ * embedding vector, sparse mode the BM25 vector, and hybrid mode runs both
+ * searches and merges them with weighted reciprocal rank fusion. Vector
+ * stores without sparse search fall back to dense search. Whether the
+ * query embedding came from the cache is reported when one was needed.
+ */
+async function retrieveCandidates(
+  query: string,
+  filter: FilterExpression | undefined,
+  options: RetrievalOptions = {}
+): Promise<{ hits: SearchHit[]; embeddingCached?: boolean }> {
+  let mode = options.mode || RETRIEVAL_MODE;
+  if (mode !== 'dense' && !(await vectorStore.supportsSparse())) {
+    mode = 'dense';
+  }
+  let embeddingCached: boolean | undefined;
+  const denseSearch = async () => {
+    const { vector, cached } = await embedQuery(query);
+    embeddingCached = cached;
+    return vectorStore.searchDense(vector, filter, TOP_K);
+  };
+  const sparseSearch = async () => {
+    const sparse = encodeSparseQuery(query);
+    if (sparse.indices.length === 0) return [];
+    return vectorStore.searchSparse(sparse, filter, TOP_K);
+  };
+  if (mode === 'dense') return { hits: await denseSearch(), embeddingCached };
+  if (mode === 'sparse') return { hits: await sparseSearch() };
+  const [denseHits, sparseHits] = await Promise.all([denseSearch(), sparseSearch()]);
+  const hits = reciprocalRankFusion(
+    [
+      { items: denseHits, weight: options.denseWeight ?? DENSE_WEIGHT },
+      { items: sparseHits, weight: options.sparseWeight ?? SPARSE_WEIGHT }
+    ],
+    hit => hit.id,
+    RRF_K
+  )
+    .slice(0, TOP_K)
+    .map(({ item, score }) => ({ ...item, score }));
+  return { hits, embeddingCached };
+}
+
+/** Position of a context in the reranked order, with its rerank score */
+interface RankedContext {
+  index: number;
+  score?: number;
+}
+
+/**
+ * Optionally rerank contexts using a cross-encoder. If no reranker is
+ * configured, or it fails, this function simply returns the contexts'
+ * indices in their original order (i.e. preserves the original ranking)
+ * without scores.
+ */
+async function rerankContexts(query: string, contexts: string[]): Promise<RankedContext[]> {
+  const originalOrder = contexts.map((_, index) => ({ index }));
+  if (!reranker) {
+    return originalOrder;
+  }
+  try {
+    const scores = await reranker.rerank(query, contexts);
+    // Convert scores to ordering (descending)
+    return scores
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => b.score - a.score);
+  } catch (err: any) {
+    log().error({ error: err.message || err }, 'Rerank request failed');
+    return originalOrder;
+  }
+}
+
+/**
+ * Describe a retrieved point as a citation: which document and chunk it
+ * comes from, where the chunk sits in the source, the passage most
+ * relevant to the query, and the retrieval and rerank scores.
+ */
+function toCitation(hit: SearchHit, query: string, rerankScore?: number): Citation {
+  const payload = hit.payload;
+  return {
+    documentId: payload.documentId,
+    chunkId: hit.id,
+    title: payload.title || undefined,
+    category: payload.category,
+    text: payload.text,
+    snippet: extractSnippet(payload.text, query),
+    score: hit.score,
+    rerankScore,
+    page: payload.page,
+    start: payload.start,
+    end: payload.end,
+    headingPath: payload.headingPath
+  };
+}
+
+/**
+ * Status and body reporting a failed chat query. Failures of a dependency
+ * carry the code of the stage that failed, with status 503 while its
+ * circuit is open and 502 otherwise.
+ */
+function chatFailure(err: unknown): { status: number; body: ErrorResponse } {
+  const error = 'Failed to process chat query';
+  if (err instanceof UpstreamError) {
+    return { status: err.circuitOpen ? 503 : 502, body: { error, code: err.code } };
+  }
+  return { status: 500, body: { error, code: 'internal_error' } };
+}
+
+/**
+ * Select the most recent turns of a conversation, keeping at most
+ * HISTORY_MAX_TURNS turns and HISTORY_MAX_CHARS characters so the history
+ * cannot crowd the retrieved context out of the prompt.
+ */
+function historyWindow(history: ChatTurn[] = []): ChatTurn[] {
+  const window: ChatTurn[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0 && window.length < HISTORY_MAX_TURNS; i--) {
+    const turn = history[i];
+    if (!turn.content.trim()) continue;
+    if (chars + turn.content.length > HISTORY_MAX_CHARS) break;
+    window.unshift(turn);
+    chars += turn.content.length;
+  }
+  return window;
+}
+
+function formatHistory(turns: ChatTurn[]): string {
+  return turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n');
+}
+
+/**
+ * Condense a follow-up question and the conversation before it into a
+ * standalone question suitable for retrieval, using the LLM. Without
+ * history the query is returned unchanged; if the LLM fails the original
+ * query is used so that the chat still gets an answer.
+ */
+async function rewriteQuery(query: string, turns: ChatTurn[]): Promise<string> {
+  if (turns.length === 0) {
+    return query;
+  }
+  const prompt = `Given the following conversation and a follow-up question, rephrase the follow-up question to be a standalone question that can be understood without the conversation. Keep names, numbers and identifiers exactly as written. Reply with the standalone question only.\n\nConversation:\n${formatHistory(turns)}\n\nFollow-up question: ${query}\nStandalone question:`;
+  try {
+    const rewritten = (await generator.generate(prompt)).trim().replace(/^["']|["']$/g, '');
+    return rewritten || query;
+  } catch (err: any) {
+    log().error({ error: err.message || err }, 'Query rewrite failed');
+    return query;
+  }
+}
+
+/** A retrieved chunk with its cross-encoder score, if reranked */
+export interface RankedHit {
+  hit: SearchHit;
+  rerankScore?: number;
+}
+
+export interface RetrievalResult {
+  /** Conversation turns included in the prompt */
+  turns: ChatTurn[];
+  /** Standalone query used for retrieval */
+  searchQuery: string;
+  /** Every candidate retrieved, best first */
+  ranked: RankedHit[];
+  /** Whether the results and query embedding were served from the cache */
+  cache: Pick<CacheStatus, 'search' | 'embedding'>;
+}
+
+/**
+ * Cache token for the chunks a query can retrieve: those of its category,
+ * else of the categories the caller may read, else of all categories.
+ */
+function cacheScope(request: ChatQueryRequest, categories: string[] | null): Promise<string> {
+  return queryCache.scope(request.category ? [request.category] : categories);
+}
+
+/**
+ * Retrieve the contexts relevant to a chat query. Follow-up questions are
+ * first rewritten into standalone queries using the conversation history.
+ * Performs dense, sparse or hybrid search against the vector store and
+ * optionally reranks the candidates; the ranked results are cached by the
+ * normalised standalone query. This is the retrieval path of /chat/query,
+ * shared with the evaluation command. The request's category and filter
+ * expression restrict the chunks searched, as does `categories`, the
+ * categories the caller may read (null for all).
+ */
+export async function retrieveForQuery(
+  request: ChatQueryRequest,
+  categories: string[] | null = null
+): Promise<RetrievalResult> {
+  const { query, category, retrieval } = request;
+  const turns = historyWindow(request.history);
+  const searchQuery = await rewriteQuery(query, turns);
+  await vectorStore.ensureReady();
+  const filter = allOf(
+    category ? { field: 'category', eq: category } : undefined,
+    request.filter,
+    categories ? { field: 'category', in: categories } : undefined
+  );
+  const searchKey = queryCache.key(
+    'search',
+    normaliseQuestion(searchQuery),
+    filter,
+    retrieval,
+    PIPELINE_SETTINGS,
+    await cacheScope(request, categories)
+  );
+  const cached = await queryCache.get<RankedHit[]>('search', searchKey);
+  if (cached) {
+    return { turns, searchQuery, ranked: cached, cache: { search: true } };
+  }
+  const { hits, embeddingCached } =
+    categories && categories.length === 0
+      ? { hits: [], embeddingCached: undefined }
+      : await retrieveCandidates(searchQuery, filter, retrieval);
+  // Compute ordering via reranker if available
+  const order = hits.length > 0 ? await rerankContexts(searchQuery, hits.map(hit => hit.payload.text)) : [];
+  const ranked = order.map(({ index, score }) => ({ hit: hits[index], rerankScore: score }));
+  // Results left in retrieval order by a failed reranker are not kept
+  if (!reranker || order.every(({ score }) => score !== undefined)) {
+    await queryCache.set('search', searchKey, ranked);
+  }
+  return { turns, searchQuery, ranked, cache: { search: false, embedding: embeddingCached } };
+}
+
+export interface PreparedChat {
+  /** Prompt for the LLM, or null when retrieval found nothing */
+  prompt: ChatPrompt | null;
+  /** Name and version of the prompt template used */
+  promptVersion: string;
+  citations: Citation[];
+  /** Contexts and tokens used by the prompt, absent without one */
+  usage?: PromptUsage;
+  /** Standalone query used for retrieval, if it differs from the question */
+  rewrittenQuery?: string;
+  /** IDs of every chunk retrieved, in rerank order */
+  retrievedChunkIds: string[];
+  /** Whether retrieval was served from the cache */
+  cache: Pick<CacheStatus, 'search' | 'embedding'>;
+}
+
+/** Token estimate for the configured LLM */
+function countPromptTokens(text: string): number {
+  return estimateTokens(text, LLM_CHARS_PER_TOKEN);
+}
+
+/**
+ * Describe a packed context as a citation. Merged contexts cite their best
+ * ranked chunk, with the merged text and span and the IDs of every chunk.
+ */
+function contextCitation(context: PackedContext<RankedHit>, query: string): Citation {
+  const [best] = context.parts;
+  const citation = toCitation(best.hit, query, best.rerankScore);
+  if (context.parts.length === 1) {
+    return citation;
+  }
+  const pages = context.parts
+    .map(({ hit }) => hit.payload.page)
+    .filter((page): page is number => page !== undefined);
+  return {
+    ...citation,
+    text: context.text,
+    snippet: extractSnippet(context.text, query),
+    page: pages.length > 0 ? Math.min(...pages) : undefined,
+    start: context.start,
+    end: context.end,
+    chunkIds: context.parts.map(({ hit }) => hit.id)
+  };
+}
+
+/**
+ * Retrieve the contexts relevant to a query and build the LLM prompt from
+ * them. Chunks are packed in rank order, favouring diverse ones, into the
+ * tokens left by the model's context window once the answer, instructions
+ * and history are accounted for, capped by CONTEXT_TOKEN_BUDGET and
+ * MAX_CONTEXT contexts. The prompt includes a bounded window of the
+ * conversation history. It is rendered from the template the request
+ * names, else the one for its category, else the default template.
+ */
+export async function prepareChatPrompt(
+  request: ChatQueryRequest,
+  categories: string[] | null = null
+): Promise<PreparedChat> {
+  const { query } = request;
+  const { turns, searchQuery, ranked, cache } = await retrieveForQuery(request, categories);
+  const rewrittenQuery = searchQuery !== query ? searchQuery : undefined;
+  const retrievedChunkIds = ranked.map(({ hit }) => hit.id);
+  const template = promptTemplates.select(request.promptTemplate, request.category);
+  const promptVersion = templateVersion(template);
+  if (ranked.length === 0) {
+    return { prompt: null, promptVersion, citations: [], rewrittenQuery, retrievedChunkIds, cache };
+  }
+  const variables = {
+    context: '',
+    question: query,
+    history: formatHistory(turns),
+    language: request.language?.trim() || ANSWER_LANGUAGE
+  };
+  const promptTokens = (prompt: ChatPrompt) =>
+    countPromptTokens(prompt.system) + countPromptTokens(prompt.user);
+  // Whatever the answer and the rest of the prompt leave of the window
+  const contextBudget = Math.max(
+    0,
+    Math.min(
+      CONTEXT_TOKEN_BUDGET,
+      LLM_CONTEXT_WINDOW - LLM_ANSWER_TOKENS - promptTokens(renderPrompt(template, variables))
+    )
+  );
+  const packed = packContexts(ranked, {
+    budget: contextBudget,
+    maxContexts: MAX_CONTEXT,
+    lambda: 1 - CONTEXT_DIVERSITY,
+    duplicateThreshold: CONTEXT_DUPLICATE_THRESHOLD,
+    countTokens: countPromptTokens
+  });
+  if (packed.contexts.length === 0) {
+    log().warn({ contextBudget }, 'No retrieved context fits the prompt budget');
+    return { prompt: null, promptVersion, citations: [], rewrittenQuery, retrievedChunkIds, cache };
+  }
+  const citations = packed.contexts.map(context => contextCitation(context, searchQuery));
+  const prompt = renderPrompt(template, {
+    ...variables,
+    context: packed.contexts.map((context, i) => `[${i + 1}] ${context.text}`).join('\n\n')
+  });
+  const usage: PromptUsage = {
+    contexts: packed.contexts.length,
+    chunks: packed.contexts.reduce((sum, context) => sum + context.parts.length, 0),
+    duplicates: packed.duplicates,
+    contextTokens: packed.tokens,
+    contextBudget,
+    promptTokens: promptTokens(prompt)
+  };
+  return { prompt, promptVersion, citations, usage, rewrittenQuery, retrievedChunkIds, cache };
+}
+
+/**
+ * A generated answer kept in the cache, with what is needed to log it
+ * again: the prompt version is in `prepared`, and `model` is the LLM
+ * endpoint that generated it, which may be a fallback
+ */
+interface CachedAnswer {
+  prepared: PreparedChat;
+  model: string;
+  answer: string;
+  citations: Citation[];
+  grounding?: GroundingReport;
+}
+
+/**
+ * Key under which the answer to a chat query is cached, or undefined when
+ * it is not cached: follow-up questions depend on their conversation.
+ */
+async function answerCacheKey(
+  request: ChatQueryRequest,
+  categories: string[] | null
+): Promise<string | undefined> {
+  if (!queryCache.enabled || historyWindow(request.history).length > 0) {
+    return undefined;
+  }
+  const template = promptTemplates.select(request.promptTemplate, request.category);
+  return queryCache.key(
+    'answer',
+    normaliseQuestion(request.query),
+    request.category,
+    request.filter,
+    request.retrieval,
+    templateVersion(template),
+    request.language?.trim() || ANSWER_LANGUAGE,
+    PIPELINE_SETTINGS,
+    await cacheScope(request, categories)
+  );
+}
+
+/** Cache status reported with an answer; absent when caching is disabled */
+function cacheStatus(prepared: PreparedChat): CacheStatus | undefined {
+  return queryCache.enabled ? { answer: false, ...prepared.cache } : undefined;
+}
+
+const NO_RESULTS_ANSWER = "I'm sorry, I couldn't find any information relevant to your question.";
+
+/**
+ * Log a chat answer together with the retrieval and generation settings
+ * and the model that produced it, and return its ID. Logging failures are reported but
+ * do not fail the chat; the answer is then returned without an ID.
+ */
+async function logAnswer(
+  user: AuthUser,
+  request: ChatQueryRequest,
+  prepared: PreparedChat,
+  answer: string,
+  citations: Citation[],
+  model: string
+): Promise<string | undefined> {
+  const record: AnswerRecord = {
+    id: uuidv4(),
+    ...(user.id === ANONYMOUS.id ? {} : { userId: user.id }),
+    query: request.query,
+    rewrittenQuery: prepared.rewrittenQuery,
+    category: request.category || citations[0]?.category || prepared.citations[0]?.category,
+    retrievedChunkIds: prepared.retrievedChunkIds,
+    citedDocuments: citations.map(citation => ({
+      documentId: citation.documentId,
+      chunkId: citation.chunkId,
+      title: citation.title
+    })),
+    answer,
+    outcome: answerOutcome(answer, prepared.prompt !== null),
+    promptVersion: prepared.promptVersion,
+    model,
+    createdAt: new Date().toISOString()
+  };
+  try {
+    await answers.put(record);
+    return record.id;
+  } catch (err: any) {
+    log().error({ error: err.message || err }, 'Log answer error');
+    return undefined;
+  }
+}
+
+/** SHA-256 hex digest used for document and chunk content hashes */
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Namespace for deriving stable point IDs from document ID and chunk hash
+const POINT_ID_NAMESPACE = '7f3c0b4e-5d1a-4c2e-9a8b-2f6d1e0c9b7a';
+
+/**
+ * Fetch all chunks of a document from the vector store. Chunks are
+ * returned in source order.
+ */
+async function fetchDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
+  const points = await vectorStore.scroll({ documentId });
+  const chunks: DocumentChunk[] = points.map(point => ({
+    id: point.id,
+    documentId: point.payload.documentId,
+    category: point.payload.category,
+    text: point.payload.text,
+    page: point.payload.page,
+    start: point.payload.start,
+    end: point.payload.end,
+    headingPath: point.payload.headingPath
+  }));
+  return chunks.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+}
+
+export interface IngestOptions {
+  category: string;
+  title: string;
+  chunking?: ChunkingOptions;
+  /** Document whose content is replaced; looked up by externalId or content hash if omitted */
+  existing?: DocumentRecord;
+  /** Client supplied key for upsert-by-key semantics */
+  externalId?: string;
+  format?: DocumentFormat;
+  pages?: number;
+  tags?: string[];
+  metadata?: Record<string, MetadataValue>;
+}
+
+/** A queued ingestion: the document text with every option resolved */
+export interface IngestInput {
+  documentId: string;
+  sections: TextSection[];
+  category: string;
+  title: string;
+  chunking: Required<ChunkingOptions>;
+  contentHash: string;
+  externalId?: string;
+  format?: DocumentFormat;
+  pages?: number;
+  tags?: string[];
+  metadata?: Record<string, MetadataValue>;
+}
+
+/** Either the document is already up to date, or what ingesting it would do */
+export type IngestPlan = { unchanged: IngestTextResponse } | { input: IngestInput; status: 'created' | 'updated' };
+
+/** Either the document is already up to date, or a job was queued to ingest it */
+type IngestSubmission = { unchanged: IngestTextResponse } | { job: IngestJob };
+
+function unchangedResponse(record: DocumentRecord): IngestTextResponse {
+  return { documentId: record.id, chunks: record.chunks, status: 'unchanged', embeddedChunks: 0 };
+}
+
+/**
+ * Work out how to ingest a document made of the given sections. The
+ * document text is the concatenation of its sections separated by blank
+ * lines. Chunking options fall back to the server defaults.
+ *
+ * Ingestion is idempotent. The document to update is the one passed as
+ * `existing`, else the one with the same `externalId`; without an external
+ * ID, text identical to an existing document in the same category is
+ * reported as unchanged rather than ingested again.
+ */
+export async function planIngest(sections: TextSection[], options: IngestOptions): Promise<IngestPlan> {
+  const { category, title, chunking = {}, externalId, tags, metadata } = options;
+  const contentHash = hashText(sections.map(section => section.text).join('\n\n'));
+  let existing = options.existing;
+  if (!existing) {
+    const all = await documents.list();
+    existing = externalId
+      ? all.find(doc => doc.externalId === externalId)
+      : all.find(doc => !doc.externalId && doc.contentHash === contentHash && doc.category === category);
+    if (existing && !externalId) {
+      return { unchanged: unchangedResponse(existing) };
+    }
+  }
+  const resolvedChunking: Required<ChunkingOptions> = {
+    strategy: chunking.strategy || CHUNK_STRATEGY,
+    maxTokens: chunking.maxTokens ?? CHUNK_MAX_TOKENS,
+    overlapTokens: chunking.overlapTokens ?? CHUNK_OVERLAP_TOKENS
+  };
+  if (
+    existing &&
+    existing.contentHash === contentHash &&
+    existing.category === category &&
+    existing.title === title &&
+    JSON.stringify(existing.tags) === JSON.stringify(tags) &&
+    JSON.stringify(existing.metadata) === JSON.stringify(metadata) &&
+    JSON.stringify(existing.chunking) === JSON.stringify(resolvedChunking)
+  ) {
+    return { unchanged: unchangedResponse(existing) };
+  }
+  const input: IngestInput = {
+    documentId: existing ? existing.id : uuidv4(),
+    sections,
+    category,
+    title,
+    chunking: resolvedChunking,
+    contentHash,
+    ...((externalId ?? existing?.externalId) ? { externalId: externalId ?? existing?.externalId } : {}),
+    ...(options.format ? { format: options.format } : {}),
+    ...(options.pages !== undefined ? { pages: options.pages } : {}),
+    ...(tags ? { tags } : {}),
+    ...(metadata ? { metadata } : {})
+  };
+  return { input, status: existing ? 'updated' : 'created' };
+}
+
+/**
+ * Documents whose ingestion is queued, running or has failed, keyed by
+ * external ID or else by category and content hash. Their records are only
+ * saved when a job finishes, so a document posted again before then is
+ * found here and ingested under the same ID rather than created twice.
+ */
+const pendingDocuments = new Map<string, string>();
+
+function pendingKey(input: Pick<IngestInput, 'externalId' | 'category' | 'contentHash'>): string {
+  return input.externalId ? `external:${input.externalId}` : `content:${input.category}:${input.contentHash}`;
+}
+
+/** Forget the pending ingestions of a document once its record is saved */
+function releasePendingDocument(documentId: string): void {
+  for (const [key, id] of pendingDocuments) {
+    if (id === documentId) pendingDocuments.delete(key);
+  }
+}
+
+/** Queue the ingestion of a document, unless it is already up to date */
+export async function submitIngest(sections: TextSection[], options: IngestOptions): Promise<IngestSubmission> {
+  const plan = await planIngest(sections, options);
+  if ('unchanged' in plan) return plan;
+  if (!options.existing) {
+    // Checked and reserved without awaiting in between, so that concurrent
+    // submissions of the same document agree on its ID
+    const key = pendingKey(plan.input);
+    const pending = pendingDocuments.get(key);
+    if (pending) {
+      plan.input.documentId = pending;
+    } else {
+      pendingDocuments.set(key, plan.input.documentId);
+    }
+  }
+  const { documentId, category, title } = plan.input;
+  return { job: await ingestJobs.enqueue({ documentId, category, title }, plan.input) };
+}
+
+/**
+ * Run a queued ingestion: chunk, embed and upsert the document into the
+ * vector store, then save its document record. Each section is chunked on
+ * its own so that chunks never straddle a page boundary, and chunk offsets
+ * are reported relative to the whole document.
+ *
+ * Point IDs are derived from the document ID and chunk hash, so chunks
+ * already indexed for the document keep their points and vectors and only
+ * new chunks are embedded. Embedding runs in batches of EMBED_BATCH_SIZE,
+ * EMBED_CONCURRENCY at a time, each retried up to EMBED_RETRIES times, and
+ * every batch is stored as soon as it is embedded. When some batches still
+ * fail the job fails with the chunks stored so far left in place, so that
+ * a retry only embeds the rest. Stale points are removed last so the
+ * document stays searchable throughout.
+ */
+async function runIngest(
+  input: IngestInput,
+  report: (progress: JobProgress) => Promise<void>
+): Promise<IngestTextResponse> {
+  await vectorStore.ensureReady();
+  const { documentId, category, title, tags, metadata } = input;
+  const { strategy, ...config } = input.chunking;
+  const existing = await documents.get(documentId);
+  const now = new Date().toISOString();
+  const createdAt = existing ? existing.createdAt : now;
+  let sectionOffset = 0;
+  const chunks = input.sections.flatMap(section => {
+    const base = sectionOffset;
+    sectionOffset += section.text.length + 2;
+    return chunkDocument(section.text, strategy, config).map(chunk => ({
+      ...chunk,
+      start: base + chunk.start,
+      end: base + chunk.end,
+      page: section.page,
+      hash: hashText(chunk.text)
+    }));
+  });
+  // Reuse the vectors of chunks that are already indexed for this document,
+  // including those stored by an earlier attempt of the same job
+  const previousPoints = await vectorStore.scroll({ documentId }, true);
+  const knownVectors = new Map<string, number[]>();
+  for (const point of previousPoints) {
+    const hash = point.payload.chunkHash || hashText(point.payload.text);
+    if (point.dense) {
+      knownVectors.set(hash, point.dense);
+    }
+  }
+  // Repeated chunks within a document get distinct IDs via their occurrence
+  const occurrences = new Map<string, number>();
+  const pointIds = chunks.map(chunk => {
+    const occurrence = occurrences.get(chunk.hash) || 0;
+    occurrences.set(chunk.hash, occurrence + 1);
+    return uuidv5(`${documentId}:${chunk.hash}:${occurrence}`, POINT_ID_NAMESPACE);
+  });
+  const toPoint = (idx: number): VectorPoint => {
+    const chunk = chunks[idx];
+    return {
+      id: pointIds[idx],
+      payload: {
+        documentId,
+        category,
+        text: chunk.text,
+        title,
+        chunkHash: chunk.hash,
+        start: chunk.start,
+        end: chunk.end,
+        ...(chunk.headingPath ? { headingPath: chunk.headingPath } : {}),
+        ...(chunk.page !== undefined ? { page: chunk.page } : {}),
+        ...(tags ? { tags } : {}),
+        ...(metadata ? { metadata } : {}),
+        createdAt
+      },
+      dense: knownVectors.get(chunk.hash)!,
+      sparse: encodeSparseDocument(chunk.text)
+    };
+  };
+  const stored = new Set<number>();
+  const storePoints = async (indices: number[]) => {
+    for (let i = 0; i < indices.length; i += UPSERT_BATCH_SIZE) {
+      const batch = indices.slice(i, i + UPSERT_BATCH_SIZE);
+      await withRetries(() => vectorStore.upsert(batch.map(toPoint)), EMBED_RETRIES, EMBED_RETRY_DELAY_MS);
+      batch.forEach(idx => stored.add(idx));
+      await report({ totalChunks: chunks.length, completedChunks: stored.size });
+    }
+  };
+  const indicesByHash = new Map<string, number[]>();
+  chunks.forEach((chunk, idx) => {
+    indicesByHash.set(chunk.hash, [...(indicesByHash.get(chunk.hash) || []), idx]);
+  });
+  const toEmbed = [...indicesByHash.keys()].filter(hash => !knownVectors.has(hash));
+  const batches: string[][] = [];
+  for (let i = 0; i < toEmbed.length; i += EMBED_BATCH_SIZE) {
+    batches.push(toEmbed.slice(i, i + EMBED_BATCH_SIZE));
+  }
+  await report({ totalChunks: chunks.length, completedChunks: 0 });
+  const failures: unknown[] = [];
+  const reused = chunks.map((_, idx) => idx).filter(idx => knownVectors.has(chunks[idx].hash));
+  await storePoints(reused).catch(err => failures.push(err));
+  const outcomes = await mapConcurrent(batches, EMBED_CONCURRENCY, async hashes => {
+    const texts = hashes.map(hash => chunks[indicesByHash.get(hash)![0]].text);
+    const vectors = await withRetries(() => embedder.embed(texts), EMBED_RETRIES, EMBED_RETRY_DELAY_MS);
+    hashes.forEach((hash, idx) => knownVectors.set(hash, vectors[idx]));
+    await storePoints(hashes.flatMap(hash => indicesByHash.get(hash)!));
+  });
+  for (const outcome of outcomes) {
+    if (outcome.status === 'rejected') failures.push(outcome.reason);
+  }
+  if (failures.length > 0) {
+    const failed = chunks.length - stored.size;
+    const reason = (failures[0] as any)?.message || String(failures[0]);
+    throw new ChunkFailureError(
+      `${failed} of ${chunks.length} chunks could not be embedded or stored: ${reason}`,
+      failed
+    );
+  }
+  const currentIds = new Set(pointIds);
+  await vectorStore.deletePoints(previousPoints.map(point => point.id).filter(id => !currentIds.has(id)));
+  const record: DocumentRecord = {
+    id: documentId,
+    category,
+    title,
+    createdAt,
+    ...(existing ? { updatedAt: now } : {}),
+    chunks: chunks.length,
+    contentHash: input.contentHash,
+    chunking: input.chunking,
+    ...(input.externalId ? { externalId: input.externalId } : {}),
+    ...(input.format ? { format: input.format } : {}),
+    ...(input.pages !== undefined ? { pages: input.pages } : {}),
+    ...(tags ? { tags } : {}),
+    ...(metadata ? { metadata } : {})
+  };
+  await documents.put(record);
+  return {
+    documentId,
+    chunks: chunks.length,
+    status: existing ? 'updated' : 'created',
+    embeddedChunks: toEmbed.length
+  };
+}
+
+/**
+ * Reply to an ingestion request. With `?async=true` the queued job is
+ * returned straight away with status 202; otherwise the reply waits for
+ * the job and carries its outcome. Unchanged documents are reported at
+ * once either way.
+ */
+async function replyToIngest(
+  reply: FastifyReply,
+  submission: IngestSubmission,
+  query: IngestQuery,
+  failure: string,
+  extra: object = {}
+) {
+  if ('unchanged' in submission) {
+    return reply.send({ ...submission.unchanged, ...extra });
+  }
+  if (query.async) {
+    return reply.status(202).send(submission.job);
+  }
+  const job = await ingestJobs.wait(submission.job.id);
+  if (job.status === 'failed') {
+    return reply.status(500).send({ error: failure, jobId: job.id });
+  }
+  return reply.send({ ...job.result, ...extra });
+}
+
+/**
+ * Ingest text documents into the vector database. Splits the text into
+ * manageable chunks, embeds each chunk, and upserts them into the vector
+ * store. The chunking strategy and sizes can be chosen per request.
+ * Posting the same text twice, or the same `externalId` again, does not duplicate chunks.
+ * The work is done by an ingestion job; with `?async=true` the job is
+ * returned at once and its progress can be followed under /ingest/jobs.
+ */
+app.post<{ Body: IngestTextRequest; Querystring: IngestQuery }>(
+  '/ingest/text',
+  { preHandler: requireRole('ingest'), schema: { body: ingestTextBody, querystring: ingestQuery } },
+  async (request, reply) => {
+    const { text, category, title, chunking, externalId, tags, metadata } = request.body;
+    if (!canAccessCategory(request.principal!, category)) {
+      return reply.status(403).send({ error: `no access to category ${category}` });
+    }
+    const validationError = validateChunkingOptions(chunking) || validateMetadata(tags, metadata);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+    try {
+      const submission = await submitIngest([{ text }], {
+        category,
+        title: title || '',
+        chunking,
+        externalId,
+        tags,
+        metadata
+      });
+      return await replyToIngest(reply, submission, request.query, 'Failed to ingest document');
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Ingest error');
+      return reply.status(500).send({ error: 'Failed to ingest document' });
+    }
+  }
+);
+
+/**
+ * Ingest an uploaded file (multipart/form-data). Accepts PDF, DOCX, HTML,
+ * Markdown and plain text in a `file` field along with a `category` field
+ * and an optional `title` field; the original file name is used as the
+ * title when none is given. Text is extracted according to the detected
+ * format and fed through the same pipeline as /ingest/text. Chunking can be
+ * tuned with the `chunkStrategy`, `chunkMaxTokens` and `chunkOverlapTokens`
+ * fields; Markdown files default to the heading aware strategy. An
+ * `externalId` field gives upsert-by-key semantics as for /ingest/text.
+ * Tags are given as a comma separated `tags` field and custom metadata as
+ * a JSON object in a `metadata` field. A `documentId` field replaces the
+ * content of that document instead, keeping its category, title, tags and
+ * metadata unless new values are given. Accepts `?async=true` as for
+ * /ingest/text.
+ */
+app.post<{ Querystring: IngestQuery }>(
+  '/ingest/file',
+  { preHandler: requireRole('ingest'), schema: { querystring: ingestQuery } },
+  async (request, reply) => {
+    if (!request.isMultipart()) {
+      return reply.status(400).send({ error: 'multipart/form-data request expected' });
+    }
+    let file: { filename: string; mimetype: string; buffer: Buffer } | undefined;
+    const fields: Record<string, string> = {};
+    try {
+      for await (const part of request.parts()) {
+        if (part.type === 'file') {
+          file = { filename: part.filename, mimetype: part.mimetype, buffer: await part.toBuffer() };
+        } else {
+          fields[part.fieldname] = String(part.value);
+        }
+      }
+    } catch (err: any) {
+      if (err instanceof app.multipartErrors.RequestFileTooLargeError) {
+        return reply.status(413).send({ error: `file exceeds ${MAX_UPLOAD_MB} MB limit` });
+      }
+      throw err;
+    }
+    const { title, externalId, documentId } = fields;
+    const existing = documentId ? await documents.get(documentId) : undefined;
+    if (documentId && (!existing || !canAccessCategory(request.principal!, existing.category))) {
+      return reply.status(404).send({ error: 'document not found' });
+    }
+    const category = fields.category || existing?.category;
+    if (!file || !category) {
+      return reply.status(400).send({ error: 'file and category are required' });
+    }
+    if (!canAccessCategory(request.principal!, category)) {
+      return reply.status(403).send({ error: `no access to category ${category}` });
+    }
+    const format = detectFormat(file.filename, file.mimetype);
+    if (!format) {
+      return reply.status(415).send({ error: `unsupported file type: ${file.filename}` });
+    }
+    const chunking: ChunkingOptions = {
+      strategy: (fields.chunkStrategy as ChunkStrategy) || (format === 'markdown' ? 'markdown' : undefined),
+      maxTokens: fields.chunkMaxTokens ? Number(fields.chunkMaxTokens) : undefined,
+      overlapTokens: fields.chunkOverlapTokens ? Number(fields.chunkOverlapTokens) : undefined
+    };
+    const tags = fields.tags
+      ? fields.tags
+          .split(',')
+          .map(tag => tag.trim())
+          .filter(Boolean)
+      : undefined;
+    let metadata: Record<string, MetadataValue> | undefined;
+    try {
+      metadata = fields.metadata ? JSON.parse(fields.metadata) : undefined;
+    } catch {
+      return reply.status(400).send({ error: 'metadata must be a JSON object' });
+    }
+    const validationError = validateChunkingOptions(chunking) || validateMetadata(tags, metadata);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+    let extracted;
+    try {
+      extracted = await extractText(file.buffer, format);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Extraction error');
+      return reply.status(422).send({ error: `could not extract text from ${format} file` });
+    }
+    try {
+      const submission = await submitIngest(extracted.sections, {
+        category,
+        title: title || (existing ? existing.title : file.filename),
+        chunking,
+        existing,
+        externalId: externalId || undefined,
+        format,
+        pages: extracted.pages,
+        tags: tags ?? existing?.tags,
+        metadata: metadata ?? existing?.metadata
+      });
+      const extra: Omit<IngestFileResponse, keyof IngestTextResponse> = {
+        format,
+        ...(extracted.pages !== undefined ? { pages: extracted.pages } : {})
+      };
+      return await replyToIngest(reply, submission, request.query, 'Failed to ingest document', extra);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Ingest error');
+      return reply.status(500).send({ error: 'Failed to ingest document' });
+    }
+  }
+);
+
+/**
+ * List ingested documents, newest first. Supports pagination through
+ * `limit` (at most 100) and `offset`, filtering by `category`, and a
+ * case-insensitive search `q` over titles, external IDs, categories and
+ * tags. Only documents in categories the caller may access are listed.
+ */
+app.get<{ Querystring: DocumentListQuery }>(
+  '/documents',
+  { preHandler: requireRole('query'), schema: { querystring: documentListQuery } },
+  async (request, reply) => {
+    const { category, limit, offset } = request.query;
+    const search = request.query.q?.trim().toLowerCase();
+    try {
+      const matching = (await documents.list())
+        .filter(doc => !category || doc.category === category)
+        .filter(
+          doc =>
+            !search ||
+            [doc.title, doc.externalId, doc.category, ...(doc.tags || [])].some(value =>
+              value?.toLowerCase().includes(search)
+            )
+        )
+        .filter(doc => canAccessCategory(request.principal!, doc.category))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      const response: DocumentListResponse = {
+        documents: matching.slice(offset, offset + limit),
+        total: matching.length,
+        limit,
+        offset
+      };
+      return reply.send(response);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'List documents error');
+      return reply.status(500).send({ error: 'Failed to list documents' });
+    }
+  }
+);
+
+/**
+ * Fetch a document's metadata together with all of its chunks. Documents
+ * in categories the caller may not access are reported as not found.
+ */
+app.get<{ Params: { id: string } }>(
+  '/documents/:id',
+  { preHandler: requireRole('query') },
+  async (request, reply) => {
+    try {
+      const document = await documents.get(request.params.id);
+      if (!document || !canAccessCategory(request.principal!, document.category)) {
+        return reply.status(404).send({ error: 'document not found' });
+      }
+      await vectorStore.ensureReady();
+      const response: DocumentDetailResponse = {
+        document,
+        chunks: await fetchDocumentChunks(document.id)
+      };
+      return reply.send(response);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Get document error');
+      return reply.status(500).send({ error: 'Failed to fetch document' });
+    }
+  }
+);
+
+/**
+ * Replace a document's content in place. The document keeps its ID and
+ * creation date; its chunks are rebuilt from the new text, re-embedding
+ * only the chunks that changed. Category, title, tags and metadata are
+ * kept unless new values are supplied. Accepts `?async=true` as for
+ * /ingest/text.
+ */
+app.put<{ Params: { id: string }; Body: ReplaceDocumentRequest; Querystring: IngestQuery }>(
+  '/documents/:id',
+  { preHandler: requireRole('ingest'), schema: { body: replaceDocumentBody, querystring: ingestQuery } },
+  async (request, reply) => {
+    const { text, category, title, chunking, tags, metadata } = request.body;
+    const validationError = validateChunkingOptions(chunking) || validateMetadata(tags, metadata);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+    try {
+      const existing = await documents.get(request.params.id);
+      if (!existing || !canAccessCategory(request.principal!, existing.category)) {
+        return reply.status(404).send({ error: 'document not found' });
+      }
+      if (category && !canAccessCategory(request.principal!, category)) {
+        return reply.status(403).send({ error: `no access to category ${category}` });
+      }
+      const submission = await submitIngest([{ text }], {
+        category: category || existing.category,
+        title: title ?? existing.title,
+        chunking,
+        existing,
+        tags: tags ?? existing.tags,
+        metadata: metadata ?? existing.metadata
+      });
+      return await replyToIngest(reply, submission, request.query, 'Failed to replace document');
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Replace document error');
+      return reply.status(500).send({ error: 'Failed to replace document' });
+    }
+  }
+);
+
+/**
+ * Delete a document and all of its points from the vector store.
+ */
+app.delete<{ Params: { id: string } }>(
+  '/documents/:id',
+  { preHandler: requireRole('ingest') },
+  async (request, reply) => {
+    try {
+      const document = await documents.get(request.params.id);
+      if (!document || !canAccessCategory(request.principal!, document.category)) {
+        return reply.status(404).send({ error: 'document not found' });
+      }
+      await vectorStore.ensureReady();
+      await vectorStore.deleteWhere({ documentId: document.id });
+      await documents.delete(document.id);
+      await queryCache.invalidate([document.category]);
+      return reply.status(204).send();
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Delete document error');
+      return reply.status(500).send({ error: 'Failed to delete document' });
+    }
+  }
+);
+
+/**
+ * Handle chat queries. Performs vector search against the vector store,
+ * optionally reranks results, constructs a prompt with top contexts and invokes the
+ * LLM to generate a grounded answer with citations. Retrieval is limited
+ * to the categories the caller is entitled to and to the chunks matching
+ * the optional filter expression.
+ */
+app.post<{ Body: ChatQueryRequest }>(
+  '/chat/query',
+  { preHandler: requireRole('query'), schema: { body: chatQueryBody } },
+  async (request, reply) => {
+    const { query, category, retrieval } = request.body;
+    if (category && !canAccessCategory(request.principal!, category)) {
+      return reply.status(403).send({ error: `no access to category ${category}` });
+    }
+    const validationError =
+      validateRetrievalOptions(retrieval) ||
+      validateFilter(request.body.filter) ||
+      validatePromptOptions(request.body, promptTemplates);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+    try {
+      const categories = entitledCategories(request.principal!);
+      const answerKey = await answerCacheKey(request.body, categories);
+      const cached = answerKey ? await queryCache.get<CachedAnswer>('answer', answerKey) : undefined;
+      // Answers cached before their model was recorded are generated again
+      if (cached?.model) {
+        const cachedResponse: ChatQueryResponse = {
+          answer: cached.answer,
+          citations: cached.citations,
+          rewrittenQuery: cached.prepared.rewrittenQuery,
+          grounding: cached.grounding,
+          usage: cached.prepared.usage,
+          cache: { answer: true },
+          answerId: await logAnswer(
+            request.principal!,
+            request.body,
+            cached.prepared,
+            cached.answer,
+            cached.citations,
+            cached.model
+          )
+        };
+        return reply.send(cachedResponse);
+      }
+      const prepared = await prepareChatPrompt(request.body, categories);
+      if (!prepared.prompt) {
+        const emptyResponse: ChatQueryResponse = {
+          answer: NO_RESULTS_ANSWER,
+          citations: [],
+          rewrittenQuery: prepared.rewrittenQuery,
+          cache: cacheStatus(prepared),
+          answerId: await logAnswer(
+            request.principal!,
+            request.body,
+            prepared,
+            NO_RESULTS_ANSWER,
+            [],
+            LLM_MODELS[0]
+          )
+        };
+        return reply.send(emptyResponse);
+      }
+      // Generate answer via LLM, or one of its fallbacks
+      let endpoint = 0;
+      const rawAnswer = await generator.generate(prepared.prompt, { onEndpoint: used => (endpoint = used) });
+      // Keep only the citations the answer uses and check it against them
+      const verified = verifyAnswer(rawAnswer, prepared.citations, GROUNDING_THRESHOLD);
+      if (answerKey) {
+        await queryCache.set('answer', answerKey, { prepared, model: LLM_MODELS[endpoint], ...verified });
+      }
+      const response: ChatQueryResponse = {
+        answer: verified.answer,
+        citations: verified.citations,
+        rewrittenQuery: prepared.rewrittenQuery,
+        grounding: verified.grounding,
+        usage: prepared.usage,
+        cache: cacheStatus(prepared),
+        answerId: await logAnswer(
+          request.principal!,
+          request.body,
+          prepared,
+          verified.answer,
+          verified.citations,
+          LLM_MODELS[endpoint]
+        )
+      };
+      return reply.send(response);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Chat query error');
+      const { status, body } = chatFailure(err);
+      return reply.status(status).send(body);
+    }
+  }
+);
+
+/**
+ * Streaming variant of /chat/query using Server-Sent Events. Citations are
+ * sent first, followed by answer deltas as the LLM produces them and a
+ * final "done" event carrying the verified answer with the citations it
+ * actually uses, renumbered as in /chat/query. Failures after the
+ * stream has started are reported as an "error" event with the code of
+ * the stage that failed.
+ */
+app.post<{ Body: ChatQueryRequest }>(
+  '/chat/query/stream',
+  { preHandler: requireRole('query'), schema: { body: chatQueryBody } },
+  async (request, reply) => {
+    const { query, category, retrieval } = request.body;
+    if (category && !canAccessCategory(request.principal!, category)) {
+      return reply.status(403).send({ error: `no access to category ${category}` });
+    }
+    const validationError =
+      validateRetrievalOptions(retrieval) ||
+      validateFilter(request.body.filter) ||
+      validatePromptOptions(request.body, promptTemplates);
+    if (validationError) {
+      return reply.status(400).send({ error: validationError });
+    }
+    // Take over the raw response; headers set by plugins (e.g. CORS) are
+    // copied across since Fastify will no longer send them for us.
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      ...(reply.getHeaders() as Record<string, string>),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    const send = (event: ChatStreamEvent) => {
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+    try {
+      const categories = entitledCategories(request.principal!);
+      const answerKey = await answerCacheKey(request.body, categories);
+      const cached = answerKey ? await queryCache.get<CachedAnswer>('answer', answerKey) : undefined;
+      // Answers cached before their model was recorded are generated again
+      if (cached?.model) {
+        // A cached answer is sent as a single fragment
+        send({
+          type: 'citations',
+          citations: cached.prepared.citations,
+          usage: cached.prepared.usage,
+          cache: { answer: true }
+        });
+        send({ type: 'delta', text: cached.answer });
+        const answerId = await logAnswer(
+          request.principal!,
+          request.body,
+          cached.prepared,
+          cached.answer,
+          cached.citations,
+          cached.model
+        );
+        send({
+          type: 'done',
+          answer: cached.answer,
+          citations: cached.citations,
+          grounding: cached.grounding,
+          answerId
+        });
+        return;
+      }
+      const prepared = await prepareChatPrompt(request.body, categories);
+      send({
+        type: 'citations',
+        citations: prepared.citations,
+        rewrittenQuery: prepared.rewrittenQuery,
+        usage: prepared.usage,
+        cache: cacheStatus(prepared)
+      });
+      if (!prepared.prompt) {
+        const answerId = await logAnswer(
+          request.principal!,
+          request.body,
+          prepared,
+          NO_RESULTS_ANSWER,
+          [],
+          LLM_MODELS[0]
+        );
+        send({ type: 'done', answer: NO_RESULTS_ANSWER, citations: [], answerId });
+        return;
+      }
+      let answer = '';
+      let endpoint = 0;
+      const fragments = generator.stream(prepared.prompt, { onEndpoint: used => (endpoint = used) });
+      for await (const delta of fragments) {
+        // Stop generating if the client went away
+        if (reply.raw.destroyed) return;
+        answer += delta;
+        send({ type: 'delta', text: delta });
+      }
+      const verified = verifyAnswer(answer, prepared.citations, GROUNDING_THRESHOLD);
+      if (answerKey) {
+        await queryCache.set('answer', answerKey, { prepared, model: LLM_MODELS[endpoint], ...verified });
+      }
+      const answerId = await logAnswer(
+        request.principal!,
+        request.body,
+        prepared,
+        verified.answer,
+        verified.citations,
+        LLM_MODELS[endpoint]
+      );
+      send({
+        type: 'done',
+        answer: verified.answer,
+        citations: verified.citations,
+        grounding: verified.grounding,
+        answerId
+      });
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Chat stream error');
+      send({ type: 'error', ...chatFailure(err).body });
+    } finally {
+      reply.raw.end();
+    }
+  }
+);
+
+/**
+ * Hit and miss counts of the query cache per layer, for admins tuning it
+ */
+app.get('/cache/stats', { preHandler: requireRole('admin') }, async (_request, reply) => {
+  const stats: CacheStatsResponse = queryCache.stats();
+  return reply.send(stats);
+});
+
+/**
+ * Readiness check probing each dependency: the vector store, embeddings
+ * service, LLM and reranker. Answers 503 naming the dependencies that are
+ * down when queries cannot be served; a reranker that is down only
+ * degrades the ranking and is reported with status 200.
+ */
+app.get('/healthz', async (_request, reply) => {
+  const health: HealthResponse = await checkDependencies(
+    {
+      vector_store: () => vectorStore.check(),
+      embeddings: () => embedder.check(),
+      llm: () => generator.check(),
+      ...(reranker ? { reranker: () => reranker.check() } : {})
+    },
+    ['reranker'],
+    HEALTH_TIMEOUT_MS
+  );
+  return reply.status(health.status === 'error' ? 503 : 200).send(health);
+});
+
+/**
+ * Prometheus metrics: request and dependency latencies, dependency errors,
+ * ingestion throughput and cache hits
+ */
+app.get('/metrics', async (_request, reply) => {
+  return reply.type('text/plain; version=0.0.4').send(metrics.render());
+});
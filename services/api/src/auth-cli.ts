@@ -0,0 +1,30 @@
+import { randomBytes } from 'crypto';
+import { hashApiKey, hashPassword } from './auth';
+
+/**
+ * Produce secrets for the auth file. `password <password>` prints the
+ * passwordHash for a user entry; `apikey` generates a new API key and
+ * prints it along with the keyHash to store. The key itself is shown only
+ * once and is not kept anywhere.
+ *
+ *   npm run hash-secret -w services/api -- password <password>
+ *   npm run hash-secret -w services/api -- apikey
+ */
+
+const USAGE = 'Usage: npm run hash-secret -w services/api -- password <password> | apikey';
+
+function main(argv: string[]): void {
+  const [command, value] = argv;
+  if (command === 'password' && value) {
+    console.log(hashPassword(value));
+  } else if (command === 'apikey') {
+    const key = `rk_${randomBytes(24).toString('base64url')}`;
+    console.log(`API key:  ${key}`);
+    console.log(`keyHash:  ${hashApiKey(key)}`);
+  } else {
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+main(process.argv.slice(2));
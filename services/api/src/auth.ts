@@ -0,0 +1,287 @@
+import { readFileSync } from 'fs';
+import { createHash, createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { AuthUser, LoginRequest, LoginResponse, Role, SessionResponse } from '@ragika/shared';
+import { logger } from './telemetry';
+import { loginBody } from './schemas';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Authenticated caller; unset when no credentials were sent */
+    principal?: AuthUser;
+  }
+}
+
+const ROLES: Role[] = ['query', 'ingest', 'admin'];
+
+/** Caller used for every request when authentication is disabled */
+export const ANONYMOUS: AuthUser = {
+  id: 'anonymous',
+  name: 'Anonymous',
+  roles: ['admin'],
+  categories: ['*']
+};
+
+interface UserEntry {
+  username: string;
+  name?: string;
+  /** Hash produced by `hashPassword` */
+  passwordHash: string;
+  roles: Role[];
+  categories: string[];
+}
+
+interface ApiKeyEntry {
+  id: string;
+  name?: string;
+  /** Hash produced by `hashApiKey` */
+  keyHash: string;
+  roles: Role[];
+  categories: string[];
+}
+
+export interface AuthConfig {
+  /** When false every request is served as ANONYMOUS */
+  enabled: boolean;
+  users: UserEntry[];
+  apiKeys: ApiKeyEntry[];
+  /** HMAC key for signing bearer tokens */
+  jwtSecret: string;
+  /** Lifetime of issued tokens in seconds */
+  tokenTtl: number;
+}
+
+/** Hash a password for the auth file using scrypt with a random salt */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `scrypt$${salt.toString('base64')}$${scryptSync(password, salt, 32).toString('base64')}`;
+}
+
+// Checked for unknown usernames, so that they take as long to reject as
+// wrong passwords and do not reveal which usernames exist
+const DUMMY_PASSWORD_HASH = 'scrypt$BwcHBwcHBwcHBwcHBwcHBw==$FVB4jhnTDGgr4hZTEkyQrVFx8QkLzbW9vLFtKBvnwmI=';
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Hash an API key for the auth file. Keys are long random strings, so a
+ * plain SHA-256 is enough and keeps per-request verification cheap.
+ */
+export function hashApiKey(key: string): string {
+  return `sha256$${createHash('sha256').update(key).digest('hex')}`;
+}
+
+function validateEntry(entry: any, kind: string, idField: string, hashField: string, where: string) {
+  if (!entry || typeof entry[idField] !== 'string' || typeof entry[hashField] !== 'string') {
+    throw new Error(`${where}: every ${kind} needs a ${idField} and a ${hashField}`);
+  }
+  if (
+    !Array.isArray(entry.roles) ||
+    entry.roles.length === 0 ||
+    entry.roles.some((r: any) => !ROLES.includes(r))
+  ) {
+    throw new Error(`${where}: ${kind} ${entry[idField]} must have roles from ${ROLES.join(', ')}`);
+  }
+  if (!Array.isArray(entry.categories) || entry.categories.some((c: any) => typeof c !== 'string')) {
+    throw new Error(`${where}: ${kind} ${entry[idField]} must have a categories array ('*' for all)`);
+  }
+}
+
+/**
+ * Build the authentication settings. Authentication is enabled when an
+ * auth file listing users and API keys is given; the file is validated
+ * here so that a broken file stops the server at startup. Without a JWT
+ * secret a random one is used and issued tokens do not survive a restart.
+ *
+ *   {
+ *     "users": [{ "username": "alice", "passwordHash": "scrypt$…",
+ *                 "roles": ["query"], "categories": ["hr", "it"] }],
+ *     "apiKeys": [{ "id": "ci", "keyHash": "sha256$…",
+ *                   "roles": ["ingest"], "categories": ["*"] }]
+ *   }
+ */
+export function loadAuthConfig(
+  file: string | undefined,
+  jwtSecret: string | undefined,
+  tokenTtl: number
+): AuthConfig {
+  if (!file) {
+    return { enabled: false, users: [], apiKeys: [], jwtSecret: '', tokenTtl };
+  }
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  const users: UserEntry[] = parsed.users || [];
+  const apiKeys: ApiKeyEntry[] = parsed.apiKeys || [];
+  users.forEach(user => validateEntry(user, 'user', 'username', 'passwordHash', file));
+  apiKeys.forEach(key => validateEntry(key, 'API key', 'id', 'keyHash', file));
+  if (!jwtSecret) {
+    logger.warn('JWT_SECRET is not set; login tokens will be invalidated on restart');
+  }
+  return { enabled: true, users, apiKeys, jwtSecret: jwtSecret || randomBytes(32).toString('hex'), tokenTtl };
+}
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/** Issue an HS256 JSON Web Token carrying the caller's roles and categories */
+export function signToken(user: AuthUser, config: AuthConfig): { token: string; expiresAt: Date } {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const claims = {
+    sub: user.id,
+    name: user.name,
+    roles: user.roles,
+    categories: user.categories,
+    iat: now,
+    exp: now + config.tokenTtl
+  };
+  const payload = base64url(JSON.stringify(claims));
+  return {
+    token: `${header}.${payload}.${sign(`${header}.${payload}`, config.jwtSecret)}`,
+    expiresAt: new Date(claims.exp * 1000)
+  };
+}
+
+/** Check a token's signature and expiry; returns the caller it was issued to, or null */
+export function verifyToken(token: string, config: AuthConfig): AuthUser | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  const expected = Buffer.from(sign(`${header}.${payload}`, config.jwtSecret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return null;
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+    if (typeof claims.sub !== 'string' || !Array.isArray(claims.roles) || !Array.isArray(claims.categories))
+      return null;
+    return {
+      id: claims.sub,
+      name: claims.name || claims.sub,
+      roles: claims.roles,
+      categories: claims.categories
+    };
+  } catch {
+    return null;
+  }
+}
+
+function findApiKey(key: string, config: AuthConfig): AuthUser | null {
+  const hash = Buffer.from(hashApiKey(key));
+  const entry = config.apiKeys.find(candidate => {
+    const stored = Buffer.from(candidate.keyHash);
+    return stored.length === hash.length && timingSafeEqual(stored, hash);
+  });
+  return entry
+    ? {
+        id: `key:${entry.id}`,
+        name: entry.name || entry.id,
+        roles: entry.roles,
+        categories: entry.categories
+      }
+    : null;
+}
+
+/**
+ * Request hook identifying the caller from an `Authorization: Bearer`
+ * token or an `X-API-Key` header. Invalid credentials are rejected right
+ * away; requests without credentials continue unauthenticated and are
+ * turned away by `requireRole` on protected routes.
+ */
+export function authenticate(config: AuthConfig) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!config.enabled) {
+      request.principal = ANONYMOUS;
+      return;
+    }
+    const authorization = request.headers.authorization;
+    const apiKey = request.headers['x-api-key'];
+    if (authorization) {
+      const match = /^Bearer\s+(.+)$/i.exec(authorization);
+      const user = match ? verifyToken(match[1], config) : null;
+      if (!user) {
+        return reply.status(401).send({ error: 'invalid or expired token' });
+      }
+      request.principal = user;
+    } else if (typeof apiKey === 'string') {
+      const user = findApiKey(apiKey, config);
+      if (!user) {
+        return reply.status(401).send({ error: 'invalid API key' });
+      }
+      request.principal = user;
+    }
+  };
+}
+
+export function hasRole(user: AuthUser, role: Role): boolean {
+  return user.roles.includes('admin') || user.roles.includes(role);
+}
+
+/** Route hook admitting only authenticated callers holding `role` */
+export function requireRole(role: Role) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.principal) {
+      return reply.status(401).send({ error: 'authentication required' });
+    }
+    if (!hasRole(request.principal, role)) {
+      return reply.status(403).send({ error: `the ${role} role is required` });
+    }
+  };
+}
+
+/** Categories a caller is limited to, or null when entitled to all of them */
+export function entitledCategories(user: AuthUser): string[] | null {
+  return user.categories.includes('*') ? null : user.categories;
+}
+
+export function canAccessCategory(user: AuthUser, category: string): boolean {
+  const entitled = entitledCategories(user);
+  return entitled === null || entitled.includes(category);
+}
+
+/**
+ * Routes for logging in with a username and password, which returns a
+ * bearer token, and for finding out who the current caller is.
+ */
+export async function authRoutes(app: FastifyInstance, options: { config: AuthConfig }): Promise<void> {
+  const { config } = options;
+
+  app.post<{ Body: LoginRequest }>('/auth/login', { schema: { body: loginBody } }, async (request, reply) => {
+    const { username, password } = request.body;
+    if (!config.enabled) {
+      return reply.status(404).send({ error: 'authentication is disabled' });
+    }
+    const entry = config.users.find(user => user.username === username);
+    const verified = verifyPassword(password, entry?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!entry || !verified) {
+      return reply.status(401).send({ error: 'invalid username or password' });
+    }
+    const user: AuthUser = {
+      id: `user:${entry.username}`,
+      name: entry.name || entry.username,
+      roles: entry.roles,
+      categories: entry.categories
+    };
+    const { token, expiresAt } = signToken(user, config);
+    const response: LoginResponse = { token, expiresAt: expiresAt.toISOString(), user };
+    return reply.send(response);
+  });
+
+  app.get('/auth/me', async (request, reply) => {
+    if (!request.principal) {
+      return reply.status(401).send({ error: 'authentication required' });
+    }
+    const response: SessionResponse = { authEnabled: config.enabled, user: request.principal };
+    return reply.send(response);
+  });
+}
@@ -0,0 +1,254 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CacheLayer, CacheStats, CacheStatsResponse } from '@ragika/shared';
+import { JsonStore } from './store';
+import { log } from './telemetry';
+
+/**
+ * Cache for the work repeated when the same question is asked again: query
+ * embeddings, retrieval results and final answers. Entries live in an
+ * in-memory LRU, optionally backed by files on disk so they survive a
+ * restart. Retrieval results and answers are keyed by a generation of the
+ * categories they were drawn from, which is bumped whenever a document in
+ * one of those categories is ingested or deleted, so stale entries are
+ * never served again and simply age out.
+ */
+
+/** Storage behind the query cache */
+interface CacheBackend {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * In-memory cache holding at most `maxEntries` entries, evicting the least
+ * recently used first. Values are returned as stored, so callers must not
+ * modify them.
+ */
+export class LruCache implements CacheBackend {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Re-inserting moves the entry to the most recently used end
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Cache kept on disk as one JSON file per entry, named by the entry's key.
+ * Files are replaced atomically; expired entries are removed when read or
+ * by `prune`.
+ */
+export class DiskCache implements CacheBackend {
+  constructor(
+    private readonly dir: string,
+    private readonly ttlMs: number
+  ) {}
+
+  private file(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.file(key), 'utf8'));
+      if (entry.expiresAt > Date.now()) return entry.value;
+      await fs.rm(this.file(key), { force: true });
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    return undefined;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const tmp = `${this.file(key)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ expiresAt: Date.now() + this.ttlMs, value }));
+    await fs.rename(tmp, this.file(key));
+  }
+
+  /** Remove expired entries, returning how many were removed */
+  async prune(): Promise<number> {
+    let removed = 0;
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return 0;
+      throw err;
+    }
+    for (const file of files.filter(name => /^[0-9a-f]{64}\.json$/.test(name))) {
+      try {
+        const entry = JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8'));
+        if (entry.expiresAt > Date.now()) continue;
+      } catch {
+        // Unreadable entries are removed along with expired ones
+      }
+      await fs.rm(path.join(this.dir, file), { force: true });
+      removed++;
+    }
+    return removed;
+  }
+}
+
+export interface QueryCacheOptions {
+  /** `memory`, `disk` (memory in front of files under `dir`) or `none` */
+  backend: string;
+  /** Entries kept in memory */
+  maxEntries: number;
+  ttlSeconds: number;
+  dir: string;
+}
+
+interface CacheGeneration {
+  id: string;
+  generation: number;
+}
+
+// Generation shared by every category, for results not limited to known ones
+const ALL_CATEGORIES = '*';
+
+/** Query cache with hit and miss counts per layer; see the module comment */
+export class QueryCache {
+  private readonly memory?: LruCache;
+  private readonly disk?: DiskCache;
+  private readonly generations = new Map<string, number>();
+  // Generations are persisted along with the entries on disk, so that a
+  // restart neither loses invalidations nor orphans valid entries
+  private readonly generationStore?: JsonStore<CacheGeneration>;
+  private readonly counts: CacheStats = {
+    embedding: { hits: 0, misses: 0 },
+    search: { hits: 0, misses: 0 },
+    answer: { hits: 0, misses: 0 }
+  };
+
+  constructor(options: QueryCacheOptions) {
+    const { backend, maxEntries, ttlSeconds, dir } = options;
+    if (!['memory', 'disk', 'none'].includes(backend)) {
+      throw new Error(`Unknown cache backend "${backend}"; expected one of memory, disk, none`);
+    }
+    if (backend === 'none') return;
+    this.memory = new LruCache(maxEntries, ttlSeconds * 1000);
+    if (backend === 'disk') {
+      this.disk = new DiskCache(path.join(dir, 'entries'), ttlSeconds * 1000);
+      this.generationStore = new JsonStore<CacheGeneration>(path.join(dir, 'generations.json'));
+    }
+  }
+
+  get enabled(): boolean {
+    return this.memory !== undefined;
+  }
+
+  /** Key for a layer's entry from the values that determine it */
+  key(layer: CacheLayer, ...parts: unknown[]): string {
+    return createHash('sha256')
+      .update(JSON.stringify([layer, ...parts]))
+      .digest('hex');
+  }
+
+  /**
+   * Look an entry up, counting the hit or miss. Cache failures are logged
+   * and treated as misses so they never fail a query.
+   */
+  async get<T>(layer: CacheLayer, key: string): Promise<T | undefined> {
+    if (!this.memory) return undefined;
+    let value: unknown;
+    try {
+      value = await this.memory.get(key);
+      if (value === undefined && this.disk) {
+        value = await this.disk.get(key);
+        if (value !== undefined) await this.memory.set(key, value);
+      }
+    } catch (err: any) {
+      log().error({ error: err.message || err }, 'Cache read failed');
+      value = undefined;
+    }
+    this.counts[layer][value === undefined ? 'misses' : 'hits']++;
+    return value as T | undefined;
+  }
+
+  async set(layer: CacheLayer, key: string, value: unknown): Promise<void> {
+    if (!this.memory) return;
+    try {
+      await this.memory.set(key, value);
+      await this.disk?.set(key, value);
+    } catch (err: any) {
+      log().error({ layer, error: err.message || err }, 'Cache write failed');
+    }
+  }
+
+  private async generation(category: string): Promise<number> {
+    if (this.generationStore) {
+      return (await this.generationStore.get(category))?.generation ?? 0;
+    }
+    return this.generations.get(category) ?? 0;
+  }
+
+  /**
+   * Token identifying the current contents of some categories, or of all
+   * of them when `categories` is null, to be made part of cache keys.
+   */
+  async scope(categories: string[] | null): Promise<string> {
+    const names = categories ? [...new Set(categories)].sort() : [ALL_CATEGORIES];
+    const generations = await Promise.all(names.map(name => this.generation(name)));
+    return names.map((name, i) => `${name}:${generations[i]}`).join(',');
+  }
+
+  /** Invalidate cached results drawn from any of the given categories */
+  async invalidate(categories: (string | undefined)[]): Promise<void> {
+    if (!this.memory) return;
+    const names = new Set([...categories.filter((name): name is string => !!name), ALL_CATEGORIES]);
+    for (const name of names) {
+      const generation = (await this.generation(name)) + 1;
+      if (this.generationStore) {
+        await this.generationStore.put({ id: name, generation });
+      } else {
+        this.generations.set(name, generation);
+      }
+    }
+  }
+
+  /** Remove expired entries from disk; the memory cache evicts as it goes */
+  async prune(): Promise<void> {
+    try {
+      await this.disk?.prune();
+    } catch (err: any) {
+      log().error({ error: err.message || err }, 'Cache prune failed');
+    }
+  }
+
+  stats(): CacheStatsResponse {
+    return {
+      enabled: this.enabled,
+      entries: this.memory?.size ?? 0,
+      layers: {
+        embedding: { ...this.counts.embedding },
+        search: { ...this.counts.search },
+        answer: { ...this.counts.answer }
+      }
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import type { Chunk, ChunkerConfig } from './types';
+import { tokenSpans } from './tokens';
+
+/**
+ * Split a region of text into windows of at most `maxTokens` tokens,
+ * each window starting `maxTokens - overlapTokens` tokens after the
+ * previous one. Window boundaries always fall between tokens.
+ */
+export function windowTokens(
+  text: string,
+  start: number,
+  end: number,
+  config: ChunkerConfig
+): Chunk[] {
+  const spans = tokenSpans(text, start, end);
+  const chunks: Chunk[] = [];
+  const step = Math.max(1, config.maxTokens - config.overlapTokens);
+  for (let i = 0; i < spans.length; i += step) {
+    const last = Math.min(i + config.maxTokens, spans.length) - 1;
+    const chunkStart = spans[i].start;
+    const chunkEnd = spans[last].end;
+    chunks.push({ text: text.slice(chunkStart, chunkEnd), start: chunkStart, end: chunkEnd });
+    if (last === spans.length - 1) break;
+  }
+  return chunks;
+}
+
+/**
+ * Fixed-size chunking that ignores document structure. Kept for content
+ * without meaningful sentences, such as logs or keyword lists.
+ */
+export function chunkFixed(text: string, config: ChunkerConfig): Chunk[] {
+  return windowTokens(text, 0, text.length, config);
+}
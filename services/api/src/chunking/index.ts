@@ -0,0 +1,57 @@
+import type { ChunkingOptions, ChunkStrategy } from '@ragika/shared';
+import type { Chunk, Chunker, ChunkerConfig } from './types';
+import { chunkFixed } from './fixed';
+import { chunkSentences } from './sentence';
+import { chunkMarkdown } from './markdown';
+
+export type { Chunk, Chunker, ChunkerConfig } from './types';
+export { countTokens, tokenSpans } from './tokens';
+
+/**
+ * Registry of chunking strategies. Adding a strategy means implementing a
+ * Chunker and registering it here under a name from ChunkStrategy.
+ */
+const CHUNKERS: Record<ChunkStrategy, Chunker> = {
+  fixed: chunkFixed,
+  sentence: chunkSentences,
+  markdown: chunkMarkdown
+};
+
+export const CHUNK_STRATEGIES = Object.keys(CHUNKERS) as ChunkStrategy[];
+
+export function isChunkStrategy(value: unknown): value is ChunkStrategy {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CHUNKERS, value);
+}
+
+/**
+ * Check client supplied chunking options. Returns a message describing
+ * the first problem found, or null when the options are usable.
+ */
+export function validateChunkingOptions(options: ChunkingOptions | undefined): string | null {
+  if (!options) return null;
+  const { strategy, maxTokens, overlapTokens } = options;
+  if (strategy !== undefined && !isChunkStrategy(strategy)) {
+    return `chunking.strategy must be one of ${Object.keys(CHUNKERS).join(', ')}`;
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+    return 'chunking.maxTokens must be a positive integer';
+  }
+  if (overlapTokens !== undefined && (!Number.isInteger(overlapTokens) || overlapTokens < 0)) {
+    return 'chunking.overlapTokens must be a non-negative integer';
+  }
+  if (maxTokens !== undefined && overlapTokens !== undefined && overlapTokens >= maxTokens) {
+    return 'chunking.overlapTokens must be smaller than chunking.maxTokens';
+  }
+  return null;
+}
+
+/**
+ * Split a document into chunks using the named strategy. Chunks consisting
+ * only of whitespace are dropped.
+ */
+export function chunkDocument(text: string, strategy: ChunkStrategy, config: ChunkerConfig): Chunk[] {
+  const overlapTokens = Math.min(config.overlapTokens, config.maxTokens - 1);
+  return CHUNKERS[strategy](text, { ...config, overlapTokens }).filter(
+    chunk => chunk.text.trim().length > 0
+  );
+}
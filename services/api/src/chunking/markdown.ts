@@ -0,0 +1,70 @@
+import type { Chunk, ChunkerConfig } from './types';
+import { makeUnitSpan, packUnits, segmentUnits } from './sentence';
+
+const HEADING = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+interface Section {
+  start: number;
+  /** End of the heading line; equals `start` for text before any heading */
+  bodyStart: number;
+  end: number;
+  headingPath: string[];
+}
+
+/**
+ * Split a Markdown document into sections at each ATX heading, tracking
+ * the path of enclosing headings. Lines inside fenced code blocks are
+ * ignored so that comments in shell snippets are not taken for headings.
+ */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const path: { level: number; title: string }[] = [];
+  let current: Section = { start: 0, bodyStart: 0, end: text.length, headingPath: [] };
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = inFence ? null : HEADING.exec(line);
+    if (!match) continue;
+    current.end = lineStart;
+    sections.push(current);
+    const level = match[1].length;
+    while (path.length > 0 && path[path.length - 1].level >= level) {
+      path.pop();
+    }
+    path.push({ level, title: match[2] });
+    current = {
+      start: lineStart,
+      bodyStart: Math.min(lineStart + line.length, text.length),
+      end: text.length,
+      headingPath: path.map(entry => entry.title)
+    };
+  }
+  sections.push(current);
+  return sections.filter(section => section.end > section.start);
+}
+
+/**
+ * Markdown heading aware chunking. Chunks never span two sections, and
+ * each chunk records the heading path of its section so that retrieval
+ * and citations keep the document structure. Within a section, text is
+ * split on sentence boundaries like the sentence strategy.
+ */
+export function chunkMarkdown(text: string, config: ChunkerConfig): Chunk[] {
+  return splitSections(text).flatMap(section => {
+    const units = segmentUnits(text, section.bodyStart, section.end);
+    if (section.bodyStart > section.start) {
+      units.unshift(makeUnitSpan(text, section.start, section.bodyStart));
+    }
+    return packUnits(text, units, config).map(chunk => ({
+      ...chunk,
+      ...(section.headingPath.length > 0 ? { headingPath: section.headingPath } : {})
+    }));
+  });
+}
@@ -0,0 +1,154 @@
+import type { Chunk, ChunkerConfig } from './types';
+import { countTokens } from './tokens';
+import { windowTokens } from './fixed';
+
+/**
+ * An indivisible piece of text used when packing chunks: a sentence, or a
+ * whole table or code block. Offsets refer to the full source text.
+ */
+export interface Unit {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+// Blank lines separate paragraphs; Markdown headings always start one
+const PARAGRAPH_SEPARATOR = /\n[ \t]*(?:\n[ \t]*)+|\n(?=#{1,6}[ \t])/g;
+// Sentence terminators, including closing quotes and brackets
+const SENTENCE_END = /[.!?]+["'’”)\]]*(?=\s|$)/g;
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATION = /(?:^|\s)(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|No|Nos|vs|etc|Inc|Ltd|Co|Fig|approx|Dept)\.$/i;
+
+/** Build a unit for the span of `text` between `start` and `end` */
+export function makeUnitSpan(text: string, start: number, end: number): Unit {
+  return { start, end, tokens: countTokens(text.slice(start, end)) };
+}
+
+/**
+ * Tables and fenced code blocks lose their meaning when split, so they are
+ * kept together as a single unit.
+ */
+function isAtomicBlock(paragraph: string): boolean {
+  const lines = paragraph.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length > 0 && lines.every(line => line.trim().startsWith('|'))) {
+    return true;
+  }
+  return /^(```|~~~)/.test(paragraph.trimStart());
+}
+
+/**
+ * Split one paragraph into sentences. A terminator following a common
+ * abbreviation ("Dr.") or followed by a lowercase letter ("e.g. this") is
+ * not treated as the end of a sentence.
+ */
+function splitSentences(text: string, start: number, end: number): Unit[] {
+  const paragraph = text.slice(start, end);
+  const units: Unit[] = [];
+  let sentenceStart = 0;
+  for (const match of paragraph.matchAll(SENTENCE_END)) {
+    const boundary = (match.index ?? 0) + match[0].length;
+    const rest = paragraph.slice(boundary).trimStart();
+    if (rest.length > 0 && /^\p{Ll}/u.test(rest)) continue;
+    if (ABBREVIATION.test(paragraph.slice(sentenceStart, boundary))) continue;
+    units.push(makeUnitSpan(text, start + sentenceStart, start + boundary));
+    sentenceStart = boundary + (paragraph.slice(boundary).length - rest.length);
+  }
+  if (sentenceStart < paragraph.length) {
+    units.push(makeUnitSpan(text, start + sentenceStart, end));
+  }
+  return units.filter(unit => unit.tokens > 0);
+}
+
+/**
+ * Segment the region of `text` between `start` and `end` into sentence
+ * units, never letting a unit cross a paragraph boundary.
+ */
+export function segmentUnits(text: string, start = 0, end = text.length): Unit[] {
+  const region = text.slice(start, end);
+  const units: Unit[] = [];
+  let paragraphStart = 0;
+  const separators = [...region.matchAll(PARAGRAPH_SEPARATOR)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+  separators.push({ start: region.length, end: region.length });
+  for (const separator of separators) {
+    const raw = region.slice(paragraphStart, separator.start);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length > 0) {
+      const pStart = start + paragraphStart + leading;
+      const pEnd = pStart + trimmed.length;
+      if (isAtomicBlock(trimmed)) {
+        units.push(makeUnitSpan(text, pStart, pEnd));
+      } else {
+        units.push(...splitSentences(text, pStart, pEnd));
+      }
+    }
+    paragraphStart = separator.end;
+  }
+  return units;
+}
+
+/**
+ * Greedily pack units into chunks of at most `maxTokens` tokens. Each new
+ * chunk begins with the trailing units of the previous chunk that fit in
+ * `overlapTokens`, so context carries across chunk boundaries. Units that
+ * are larger than a whole chunk on their own are split into token windows.
+ */
+export function packUnits(text: string, units: Unit[], config: ChunkerConfig): Chunk[] {
+  const pieces = units.flatMap(unit =>
+    unit.tokens > config.maxTokens
+      ? windowTokens(text, unit.start, unit.end, { ...config, overlapTokens: 0 }).map(chunk =>
+          makeUnitSpan(text, chunk.start, chunk.end)
+        )
+      : [unit]
+  );
+  const chunks: Chunk[] = [];
+  let current: Unit[] = [];
+  let tokens = 0;
+  // Number of units in `current` not already emitted in a previous chunk
+  let fresh = 0;
+
+  const flush = () => {
+    const chunkStart = current[0].start;
+    const chunkEnd = current[current.length - 1].end;
+    chunks.push({ text: text.slice(chunkStart, chunkEnd), start: chunkStart, end: chunkEnd });
+    // Carry trailing units over as overlap, never the whole chunk
+    const carried: Unit[] = [];
+    let carriedTokens = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      if (carriedTokens + current[i].tokens > config.overlapTokens) break;
+      carried.unshift(current[i]);
+      carriedTokens += current[i].tokens;
+    }
+    current = carried;
+    tokens = carriedTokens;
+    fresh = 0;
+  };
+
+  for (const unit of pieces) {
+    if (tokens + unit.tokens > config.maxTokens && fresh > 0) {
+      flush();
+    }
+    // Drop overlap that would push the chunk over its limit
+    while (current.length > 0 && tokens + unit.tokens > config.maxTokens) {
+      tokens -= current.shift()!.tokens;
+    }
+    current.push(unit);
+    tokens += unit.tokens;
+    fresh++;
+  }
+  if (fresh > 0) {
+    flush();
+  }
+  return chunks;
+}
+
+/**
+ * Sentence and paragraph aware chunking: chunks end on sentence boundaries
+ * and tables or code blocks are never cut in half.
+ */
+export function chunkSentences(text: string, config: ChunkerConfig): Chunk[] {
+  return packUnits(text, segmentUnits(text), config);
+}
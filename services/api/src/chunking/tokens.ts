@@ -0,0 +1,33 @@
+/**
+ * Approximate tokenisation shared by all chunkers and by the prompt's
+ * token estimate. Runs of letters or digits count as one token and every
+ * other non-space character counts as a token of its own. This tracks
+ * subword tokenizers closely enough for sizing chunks without loading the
+ * embedding model's vocabulary; the prompt estimate splits long runs
+ * further, see `estimateTokens` in context.ts.
+ */
+const TOKEN_PATTERN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/** Count the approximate number of tokens in a piece of text */
+export function countTokens(text: string): number {
+  return text.match(TOKEN_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Locate the tokens of `text` between `start` and `end`, returning their
+ * offsets within `text`.
+ */
+export function tokenSpans(text: string, start = 0, end = text.length): Span[] {
+  const spans: Span[] = [];
+  const slice = text.slice(start, end);
+  for (const match of slice.matchAll(TOKEN_PATTERN)) {
+    const offset = start + (match.index ?? 0);
+    spans.push({ start: offset, end: offset + match[0].length });
+  }
+  return spans;
+}
@@ -0,0 +1,22 @@
+/**
+ * A chunk of a source document. Offsets are character positions within
+ * the text handed to the chunker, so `text` always equals
+ * `source.slice(start, end)`.
+ */
+export interface Chunk {
+  text: string;
+  start: number;
+  end: number;
+  /** Markdown headings enclosing this chunk, outermost first */
+  headingPath?: string[];
+}
+
+export interface ChunkerConfig {
+  /** Maximum size of a chunk in tokens */
+  maxTokens: number;
+  /** Number of tokens repeated from the end of the previous chunk */
+  overlapTokens: number;
+}
+
+/** A chunking strategy: splits a document into ordered chunks */
+export type Chunker = (text: string, config: ChunkerConfig) => Chunk[];
@@ -0,0 +1,224 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { ChunkStrategy, RetrievalMode } from '@ragika/shared';
+import { CHUNK_STRATEGIES } from './chunking';
+import { RETRIEVAL_MODES } from './retrieval';
+import { parsePayloadIndexes } from './filters';
+import { parseLlmEndpoints } from './providers';
+
+/**
+ * Server configuration. Settings are read from the environment, over the
+ * optional JSON file named by CONFIG_FILE whose keys are the same names,
+ * e.g. `{ "TOP_K": 10, "LLM_MODEL": "mistral" }`. Every value is checked
+ * when the server starts, and all problems are reported together so a
+ * typo cannot silently fall back to a default. Empty values count as
+ * unset.
+ */
+
+/** Converts a raw value, throwing an error that says what was expected */
+type Parser<T> = (raw: string) => T;
+
+interface Setting<T> {
+  parse: Parser<T>;
+  /** Value when unset; a function receives the settings parsed before this one */
+  default: T | ((config: Record<string, unknown>) => T);
+}
+
+function setting<T>(parse: Parser<T>, defaultValue: Setting<T>['default']): Setting<T> {
+  return { parse, default: defaultValue };
+}
+
+function bounds(min: number, max: number): string {
+  if (max === Infinity) return min === -Infinity ? '' : ` >= ${min}`;
+  return ` between ${min} and ${max}`;
+}
+
+function integer(min = -Infinity, max = Infinity): Parser<number> {
+  return raw => {
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`expected an integer${bounds(min, max)}`);
+    }
+    return value;
+  };
+}
+
+function number(min = -Infinity, max = Infinity): Parser<number> {
+  return raw => {
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`expected a number${bounds(min, max)}`);
+    }
+    return value;
+  };
+}
+
+/** One of the given names, case-insensitively */
+function oneOf<T extends string>(values: readonly T[]): Parser<T> {
+  return raw => {
+    const value = raw.toLowerCase();
+    if (!(values as readonly string[]).includes(value)) {
+      throw new Error(`expected one of ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+const text: Parser<string> = raw => raw;
+
+const lowercase: Parser<string> = raw => raw.toLowerCase();
+
+function url(raw: string): string {
+  try {
+    new URL(raw);
+  } catch {
+    throw new Error('expected an absolute URL');
+  }
+  return raw;
+}
+
+/** Comma separated list */
+const list: Parser<string[]> = raw =>
+  raw
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent'] as const;
+
+// Providers and cache backends are checked against their registries when
+// created, so their names are only normalised here
+const SETTINGS = {
+  PORT: setting(integer(1, 65535), 5000),
+  DATA_DIR: setting(text, () => path.resolve('data')),
+  LOG_LEVEL: setting(oneOf(LOG_LEVELS), 'info'),
+  HEALTH_TIMEOUT_MS: setting(integer(1), 5000),
+  CORS_ORIGINS: setting(list, []),
+
+  EMBEDDINGS_PROVIDER: setting(lowercase, 'tei'),
+  EMBEDDINGS_BASE_URL: setting(url, 'http://localhost:8080'),
+  EMBEDDING_DIMENSION: setting(integer(1), 1024),
+  EMBEDDINGS_TIMEOUT_MS: setting(integer(1), 30000),
+  RERANK_BASE_URL: setting(url, ''),
+  RERANK_PROVIDER: setting(lowercase, config => (config.RERANK_BASE_URL ? 'tei' : 'none')),
+  RERANK_TIMEOUT_MS: setting(integer(1), 30000),
+  LLM_PROVIDER: setting(lowercase, 'ollama'),
+  LLM_BASE_URL: setting(url, 'http://localhost:11434'),
+  LLM_MODEL: setting(text, 'llama3.1:8b-instruct'),
+  LLM_FALLBACKS: setting(parseLlmEndpoints, []),
+  LLM_TIMEOUT_MS: setting(integer(1), 300000),
+  LLM_CONTEXT_WINDOW: setting(integer(1), 8192),
+  LLM_ANSWER_TOKENS: setting(integer(1), 1024),
+  LLM_CHARS_PER_TOKEN: setting(number(0.5), 4),
+  UPSTREAM_RETRIES: setting(integer(0), 2),
+  UPSTREAM_RETRY_DELAY_MS: setting(integer(0), 250),
+  CIRCUIT_FAILURE_THRESHOLD: setting(integer(1), 5),
+  CIRCUIT_RESET_SECONDS: setting(number(0), 30),
+
+  VECTOR_STORE: setting(lowercase, 'qdrant'),
+  QDRANT_URL: setting(url, 'http://localhost:6333'),
+  COLLECTION_NAME: setting(text, 'ragika'),
+  METADATA_INDEXES: setting(parsePayloadIndexes, {}),
+
+  RETRIEVAL_MODE: setting<RetrievalMode>(oneOf(RETRIEVAL_MODES), 'hybrid'),
+  TOP_K: setting(integer(1), 20),
+  MAX_CONTEXT: setting(integer(1), 8),
+  DENSE_WEIGHT: setting(number(0), 1),
+  SPARSE_WEIGHT: setting(number(0), 1),
+  RRF_K: setting(number(0), 60),
+  HISTORY_MAX_TURNS: setting(integer(0), 6),
+  HISTORY_MAX_CHARS: setting(integer(0), 4000),
+  GROUNDING_THRESHOLD: setting(number(0, 1), 0.5),
+  PROMPT_TEMPLATES_DIR: setting(text, ''),
+  PROMPT_TEMPLATE: setting(text, 'default'),
+  ANSWER_LANGUAGE: setting(text, 'the language of the question'),
+  CONTEXT_TOKEN_BUDGET: setting(integer(1), 4000),
+  CONTEXT_DIVERSITY: setting(number(0, 1), 0.3),
+  CONTEXT_DUPLICATE_THRESHOLD: setting(number(0, 1), 0.8),
+
+  CACHE_BACKEND: setting(lowercase, 'memory'),
+  CACHE_MAX_ENTRIES: setting(integer(1), 1000),
+  CACHE_TTL_SECONDS: setting(integer(1), 24 * 60 * 60),
+
+  MAX_UPLOAD_MB: setting(number(0), 50),
+  CHUNK_STRATEGY: setting<ChunkStrategy>(oneOf(CHUNK_STRATEGIES), 'sentence'),
+  CHUNK_MAX_TOKENS: setting(integer(1), 500),
+  CHUNK_OVERLAP_TOKENS: setting(integer(0), 50),
+  INGEST_CONCURRENCY: setting(integer(1), 2),
+  EMBED_BATCH_SIZE: setting(integer(1), 32),
+  EMBED_CONCURRENCY: setting(integer(1), 2),
+  EMBED_RETRIES: setting(integer(0), 3),
+  EMBED_RETRY_DELAY_MS: setting(integer(0), 1000),
+  UPSERT_BATCH_SIZE: setting(integer(1), 256),
+
+  AUTH_FILE: setting(text, ''),
+  JWT_SECRET: setting(text, ''),
+  TOKEN_TTL_SECONDS: setting(integer(1), 8 * 60 * 60)
+};
+
+export type Config = {
+  [Name in keyof typeof SETTINGS]: (typeof SETTINGS)[Name] extends Setting<infer T> ? T : never;
+};
+
+/** Configuration that cannot be used, with every problem found */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new ConfigError([`CONFIG_FILE: cannot read ${file}: ${err.message}`]);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError([`CONFIG_FILE: ${file} must contain a JSON object`]);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Load the configuration from `env` over the file named by its CONFIG_FILE.
+ * Throws a ConfigError listing every invalid or unknown setting.
+ */
+export function loadConfig(env: Record<string, string | undefined> = process.env): Config {
+  const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+  const problems: string[] = [];
+  for (const name of Object.keys(file)) {
+    if (!Object.prototype.hasOwnProperty.call(SETTINGS, name)) {
+      problems.push(`${name}: unknown setting in ${env.CONFIG_FILE}`);
+    }
+  }
+  const config: Record<string, unknown> = {};
+  for (const [name, { parse, default: fallback }] of Object.entries(SETTINGS) as [
+    string,
+    Setting<unknown>
+  ][]) {
+    const fromFile = file[name];
+    if (fromFile !== undefined && fromFile !== null && typeof fromFile === 'object') {
+      problems.push(`${name}: expected a string, number or boolean in ${env.CONFIG_FILE}`);
+      continue;
+    }
+    const raw =
+      env[name]?.trim() || (fromFile === undefined || fromFile === null ? '' : String(fromFile).trim());
+    if (raw === '') {
+      config[name] = typeof fallback === 'function' ? fallback(config) : fallback;
+      continue;
+    }
+    try {
+      config[name] = parse(raw);
+    } catch (err: any) {
+      problems.push(`${name}=${JSON.stringify(raw)}: ${err.message}`);
+    }
+  }
+  // An invalid base URL is reported above already
+  if (config.RERANK_PROVIDER === 'tei' && config.RERANK_BASE_URL === '') {
+    problems.push('RERANK_BASE_URL: required when RERANK_PROVIDER is tei');
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+  return config as Config;
+}
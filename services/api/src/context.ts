@@ -0,0 +1,190 @@
+import { tokenSpans } from './chunking';
+import type { SearchHit } from './providers';
+import { tokenize } from './sparse';
+
+/**
+ * Packing of retrieved chunks into the context of an LLM prompt. Chunks
+ * are taken in rank order, with maximal marginal relevance (MMR) trading
+ * rank against similarity to the chunks already taken, until a token
+ * budget is used up. Passages nearly identical to one already taken are
+ * dropped, and chunks adjacent to or overlapping another chunk of the same
+ * document are merged with it into a single context.
+ */
+
+// Chunks of a document separated by at most this many characters, the
+// whitespace the chunkers drop between units, are merged
+const MAX_MERGE_GAP = 2;
+
+// Cost of the `[n] ` marker and separator preceding each context
+const MARKER_TOKENS = 3;
+
+/**
+ * Estimate how many tokens the LLM's tokenizer produces for a text. It
+ * starts from the tokens the chunkers count, and splits each run of
+ * letters or digits into pieces of about `charsPerToken` characters, as
+ * subword tokenizers do; other characters remain one token each.
+ */
+export function estimateTokens(text: string, charsPerToken: number): number {
+  let tokens = 0;
+  for (const { start, end } of tokenSpans(text)) {
+    tokens += Math.ceil((end - start) / charsPerToken);
+  }
+  return tokens;
+}
+
+export interface PackingOptions {
+  /** Tokens available for the contexts */
+  budget: number;
+  /** Most contexts to include, after merging */
+  maxContexts: number;
+  /** MMR weight of rank against diversity, 0–1; 1 ignores diversity */
+  lambda: number;
+  /** Term similarity, 0–1, at or above which a chunk is dropped as a near-duplicate */
+  duplicateThreshold: number;
+  /** Token estimate for the configured model */
+  countTokens: (text: string) => number;
+}
+
+/** One context of the prompt: a chunk, or adjacent chunks of a document merged */
+export interface PackedContext<T extends { hit: SearchHit }> {
+  /** Chunks merged into the context, best ranked first */
+  parts: T[];
+  text: string;
+  /** Offsets of the merged span within the source document, when known */
+  start?: number;
+  end?: number;
+  /** Estimated tokens, including the context's marker */
+  tokens: number;
+}
+
+export interface PackingResult<T extends { hit: SearchHit }> {
+  /** Contexts in the order they are numbered in the prompt */
+  contexts: PackedContext<T>[];
+  /** Chunks left out as near-duplicates of included ones */
+  duplicates: number;
+  /** Estimated tokens of all contexts */
+  tokens: number;
+}
+
+interface Candidate<T> {
+  ranked: T;
+  /** Rank-based relevance, 1 for the best chunk down towards 0 */
+  relevance: number;
+  terms: Set<string>;
+}
+
+/** Jaccard similarity of two term sets */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/** Whether a chunk overlaps or directly follows or precedes a context */
+function isAdjacent<T extends { hit: SearchHit }>(context: PackedContext<T>, hit: SearchHit): boolean {
+  const { documentId, start, end } = hit.payload;
+  return (
+    context.parts[0].hit.payload.documentId === documentId &&
+    context.start !== undefined &&
+    context.end !== undefined &&
+    start !== undefined &&
+    end !== undefined &&
+    start <= context.end + MAX_MERGE_GAP &&
+    end >= context.start - MAX_MERGE_GAP
+  );
+}
+
+/**
+ * Join chunks of one document into a single passage in document order,
+ * removing the text they overlap by. Chunks separated by a small gap are
+ * joined with the whitespace that most likely stood between them.
+ */
+function mergeParts<T extends { hit: SearchHit }>(parts: T[]): { text: string; start: number; end: number } {
+  const ordered = [...parts].sort((a, b) => a.hit.payload.start! - b.hit.payload.start!);
+  const first = ordered[0].hit.payload;
+  let text = first.text;
+  let end = first.end!;
+  for (const { hit } of ordered.slice(1)) {
+    const payload = hit.payload;
+    if (payload.end! <= end) continue;
+    const gap = payload.start! - end;
+    if (gap >= 0) {
+      text += (gap === 0 ? '' : gap === 1 ? ' ' : '\n\n') + payload.text;
+    } else {
+      text += payload.text.slice(-gap);
+    }
+    end = payload.end!;
+  }
+  return { text, start: first.start!, end };
+}
+
+/**
+ * Select and pack ranked chunks into prompt contexts within a token
+ * budget. Each step takes the remaining chunk with the best MMR score;
+ * chunks too large for what is left of the budget are passed over in
+ * favour of smaller ones further down.
+ */
+export function packContexts<T extends { hit: SearchHit }>(
+  ranked: T[],
+  options: PackingOptions
+): PackingResult<T> {
+  const { budget, maxContexts, lambda, duplicateThreshold, countTokens } = options;
+  let remaining: Candidate<T>[] = ranked.map((item, i) => ({
+    ranked: item,
+    relevance: 1 - i / ranked.length,
+    terms: new Set(tokenize(item.hit.payload.text))
+  }));
+  const contexts: PackedContext<T>[] = [];
+  const taken: Set<string>[] = [];
+  let duplicates = 0;
+  let tokens = 0;
+
+  while (remaining.length > 0) {
+    let best: Candidate<T> | undefined;
+    let bestScore = -Infinity;
+    const kept: Candidate<T>[] = [];
+    for (const candidate of remaining) {
+      const redundancy = Math.max(0, ...taken.map(terms => similarity(candidate.terms, terms)));
+      if (redundancy >= duplicateThreshold) {
+        duplicates++;
+        continue;
+      }
+      kept.push(candidate);
+      const score = lambda * candidate.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (!best) break;
+    remaining = kept.filter(candidate => candidate !== best);
+
+    const { hit } = best.ranked;
+    const target = contexts.find(context => isAdjacent(context, hit));
+    if (target) {
+      const parts = [...target.parts, best.ranked];
+      const merged = mergeParts(parts);
+      const cost = countTokens(merged.text) + MARKER_TOKENS;
+      if (tokens - target.tokens + cost > budget) continue;
+      tokens += cost - target.tokens;
+      Object.assign(target, { parts, ...merged, tokens: cost });
+    } else {
+      if (contexts.length >= maxContexts) continue;
+      const cost = countTokens(hit.payload.text) + MARKER_TOKENS;
+      if (tokens + cost > budget) continue;
+      tokens += cost;
+      contexts.push({
+        parts: [best.ranked],
+        text: hit.payload.text,
+        start: hit.payload.start,
+        end: hit.payload.end,
+        tokens: cost
+      });
+    }
+    taken.push(best.terms);
+  }
+  return { contexts, duplicates, tokens };
+}
@@ -0,0 +1,272 @@
+import type { FastifyInstance } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AppendMessageRequest,
+  AuthUser,
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+  CreateConversationRequest,
+  ImportConversationsRequest,
+  ImportConversationsResponse,
+  RenameConversationRequest
+} from '@ragika/shared';
+import { JsonStore } from './store';
+import { ANONYMOUS, hasRole, requireRole } from './auth';
+import {
+  appendMessageBody,
+  createConversationBody,
+  importConversationsBody,
+  renameConversationBody
+} from './schemas';
+
+/** Title of a conversation before its first question is asked */
+export const DEFAULT_TITLE = 'New Chat';
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Derive a conversation title from its first question: whitespace is
+ * collapsed and long questions are cut at a word boundary.
+ */
+export function titleFromQuestion(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_TITLE_LENGTH) {
+    return text || DEFAULT_TITLE;
+  }
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length
+  };
+}
+
+function isRole(role: unknown): role is 'user' | 'assistant' {
+  return role === 'user' || role === 'assistant';
+}
+
+/**
+ * Conversations are private to the caller who created them. Those created
+ * before authentication was enabled have no owner and are left to admins.
+ */
+function isOwner(conversation: Conversation, user: AuthUser): boolean {
+  return conversation.ownerId ? conversation.ownerId === user.id : hasRole(user, 'admin');
+}
+
+// Owner recorded for new conversations; anonymous callers leave it unset
+function ownerOf(user: AuthUser): { ownerId?: string } {
+  return user.id === ANONYMOUS.id ? {} : { ownerId: user.id };
+}
+
+/**
+ * Routes for server-side conversation persistence: create, list, fetch,
+ * rename and delete conversations, append messages, and import chats kept
+ * in browser local storage by earlier versions of the web client. Callers
+ * need the query role and only see their own conversations.
+ */
+export async function conversationRoutes(
+  app: FastifyInstance,
+  options: { store: JsonStore<Conversation> }
+): Promise<void> {
+  const { store } = options;
+
+  app.addHook('preHandler', requireRole('query'));
+
+  app.get('/conversations', async (request, reply) => {
+    try {
+      const conversations = (await store.list())
+        .filter(conversation => isOwner(conversation, request.principal!))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary);
+      return reply.send({ conversations });
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'List conversations error');
+      return reply.status(500).send({ error: 'Failed to list conversations' });
+    }
+  });
+
+  app.post<{ Body: CreateConversationRequest | null }>(
+    '/conversations',
+    { schema: { body: createConversationBody } },
+    async (request, reply) => {
+      const { id, title } = request.body || {};
+      if (title !== undefined && !title.trim()) {
+        return reply.status(400).send({ error: 'title must be a non-empty string' });
+      }
+      try {
+        if (id && (await store.get(id))) {
+          return reply.status(409).send({ error: 'conversation already exists' });
+        }
+        const now = new Date().toISOString();
+        const conversation: Conversation = {
+          id: id || uuidv4(),
+          ...ownerOf(request.principal!),
+          title: title?.trim() || DEFAULT_TITLE,
+          createdAt: now,
+          updatedAt: now,
+          messages: []
+        };
+        await store.put(conversation);
+        return reply.status(201).send(conversation);
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Create conversation error');
+        return reply.status(500).send({ error: 'Failed to create conversation' });
+      }
+    }
+  );
+
+  app.get<{ Params: { id: string } }>('/conversations/:id', async (request, reply) => {
+    try {
+      const conversation = await store.get(request.params.id);
+      if (!conversation || !isOwner(conversation, request.principal!)) {
+        return reply.status(404).send({ error: 'conversation not found' });
+      }
+      return reply.send(conversation);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Get conversation error');
+      return reply.status(500).send({ error: 'Failed to fetch conversation' });
+    }
+  });
+
+  app.patch<{ Params: { id: string }; Body: RenameConversationRequest }>(
+    '/conversations/:id',
+    { schema: { body: renameConversationBody } },
+    async (request, reply) => {
+      const { title } = request.body;
+      if (!title.trim()) {
+        return reply.status(400).send({ error: 'title is required' });
+      }
+      try {
+        const conversation = await store.get(request.params.id);
+        if (!conversation || !isOwner(conversation, request.principal!)) {
+          return reply.status(404).send({ error: 'conversation not found' });
+        }
+        const updated: Conversation = {
+          ...conversation,
+          title: title.trim(),
+          updatedAt: new Date().toISOString()
+        };
+        await store.put(updated);
+        return reply.send(toSummary(updated));
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Rename conversation error');
+        return reply.status(500).send({ error: 'Failed to rename conversation' });
+      }
+    }
+  );
+
+  app.delete<{ Params: { id: string } }>('/conversations/:id', async (request, reply) => {
+    try {
+      const conversation = await store.get(request.params.id);
+      if (!conversation || !isOwner(conversation, request.principal!)) {
+        return reply.status(404).send({ error: 'conversation not found' });
+      }
+      await store.delete(conversation.id);
+      return reply.status(204).send();
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Delete conversation error');
+      return reply.status(500).send({ error: 'Failed to delete conversation' });
+    }
+  });
+
+  /**
+   * Append a message. The first question asked in a conversation that
+   * still has the default title becomes its title.
+   */
+  app.post<{ Params: { id: string }; Body: AppendMessageRequest }>(
+    '/conversations/:id/messages',
+    { schema: { body: appendMessageBody } },
+    async (request, reply) => {
+      const { id, role, content, citations, rewrittenQuery, grounding, answerId } = request.body;
+      try {
+        const conversation = await store.get(request.params.id);
+        if (!conversation || !isOwner(conversation, request.principal!)) {
+          return reply.status(404).send({ error: 'conversation not found' });
+        }
+        const now = new Date().toISOString();
+        const message: ConversationMessage = {
+          id: id || uuidv4(),
+          role,
+          content,
+          ...(citations ? { citations } : {}),
+          ...(rewrittenQuery ? { rewrittenQuery } : {}),
+          ...(grounding ? { grounding } : {}),
+          ...(answerId ? { answerId } : {}),
+          createdAt: now
+        };
+        const isFirstQuestion = role === 'user' && !conversation.messages.some(msg => msg.role === 'user');
+        const updated: Conversation = {
+          ...conversation,
+          title:
+            isFirstQuestion && conversation.title === DEFAULT_TITLE
+              ? titleFromQuestion(content)
+              : conversation.title,
+          updatedAt: now,
+          messages: [...conversation.messages, message]
+        };
+        await store.put(updated);
+        return reply.status(201).send({ message, conversation: toSummary(updated) });
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Append message error');
+        return reply.status(500).send({ error: 'Failed to append message' });
+      }
+    }
+  );
+
+  /**
+   * Import conversations kept in browser local storage. Conversations whose
+   * ID already exists are skipped, so repeating an import is harmless.
+   */
+  app.post<{ Body: ImportConversationsRequest }>(
+    '/conversations/import',
+    { schema: { body: importConversationsBody } },
+    async (request, reply) => {
+      const { conversations } = request.body;
+      try {
+        const response: ImportConversationsResponse = { imported: 0, skipped: 0 };
+        const now = new Date().toISOString();
+        for (const chat of conversations) {
+          if (!chat || typeof chat.id !== 'string' || (await store.get(chat.id))) {
+            response.skipped++;
+            continue;
+          }
+          const messages: ConversationMessage[] = (Array.isArray(chat.messages) ? chat.messages : [])
+            .filter(msg => msg && isRole(msg.role) && typeof msg.content === 'string')
+            .map(msg => ({
+              id: msg.id || uuidv4(),
+              role: msg.role,
+              content: msg.content,
+              ...(msg.citations ? { citations: msg.citations } : {}),
+              createdAt: now
+            }));
+          const firstQuestion = messages.find(msg => msg.role === 'user');
+          const title =
+            (!chat.title || chat.title === DEFAULT_TITLE) && firstQuestion
+              ? titleFromQuestion(firstQuestion.content)
+              : chat.title || DEFAULT_TITLE;
+          await store.put({
+            id: chat.id,
+            ...ownerOf(request.principal!),
+            title,
+            createdAt: now,
+            updatedAt: now,
+            messages
+          });
+          response.imported++;
+        }
+        return reply.send(response);
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Import conversations error');
+        return reply.status(500).send({ error: 'Failed to import conversations' });
+      }
+    }
+  );
+}
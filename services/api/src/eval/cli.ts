@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import type { Citation } from '@ragika/shared';
+import { generator, PIPELINE_SETTINGS, prepareChatPrompt, retrieveForQuery } from '../app';
+import { verifyAnswer } from '../grounding';
+import { GoldenQuestion, GoldenSet, loadGoldenSet } from './golden';
+import { firstHitRanks, mean, ndcgAtK, recallAtK, reciprocalRank } from './metrics';
+
+/**
+ * Retrieval evaluation command. Runs every question of a golden set
+ * through the retrieval and rerank path of /chat/query and reports
+ * recall@k, MRR and nDCG@k, plus LLM-judged answer faithfulness with
+ * --judge. Reports are written as JSON together with the settings they
+ * were produced with, and --compare prints the difference to an earlier
+ * report.
+ *
+ *   npm run eval -w services/api -- golden.jsonl [--k 1,3,5,10] [--judge]
+ *     [--out report.json] [--compare baseline.json]
+ */
+
+const USAGE =
+  'Usage: npm run eval -w services/api -- <golden.jsonl> [--k 1,3,5,10] [--judge] [--out report.json] [--compare baseline.json]';
+
+interface Options {
+  file: string;
+  ks: number[];
+  judge: boolean;
+  out?: string;
+  compare?: string;
+}
+
+interface QuestionResult {
+  id: string;
+  question: string;
+  /** Standalone query searched for, if rewritten from the history */
+  searchQuery: string;
+  /** Rank of the first relevant chunk, or null when none was retrieved */
+  firstRelevantRank: number | null;
+  reciprocalRank: number;
+  recall: Record<string, number>;
+  ndcg: Record<string, number>;
+  /** Top retrieved chunks, best first */
+  retrieved: { documentId: string; chunkId: string; score: number; rerankScore?: number; relevant: boolean }[];
+  answer?: string;
+  /** Lexical grounding score of the answer, as reported by /chat/query */
+  grounding?: number;
+  /** Faithfulness of the answer to its contexts as judged by the LLM, 0–1 */
+  faithfulness?: number;
+}
+
+export interface EvaluationReport {
+  createdAt: string;
+  dataset: { file: string; sha256: string; questions: number };
+  settings: typeof PIPELINE_SETTINGS;
+  ks: number[];
+  /** Mean of each metric over all questions, keyed by metric name */
+  summary: Record<string, number>;
+  questions: QuestionResult[];
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { file: '', ks: [1, 3, 5, 10], judge: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} requires a value`);
+      return argv[++i];
+    };
+    if (arg === '--k') {
+      options.ks = value().split(',').map(Number);
+      if (options.ks.some(k => !Number.isInteger(k) || k < 1)) {
+        throw new Error('--k must be a comma separated list of positive integers');
+      }
+    } else if (arg === '--judge') {
+      options.judge = true;
+    } else if (arg === '--out') {
+      options.out = value();
+    } else if (arg === '--compare') {
+      options.compare = value();
+    } else if (arg.startsWith('--')) {
+      throw new Error(`unknown option ${arg}`);
+    } else if (!options.file) {
+      options.file = arg;
+    } else {
+      throw new Error(`unexpected argument ${arg}`);
+    }
+  }
+  if (!options.file) throw new Error('a golden set file is required');
+  return options;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Ask the LLM how faithful an answer is to the contexts it was given.
+ * Returns undefined when the reply holds no score between 0 and 1.
+ */
+async function judgeFaithfulness(citations: Citation[], answer: string): Promise<number | undefined> {
+  const context = citations.map((citation, i) => `[${i + 1}] ${citation.text || ''}`).join('\n\n');
+  const reply = await generator.generate(
+    `You are grading whether an answer is faithful to the context it was written from. An answer is faithful when every claim it makes is supported by the context; saying that the context does not contain the answer counts as faithful.\n\nContext:\n${context}\n\nAnswer:\n${answer}\n\nReply with a single number between 0 and 1, where 1 means every claim is supported and 0 means none is.\nScore:`
+  );
+  const match = /\b(0(?:\.\d+)?|1(?:\.0+)?)\b/.exec(reply);
+  return match ? Number(match[1]) : undefined;
+}
+
+async function evaluateQuestion(golden: GoldenQuestion, options: Options): Promise<QuestionResult> {
+  const request = { query: golden.question, category: golden.category, history: golden.history };
+  const { searchQuery, ranked } = await retrieveForQuery(request);
+  const snippets = (golden.relevantSnippets || []).map(normalise);
+  const documentIds = golden.relevantDocumentIds || [];
+  const matches = ranked.map(({ hit }) => {
+    const text = normalise(hit.payload.text);
+    return [
+      ...documentIds.filter(id => id === hit.payload.documentId).map(id => `document:${id}`),
+      ...snippets.filter(snippet => text.includes(snippet)).map(snippet => `snippet:${snippet}`)
+    ];
+  });
+  const ranks = firstHitRanks(matches);
+  const targets = documentIds.length + snippets.length;
+  const depth = Math.max(...options.ks);
+  const result: QuestionResult = {
+    id: golden.id,
+    question: golden.question,
+    searchQuery,
+    firstRelevantRank: ranks.size > 0 ? Math.min(...ranks.values()) : null,
+    reciprocalRank: reciprocalRank(ranks),
+    recall: Object.fromEntries(options.ks.map(k => [k, recallAtK(ranks, targets, k)])),
+    ndcg: Object.fromEntries(options.ks.map(k => [k, ndcgAtK(ranks, targets, k)])),
+    retrieved: ranked.slice(0, depth).map(({ hit, rerankScore }, i) => ({
+      documentId: hit.payload.documentId,
+      chunkId: hit.id,
+      score: hit.score,
+      rerankScore,
+      relevant: matches[i].length > 0
+    }))
+  };
+  if (options.judge) {
+    const prepared = await prepareChatPrompt(request);
+    if (prepared.prompt) {
+      const verified = verifyAnswer(
+        await generator.generate(prepared.prompt),
+        prepared.citations,
+        PIPELINE_SETTINGS.groundingThreshold
+      );
+      result.answer = verified.answer;
+      result.grounding = verified.grounding.score;
+      result.faithfulness = await judgeFaithfulness(prepared.citations, verified.answer);
+    }
+  }
+  return result;
+}
+
+function summarise(results: QuestionResult[], ks: number[]): Record<string, number> {
+  const summary: Record<string, number> = {};
+  for (const k of ks) {
+    summary[`recall@${k}`] = mean(results.map(result => result.recall[k]));
+  }
+  summary.mrr = mean(results.map(result => result.reciprocalRank));
+  for (const k of ks) {
+    summary[`ndcg@${k}`] = mean(results.map(result => result.ndcg[k]));
+  }
+  const grounded = results.filter(result => result.grounding !== undefined);
+  if (grounded.length > 0) {
+    summary.grounding = mean(grounded.map(result => result.grounding!));
+  }
+  const judged = results.filter(result => result.faithfulness !== undefined);
+  if (judged.length > 0) {
+    summary.faithfulness = mean(judged.map(result => result.faithfulness!));
+  }
+  return summary;
+}
+
+async function evaluate(golden: GoldenSet, options: Options): Promise<EvaluationReport> {
+  const results: QuestionResult[] = [];
+  for (const question of golden.questions) {
+    try {
+      results.push(await evaluateQuestion(question, options));
+    } catch (err: any) {
+      throw new Error(`question ${question.id} failed: ${err.message || err}`);
+    }
+    process.stderr.write(`\r${results.length}/${golden.questions.length} questions`);
+  }
+  process.stderr.write('\n');
+  return {
+    createdAt: new Date().toISOString(),
+    dataset: { file: golden.file, sha256: golden.sha256, questions: golden.questions.length },
+    settings: PIPELINE_SETTINGS,
+    ks: options.ks,
+    summary: summarise(results, options.ks),
+    questions: results
+  };
+}
+
+/** Print the summary, side by side with a baseline report when given */
+function printReport(report: EvaluationReport, baseline?: EvaluationReport) {
+  const format = (value: number | undefined) => (value === undefined ? '-' : value.toFixed(3));
+  console.log(`Dataset: ${report.dataset.file} (${report.dataset.questions} questions)`);
+  if (baseline && baseline.dataset.sha256 !== report.dataset.sha256) {
+    console.log('Warning: the baseline was produced from a different golden set');
+  }
+  if (baseline) {
+    const keys = Object.keys(report.settings) as (keyof typeof PIPELINE_SETTINGS)[];
+    for (const key of keys.filter(key => report.settings[key] !== baseline.settings[key])) {
+      console.log(`Setting ${key}: ${baseline.settings[key]} -> ${report.settings[key]}`);
+    }
+  }
+  const rows = [['metric', ...(baseline ? ['baseline', 'current', 'delta'] : ['value'])]];
+  for (const [metric, value] of Object.entries(report.summary)) {
+    if (!baseline) {
+      rows.push([metric, format(value)]);
+      continue;
+    }
+    const previous = baseline.summary[metric];
+    const delta = previous === undefined ? undefined : value - previous;
+    const change = delta === undefined ? '-' : `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+    rows.push([metric, format(previous), format(value), change]);
+  }
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]))).join('  '));
+  }
+}
+
+/** Run the command with its arguments, those after the script path */
+export async function main(argv: string[]): Promise<void> {
+  let options: Options;
+  try {
+    options = parseArgs(argv);
+  } catch (err: any) {
+    console.error(`${err.message}\n${USAGE}`);
+    process.exit(2);
+  }
+  const golden = await loadGoldenSet(options.file);
+  const baseline = options.compare
+    ? (JSON.parse(await fs.readFile(options.compare, 'utf8')) as EvaluationReport)
+    : undefined;
+  const report = await evaluate(golden, options);
+  printReport(report, baseline);
+  if (options.out) {
+    await fs.writeFile(options.out, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${options.out}`);
+  }
+}
+
+// Imported by tests, which call main themselves
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    () => process.exit(0),
+    err => {
+      console.error(err.message || err);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import type { ChatTurn } from '@ragika/shared';
+
+/** A question of a golden set, one per line of the JSONL file */
+export interface GoldenQuestion {
+  /** Stable identifier used to compare runs; defaults to the line number */
+  id: string;
+  question: string;
+  /** Restrict retrieval to a category, as a chat query would */
+  category?: string;
+  /** Earlier turns, for evaluating follow-up questions */
+  history?: ChatTurn[];
+  /** Documents that answer the question */
+  relevantDocumentIds?: string[];
+  /** Passages that answer the question, matched case- and whitespace-insensitively */
+  relevantSnippets?: string[];
+}
+
+export interface GoldenSet {
+  file: string;
+  /** SHA-256 of the file, so reports on different sets are not compared by mistake */
+  sha256: string;
+  questions: GoldenQuestion[];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Read a golden set. Every line must be a JSON object with a `question`
+ * and at least one expected document ID or snippet; blank lines are
+ * skipped. Throws with the offending line number on invalid input.
+ */
+export async function loadGoldenSet(file: string): Promise<GoldenSet> {
+  const raw = await fs.readFile(file, 'utf8');
+  const questions: GoldenQuestion[] = [];
+  const ids = new Set<string>();
+  raw.split('\n').forEach((line, idx) => {
+    if (!line.trim()) return;
+    const where = `${file}:${idx + 1}`;
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`${where}: invalid JSON`);
+    }
+    if (!entry || typeof entry.question !== 'string' || !entry.question.trim()) {
+      throw new Error(`${where}: question is required`);
+    }
+    const { relevantDocumentIds = [], relevantSnippets = [] } = entry;
+    if (!isStringArray(relevantDocumentIds) || !isStringArray(relevantSnippets)) {
+      throw new Error(`${where}: relevantDocumentIds and relevantSnippets must be arrays of strings`);
+    }
+    if (relevantDocumentIds.length === 0 && relevantSnippets.length === 0) {
+      throw new Error(`${where}: at least one relevant document ID or snippet is required`);
+    }
+    const id = entry.id === undefined ? String(idx + 1) : String(entry.id);
+    if (ids.has(id)) {
+      throw new Error(`${where}: duplicate id ${id}`);
+    }
+    ids.add(id);
+    questions.push({
+      id,
+      question: entry.question,
+      category: entry.category,
+      history: entry.history,
+      relevantDocumentIds,
+      relevantSnippets
+    });
+  });
+  if (questions.length === 0) {
+    throw new Error(`${file}: no questions found`);
+  }
+  return { file, sha256: createHash('sha256').update(raw).digest('hex'), questions };
+}
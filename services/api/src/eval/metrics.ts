@@ -0,0 +1,53 @@
+/**
+ * Ranking metrics for retrieval evaluation. A question has a set of
+ * targets (expected documents or answer snippets); each retrieved chunk
+ * may match some of them. Relevance is binary and a target only counts
+ * the first time it is matched, so retrieving five chunks of the same
+ * expected document is no better than retrieving one.
+ */
+
+/**
+ * Rank (1-based) at which each target is first matched. `matches[i]`
+ * holds the targets matched by the chunk at rank i + 1; targets never
+ * matched are absent from the result.
+ */
+export function firstHitRanks(matches: string[][]): Map<string, number> {
+  const ranks = new Map<string, number>();
+  matches.forEach((targets, i) => {
+    for (const target of targets) {
+      if (!ranks.has(target)) ranks.set(target, i + 1);
+    }
+  });
+  return ranks;
+}
+
+/** Share of the targets matched within the top k chunks */
+export function recallAtK(ranks: Map<string, number>, targetCount: number, k: number): number {
+  if (targetCount === 0) return 0;
+  return [...ranks.values()].filter(rank => rank <= k).length / targetCount;
+}
+
+/** Reciprocal of the rank of the first chunk matching any target; 0 if none does */
+export function reciprocalRank(ranks: Map<string, number>): number {
+  return ranks.size > 0 ? 1 / Math.min(...ranks.values()) : 0;
+}
+
+/**
+ * Normalised discounted cumulative gain over the top k chunks. A chunk has
+ * gain 1 when it is the first match of at least one target; the ideal
+ * ranking places one new target at each of the first ranks.
+ */
+export function ndcgAtK(ranks: Map<string, number>, targetCount: number, k: number): number {
+  const gainRanks = new Set([...ranks.values()].filter(rank => rank <= k));
+  let dcg = 0;
+  gainRanks.forEach(rank => (dcg += 1 / Math.log2(rank + 1)));
+  let idcg = 0;
+  for (let rank = 1; rank <= Math.min(targetCount, k); rank++) {
+    idcg += 1 / Math.log2(rank + 1);
+  }
+  return idcg > 0 ? dcg / idcg : 0;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
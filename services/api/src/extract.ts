@@ -0,0 +1,123 @@
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import { convert as htmlToText } from 'html-to-text';
+import type { DocumentFormat } from '@ragika/shared';
+
+/**
+ * A contiguous piece of extracted text. PDF extraction produces one section
+ * per page so that page numbers can be carried into the chunk payloads;
+ * every other format yields a single section without a page number.
+ */
+export interface TextSection {
+  text: string;
+  page?: number;
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  sections: TextSection[];
+  /** Number of pages, only known for paginated formats such as PDF */
+  pages?: number;
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text'
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text'
+};
+
+/**
+ * Work out the format of an uploaded file. The file extension is checked
+ * first because browsers frequently send a generic or empty MIME type for
+ * Markdown and DOCX files. Returns null for unsupported files.
+ */
+export function detectFormat(filename: string, mimetype?: string): DocumentFormat | null {
+  const ext = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  if (EXTENSION_FORMATS[ext]) {
+    return EXTENSION_FORMATS[ext];
+  }
+  if (mimetype) {
+    const base = mimetype.split(';')[0].trim().toLowerCase();
+    if (MIME_FORMATS[base]) {
+      return MIME_FORMATS[base];
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract the text of a PDF page by page. pdf-parse only exposes the
+ * concatenated text, so a custom page renderer records each page as it
+ * is processed. Lines are reconstructed from the vertical position of the
+ * text items, mirroring pdf-parse's default renderer.
+ */
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pages: TextSection[] = [];
+  // The bundled pdf.js misreads Node Buffers, so hand it a plain Uint8Array
+  const data = new Uint8Array(buffer) as Buffer;
+  const result = await pdfParse(data, {
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false
+      });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of content.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+      pages.push({ text, page: pageData.pageNumber as number });
+      return text;
+    }
+  });
+  pages.sort((a, b) => (a.page || 0) - (b.page || 0));
+  return {
+    format: 'pdf',
+    sections: pages.filter(section => section.text.trim().length > 0),
+    pages: result.numpages
+  };
+}
+
+/**
+ * Convert an uploaded file into plain text sections ready for chunking.
+ * Markdown is kept verbatim since its syntax is meaningful plain text.
+ */
+export async function extractText(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx': {
+      const result = await mammoth.extractRawText({ buffer });
+      return { format, sections: [{ text: result.value }] };
+    }
+    case 'html': {
+      const text = htmlToText(buffer.toString('utf8'), {
+        wordwrap: false,
+        selectors: [
+          { selector: 'a', options: { ignoreHref: true } },
+          { selector: 'img', format: 'skip' }
+        ]
+      });
+      return { format, sections: [{ text }] };
+    }
+    case 'markdown':
+    case 'text':
+      return { format, sections: [{ text: buffer.toString('utf8') }] };
+  }
+}
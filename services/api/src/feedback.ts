@@ -0,0 +1,194 @@
+import type { FastifyInstance } from 'fastify';
+import type {
+  AnswerOutcome,
+  AnswerRecord,
+  AuthUser,
+  FeedbackRequest,
+  FeedbackSummaryResponse
+} from '@ragika/shared';
+import { JsonStore } from './store';
+import { hasRole, requireRole } from './auth';
+import { feedbackBody, FeedbackSummaryQuery, feedbackSummaryQuery } from './schemas';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Phrases with which the LLM admits the context does not answer the question
+const UNKNOWN_ANSWER =
+  /\b(?:(?:i|we) (?:do not|don't|cannot|can't) (?:know|tell|say)|(?:couldn't|could not|cannot|can't|unable to) find|(?:no|not enough|insufficient) information|(?:context|sources?|documents?) (?:does|do) not (?:contain|mention|provide|say|include))\b/i;
+
+/**
+ * Classify a generated answer. Answers that admit not knowing are told apart
+ * from real ones by their wording, since the prompt asks the LLM to say so
+ * rather than guess.
+ */
+export function answerOutcome(answer: string, hadContext: boolean): AnswerOutcome {
+  if (!hadContext) return 'no_results';
+  return UNKNOWN_ANSWER.test(answer.replace(/[‘’]/g, "'")) ? 'unknown' : 'answered';
+}
+
+/** Questions differing only in case, spacing or final punctuation count as one */
+export function normaliseQuestion(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?.!]+$/, '')
+    .trim();
+}
+
+/** Feedback can only be given by the caller who received the answer */
+function isOwner(record: AnswerRecord, user: AuthUser): boolean {
+  return record.userId ? record.userId === user.id : hasRole(user, 'admin');
+}
+
+/**
+ * Summarise logged answers given since a date: feedback rates per category,
+ * the questions most often left unanswered, the documents most often cited
+ * by downvoted answers and the latest downvotes. Lists are cut to `limit`
+ * entries.
+ */
+export function summarizeFeedback(
+  records: AnswerRecord[],
+  options: { since?: string; limit: number }
+): FeedbackSummaryResponse {
+  const { since, limit } = options;
+  const selected = since ? records.filter(record => record.createdAt >= since) : records;
+  const totals = { answers: 0, rated: 0, up: 0, down: 0 };
+  const categories = new Map<string, FeedbackSummaryResponse['categories'][number]>();
+  const unanswered = new Map<string, FeedbackSummaryResponse['unanswered'][number]>();
+  const downvoted = new Map<string, FeedbackSummaryResponse['downvotedDocuments'][number]>();
+
+  for (const record of selected) {
+    const name = record.category || 'uncategorized';
+    let category = categories.get(name);
+    if (!category) {
+      category = { category: name, answers: 0, rated: 0, up: 0, down: 0 };
+      categories.set(name, category);
+    }
+    const rating = record.feedback?.rating;
+    for (const counts of [totals, category]) {
+      counts.answers++;
+      if (rating) {
+        counts.rated++;
+        counts[rating]++;
+      }
+    }
+    if (record.outcome !== 'answered') {
+      const key = normaliseQuestion(record.query);
+      const entry = unanswered.get(key);
+      if (!entry) {
+        unanswered.set(key, {
+          query: record.query,
+          count: 1,
+          outcome: record.outcome,
+          lastAskedAt: record.createdAt
+        });
+      } else {
+        entry.count++;
+        if (record.createdAt >= entry.lastAskedAt) {
+          entry.query = record.query;
+          entry.outcome = record.outcome;
+          entry.lastAskedAt = record.createdAt;
+        }
+      }
+    }
+    if (rating === 'down') {
+      // A document cited several times by one answer counts once
+      const cited = new Map(record.citedDocuments.map(doc => [doc.documentId, doc.title]));
+      for (const [documentId, title] of cited) {
+        const entry = downvoted.get(documentId) || { documentId, title, count: 0 };
+        entry.count++;
+        downvoted.set(documentId, entry);
+      }
+    }
+  }
+
+  return {
+    ...(since ? { since } : {}),
+    totals,
+    categories: [...categories.values()]
+      .map(category => ({
+        ...category,
+        upRate: category.rated > 0 ? category.up / category.rated : undefined
+      }))
+      .sort((a, b) => b.answers - a.answers || a.category.localeCompare(b.category)),
+    unanswered: [...unanswered.values()]
+      .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+      .slice(0, limit),
+    downvotedDocuments: [...downvoted.values()].sort((a, b) => b.count - a.count).slice(0, limit),
+    recentDownvotes: selected
+      .filter(record => record.feedback?.rating === 'down')
+      .sort((a, b) => b.feedback!.createdAt.localeCompare(a.feedback!.createdAt))
+      .slice(0, limit)
+  };
+}
+
+/**
+ * Routes for feedback on chat answers. Callers with the query role rate
+ * the answers they were given, thumbs up or down with an optional comment;
+ * rating an answer again replaces the earlier feedback. Admins get a
+ * summary of feedback and unanswered questions across all answers.
+ */
+export async function feedbackRoutes(
+  app: FastifyInstance,
+  options: { store: JsonStore<AnswerRecord> }
+): Promise<void> {
+  const { store } = options;
+
+  app.post<{ Params: { id: string }; Body: FeedbackRequest }>(
+    '/answers/:id/feedback',
+    { preHandler: requireRole('query'), schema: { body: feedbackBody } },
+    async (request, reply) => {
+      const { rating, comment } = request.body;
+      if (comment !== undefined && comment.length > MAX_COMMENT_LENGTH) {
+        return reply
+          .status(400)
+          .send({ error: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters` });
+      }
+      try {
+        const record = await store.get(request.params.id);
+        if (!record || !isOwner(record, request.principal!)) {
+          return reply.status(404).send({ error: 'answer not found' });
+        }
+        const updated: AnswerRecord = {
+          ...record,
+          feedback: {
+            rating,
+            ...(comment?.trim() ? { comment: comment.trim() } : {}),
+            createdAt: new Date().toISOString()
+          }
+        };
+        await store.put(updated);
+        return reply.send(updated);
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Save feedback error');
+        return reply.status(500).send({ error: 'Failed to save feedback' });
+      }
+    }
+  );
+
+  /**
+   * Summarise feedback, optionally only for answers given `since` a date.
+   * `limit` (default 10, at most 100) caps the lists of unanswered
+   * questions, downvoted documents and recent downvotes.
+   */
+  app.get<{ Querystring: FeedbackSummaryQuery }>(
+    '/feedback/summary',
+    { preHandler: requireRole('admin'), schema: { querystring: feedbackSummaryQuery } },
+    async (request, reply) => {
+      const { since, limit } = request.query;
+      if (since !== undefined && Number.isNaN(Date.parse(since))) {
+        return reply.status(400).send({ error: 'since must be a date' });
+      }
+      try {
+        const summary = summarizeFeedback(await store.list(), {
+          since: since === undefined ? undefined : new Date(since).toISOString(),
+          limit
+        });
+        return reply.send(summary);
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'Feedback summary error');
+        return reply.status(500).send({ error: 'Failed to summarise feedback' });
+      }
+    }
+  );
+}
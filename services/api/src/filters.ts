@@ -0,0 +1,201 @@
+import type { FilterExpression, FilterRange, MetadataValue } from '@ragika/shared';
+
+const DOCUMENT_FIELDS = ['category', 'title', 'tags', 'documentId', 'createdAt'];
+const METADATA_PREFIX = 'metadata.';
+const METADATA_KEY = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_DEPTH = 8;
+const MAX_VALUES = 100;
+const MAX_TAGS = 50;
+const MAX_METADATA_KEYS = 50;
+
+/** Schemas a metadata field can be indexed with in the vector store */
+export const PAYLOAD_INDEX_TYPES = ['keyword', 'integer', 'float', 'bool', 'datetime'] as const;
+export type PayloadIndexType = (typeof PAYLOAD_INDEX_TYPES)[number];
+
+function isField(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  if (DOCUMENT_FIELDS.includes(value)) return true;
+  return value.startsWith(METADATA_PREFIX) && METADATA_KEY.test(value.slice(METADATA_PREFIX.length));
+}
+
+function isMetadataValue(value: unknown): value is MetadataValue {
+  return (
+    typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+function validateRange(range: FilterRange, path: string): string | null {
+  const bounds = (['gt', 'gte', 'lt', 'lte'] as const)
+    .map(name => range[name])
+    .filter(bound => bound !== undefined);
+  if (bounds.length === 0) {
+    return `${path}.range needs at least one of gt, gte, lt, lte`;
+  }
+  const numeric = bounds.every(bound => typeof bound === 'number' && Number.isFinite(bound));
+  const dates = bounds.every(bound => typeof bound === 'string' && !Number.isNaN(Date.parse(bound)));
+  if (!numeric && !dates) {
+    return `${path}.range bounds must all be numbers or all be ISO 8601 dates`;
+  }
+  return null;
+}
+
+function validateExpression(expression: any, path: string, depth: number): string | null {
+  if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+    return `${path} must be an object`;
+  }
+  if (depth > MAX_DEPTH) {
+    return `filter nests more than ${MAX_DEPTH} levels deep`;
+  }
+  for (const operator of ['and', 'or'] as const) {
+    if (operator in expression) {
+      const operands = expression[operator];
+      if (!Array.isArray(operands) || operands.length === 0) {
+        return `${path}.${operator} must be a non-empty array`;
+      }
+      for (let i = 0; i < operands.length; i++) {
+        const error = validateExpression(operands[i], `${path}.${operator}[${i}]`, depth + 1);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+  if ('not' in expression) {
+    return validateExpression(expression.not, `${path}.not`, depth + 1);
+  }
+  if (!isField(expression.field)) {
+    return `${path}.field must be one of ${DOCUMENT_FIELDS.join(', ')} or metadata.<key>`;
+  }
+  if ('eq' in expression) {
+    return isMetadataValue(expression.eq) ? null : `${path}.eq must be a string, number or boolean`;
+  }
+  if ('in' in expression) {
+    const values = expression.in;
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      values.length > MAX_VALUES ||
+      !values.every(value => typeof value === 'string' || Number.isInteger(value))
+    ) {
+      return `${path}.in must be a list of 1 to ${MAX_VALUES} strings or integers`;
+    }
+    return null;
+  }
+  if ('range' in expression && expression.range && typeof expression.range === 'object') {
+    return validateRange(expression.range, path);
+  }
+  return `${path} must have one of and, or, not, eq, in, range`;
+}
+
+/**
+ * Check a client supplied filter expression. Returns a message describing
+ * the first problem found, or null when the filter is usable.
+ */
+export function validateFilter(filter: unknown): string | null {
+  if (filter === undefined) return null;
+  return validateExpression(filter, 'filter', 1);
+}
+
+/**
+ * Check the tags and custom metadata supplied with a document. Metadata
+ * keys are restricted to letters, digits, `_` and `-` so they can be used
+ * as `metadata.<key>` in filters.
+ */
+export function validateMetadata(tags: unknown, metadata: unknown): string | null {
+  if (tags !== undefined) {
+    const valid = Array.isArray(tags) && tags.every(tag => typeof tag === 'string' && tag.trim());
+    if (!valid || tags.length > MAX_TAGS) {
+      return `tags must be a list of at most ${MAX_TAGS} non-empty strings`;
+    }
+  }
+  if (metadata !== undefined) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return 'metadata must be an object';
+    }
+    const entries = Object.entries(metadata);
+    if (entries.length > MAX_METADATA_KEYS) {
+      return `metadata may have at most ${MAX_METADATA_KEYS} keys`;
+    }
+    for (const [key, value] of entries) {
+      if (!METADATA_KEY.test(key)) {
+        return `metadata key "${key}" may only contain letters, digits, _ and -`;
+      }
+      if (!isMetadataValue(value)) {
+        return `metadata.${key} must be a string, number or boolean`;
+      }
+    }
+  }
+  return null;
+}
+
+/** Combine filters so that all of them must match; undefined when there are none */
+export function allOf(...filters: (FilterExpression | undefined)[]): FilterExpression | undefined {
+  const present = filters.filter((filter): filter is FilterExpression => filter !== undefined);
+  if (present.length <= 1) return present[0];
+  return { and: present };
+}
+
+function fieldValues(payload: Record<string, any>, field: string): unknown[] {
+  const value = field.startsWith(METADATA_PREFIX)
+    ? payload.metadata?.[field.slice(METADATA_PREFIX.length)]
+    : payload[field];
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function compare(value: unknown, bound: number | string): number | null {
+  if (typeof bound === 'number') {
+    return typeof value === 'number' ? value - bound : null;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time - Date.parse(bound);
+}
+
+function inRange(value: unknown, range: FilterRange): boolean {
+  const checks: [number | string | undefined, (diff: number) => boolean][] = [
+    [range.gt, diff => diff > 0],
+    [range.gte, diff => diff >= 0],
+    [range.lt, diff => diff < 0],
+    [range.lte, diff => diff <= 0]
+  ];
+  return checks.every(([bound, test]) => {
+    if (bound === undefined) return true;
+    const diff = compare(value, bound);
+    return diff !== null && test(diff);
+  });
+}
+
+/**
+ * Evaluate a filter against a chunk payload the way Qdrant does: a
+ * condition on a list field such as `tags` holds if it holds for any
+ * element, and conditions on missing fields do not hold.
+ */
+export function matchesFilter(payload: Record<string, any>, filter: FilterExpression): boolean {
+  if ('and' in filter) return filter.and.every(operand => matchesFilter(payload, operand));
+  if ('or' in filter) return filter.or.some(operand => matchesFilter(payload, operand));
+  if ('not' in filter) return !matchesFilter(payload, filter.not);
+  const values = fieldValues(payload, filter.field);
+  if ('eq' in filter) return values.includes(filter.eq);
+  if ('in' in filter) return values.some(value => filter.in.includes(value as string | number));
+  return values.some(value => inRange(value, filter.range));
+}
+
+/**
+ * Parse the metadata fields to index from a spec such as
+ * `region:keyword,year:integer`. Throws on malformed entries so that a
+ * misconfigured server fails at startup.
+ */
+export function parsePayloadIndexes(spec: string): Record<string, PayloadIndexType> {
+  const indexes: Record<string, PayloadIndexType> = {};
+  const entries = spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean);
+  for (const entry of entries) {
+    const [key, type] = entry.split(':').map(part => part.trim());
+    if (!METADATA_KEY.test(key) || !(PAYLOAD_INDEX_TYPES as readonly string[]).includes(type)) {
+      throw new Error(`Invalid metadata index "${entry}"; expected <key>:<${PAYLOAD_INDEX_TYPES.join('|')}>`);
+    }
+    indexes[`${METADATA_PREFIX}${key}`] = type as PayloadIndexType;
+  }
+  return indexes;
+}
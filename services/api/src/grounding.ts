@@ -0,0 +1,119 @@
+import type { Citation, GroundingReport, SentenceGrounding } from '@ragika/shared';
+import { tokenize } from './sparse';
+
+// Citation markers such as "[2]" or "[1, 3]", with the whitespace before
+// them. Longer bracketed numbers, such as a year in "[2023]", are never
+// citations and are left in the text.
+const MARKER = /\s*\[(\d{1,2}(?:\s*,\s*\d{1,2})*)\]/g;
+// A single marker, as markers read after renumbering
+const CITED = /\[(\d{1,2})\]/g;
+
+// Function words, contraction fragments and the vocabulary of "I don't
+// know" replies carry no factual content and are ignored when scoring
+const STOPWORDS = new Set(
+  (
+    'don doesn didn isn aren wasn couldn can t s re ve ll d m know sorry unable find information relevant question ' +
+    'a an and are as at be been but by can could did do does for from had has have he her his how i if in ' +
+    'into is it its may might must no not of on or our she should so such than that the their them then ' +
+    'there these they this those to was we were what when where which who why will with would you your ' +
+    'also about all any each more most other some only very just based according context provided answer'
+  ).split(' ')
+);
+
+export interface VerifiedAnswer {
+  /** Answer with invalid markers removed and valid ones renumbered */
+  answer: string;
+  /** Citations referenced by the answer, in the order of the new numbering */
+  citations: Citation[];
+  grounding: GroundingReport;
+}
+
+function contentTerms(text: string): string[] {
+  return tokenize(text).filter(term => !STOPWORDS.has(term));
+}
+
+/**
+ * Split an answer into sentences. Citation markers written after the full
+ * stop ("... twenty days. [2]") are kept with the sentence they follow.
+ */
+function splitSentences(answer: string): string[] {
+  const sentences: string[] = [];
+  for (const part of answer.split(/(?<=[.!?])\s+|\n+/)) {
+    const leading = /^(\s*\[\d{1,2}\])+/.exec(part);
+    if (leading && sentences.length > 0) {
+      sentences[sentences.length - 1] += leading[0];
+      const rest = part.slice(leading[0].length).trim();
+      if (rest) sentences.push(rest);
+    } else if (part.trim()) {
+      sentences.push(part.trim());
+    }
+  }
+  return sentences;
+}
+
+/**
+ * Check the citations in a generated answer against the contexts it was
+ * given. Markers referring to a context that does not exist are removed
+ * and reported, the citations actually used are renumbered in order of
+ * first use, and every sentence gets a grounding score: the fraction of its
+ * content words found in the contexts it cites (or in all contexts, for a
+ * sentence without citations). Lexical overlap is a cheap proxy for
+ * entailment, but it reliably catches answers drawn from outside the
+ * provided context. Answers with an overall score below `threshold` are
+ * flagged.
+ */
+export function verifyAnswer(answer: string, contexts: Citation[], threshold: number): VerifiedAnswer {
+  const invalid = new Set<number>();
+  const renumber = new Map<number, number>();
+  const rewritten = answer.replace(MARKER, (match, list: string) => {
+    const leading = match.slice(0, match.indexOf('['));
+    const numbers = list.split(',').map(n => Number(n.trim()));
+    const mapped: number[] = [];
+    for (const n of numbers) {
+      if (n < 1 || n > contexts.length) {
+        invalid.add(n);
+        continue;
+      }
+      if (!renumber.has(n)) {
+        renumber.set(n, renumber.size + 1);
+      }
+      const next = renumber.get(n)!;
+      if (!mapped.includes(next)) mapped.push(next);
+    }
+    return mapped.length > 0 ? `${leading}${mapped.map(n => `[${n}]`).join('')}` : '';
+  });
+  const citations = [...renumber.keys()].map(n => contexts[n - 1]);
+  const contextTerms = citations.map(citation => new Set(contentTerms(citation.text || '')));
+  const allTerms = new Set(contexts.flatMap(context => contentTerms(context.text || '')));
+
+  const sentences: SentenceGrounding[] = [];
+  let weighted = 0;
+  let totalTerms = 0;
+  for (const sentence of splitSentences(rewritten)) {
+    const cited = [...new Set([...sentence.matchAll(CITED)].map(match => Number(match[1])))];
+    const terms = [...new Set(contentTerms(sentence.replace(CITED, '')))];
+    if (terms.length === 0) continue;
+    const support = new Set<string>();
+    if (cited.length > 0) {
+      for (const n of cited) {
+        contextTerms[n - 1].forEach(term => support.add(term));
+      }
+    }
+    const source = cited.length > 0 ? support : allTerms;
+    const score = terms.filter(term => source.has(term)).length / terms.length;
+    sentences.push({ text: sentence, score, citations: cited });
+    weighted += score * terms.length;
+    totalTerms += terms.length;
+  }
+  const score = totalTerms > 0 ? weighted / totalTerms : undefined;
+  return {
+    answer: rewritten.trim(),
+    citations,
+    grounding: {
+      score,
+      lowGrounding: score !== undefined && score < threshold,
+      sentences,
+      invalidCitations: [...invalid].sort((a, b) => a - b)
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+
+/** Picks the category of an imported file from its relative path; undefined when it has none */
+export type CategoryResolver = (filePath: string) => string | undefined;
+
+function normaliseFolder(folder: string): string {
+  return folder
+    .replace(/\\/g, '/')
+    .replace(/^\.?\/+/, '')
+    .replace(/\/+$/, '')
+    .replace(/^\.$/, '');
+}
+
+/**
+ * Read a category mapping file: a JSON object from folder paths, relative
+ * to the import root, to categories. `"."` maps files outside every other
+ * folder listed.
+ *
+ *   { "policies/hr": "hr", "policies": "general", "it": "it-support" }
+ */
+export async function loadCategoryMapping(file: string): Promise<Record<string, string>> {
+  const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${file}: expected a JSON object mapping folders to categories`);
+  }
+  for (const [folder, category] of Object.entries(parsed)) {
+    if (typeof category !== 'string' || !category.trim()) {
+      throw new Error(`${file}: category for "${folder}" must be a non-empty string`);
+    }
+  }
+  return parsed as Record<string, string>;
+}
+
+/**
+ * Build the category resolver for an import. A fixed category applies to
+ * every file. With a mapping the deepest listed folder containing the file
+ * decides. Otherwise the file's top-level folder names its category and
+ * files at the root have none.
+ */
+export function categoryResolver(options: {
+  category?: string;
+  mapping?: Record<string, string>;
+}): CategoryResolver {
+  const { category, mapping } = options;
+  if (category) {
+    return () => category;
+  }
+  if (mapping) {
+    const rules = Object.entries(mapping)
+      .map(([folder, mapped]) => ({ folder: normaliseFolder(folder), category: mapped }))
+      .sort((a, b) => b.folder.length - a.folder.length);
+    return filePath => {
+      const folder = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+      return rules.find(
+        rule => !rule.folder || folder === rule.folder || folder.startsWith(`${rule.folder}/`)
+      )?.category;
+    };
+  }
+  return filePath => (filePath.includes('/') ? filePath.slice(0, filePath.indexOf('/')) : undefined);
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { IngestStatus } from '@ragika/shared';
+import { ingestJobs, IngestOptions, planIngest, submitIngest } from '../app';
+import { detectFormat, extractText } from '../extract';
+import { mapConcurrent } from '../jobs';
+import { CategoryResolver, categoryResolver, loadCategoryMapping } from './categories';
+import { listSourceFiles, SourceFile } from './sources';
+
+/**
+ * Bulk import command. Ingests every supported file of a directory or a
+ * zip or tar archive through the same pipeline as /ingest/file. Each file
+ * is keyed by its relative path as external ID, so files whose content has
+ * not changed since an earlier import are reported as unchanged and not
+ * embedded again. The category comes from --category, from a --mapping
+ * file of folders to categories, or else from each file's top-level
+ * folder. --dry-run reports what would be ingested without changing
+ * anything.
+ *
+ * The command writes to the same data directory and vector store as the
+ * API, so run it with the same environment and while the API is stopped.
+ *
+ *   npm run import -w services/api -- <directory|archive> [--category <name> | --mapping <file.json>]
+ *     [--id-prefix <prefix>] [--concurrency 2] [--dry-run] [--report report.json]
+ */
+
+const USAGE =
+  'Usage: npm run import -w services/api -- <directory|archive> [--category <name> | --mapping <file.json>] [--id-prefix <prefix>] [--concurrency 2] [--dry-run] [--report report.json]';
+
+interface Options {
+  source: string;
+  category?: string;
+  mapping?: string;
+  idPrefix: string;
+  concurrency: number;
+  dryRun: boolean;
+  report?: string;
+}
+
+type FileStatus = IngestStatus | 'skipped' | 'failed';
+
+interface FileOutcome {
+  path: string;
+  status: FileStatus;
+  category?: string;
+  documentId?: string;
+  chunks?: number;
+  /** Why the file was skipped or failed */
+  reason?: string;
+}
+
+export interface ImportReport {
+  createdAt: string;
+  source: string;
+  dryRun: boolean;
+  /** Number of files with each status */
+  summary: Record<FileStatus, number>;
+  files: FileOutcome[];
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { source: '', idPrefix: '', concurrency: 2, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} requires a value`);
+      return argv[++i];
+    };
+    if (arg === '--category') {
+      options.category = value();
+    } else if (arg === '--mapping') {
+      options.mapping = value();
+    } else if (arg === '--id-prefix') {
+      options.idPrefix = value();
+    } else if (arg === '--concurrency') {
+      options.concurrency = Number(value());
+      if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+        throw new Error('--concurrency must be a positive integer');
+      }
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--report') {
+      options.report = value();
+    } else if (arg.startsWith('--')) {
+      throw new Error(`unknown option ${arg}`);
+    } else if (!options.source) {
+      options.source = arg;
+    } else {
+      throw new Error(`unexpected argument ${arg}`);
+    }
+  }
+  if (!options.source) throw new Error('a directory or archive is required');
+  if (options.category && options.mapping) throw new Error('--category and --mapping cannot be combined');
+  return options;
+}
+
+async function importFile(
+  file: SourceFile,
+  resolveCategory: CategoryResolver,
+  options: Options
+): Promise<FileOutcome> {
+  const category = resolveCategory(file.path);
+  if (!category) {
+    return { path: file.path, status: 'skipped', reason: 'no category' };
+  }
+  const format = detectFormat(file.path);
+  if (!format) {
+    return { path: file.path, status: 'skipped', category, reason: 'unsupported file type' };
+  }
+  try {
+    const extracted = await extractText(await file.read(), format);
+    if (!extracted.sections.some(section => section.text.trim())) {
+      return { path: file.path, status: 'skipped', category, reason: 'no text' };
+    }
+    const ingestOptions: IngestOptions = {
+      category,
+      title: path.posix.basename(file.path),
+      chunking: format === 'markdown' ? { strategy: 'markdown' } : undefined,
+      externalId: `${options.idPrefix}${file.path}`,
+      format,
+      pages: extracted.pages
+    };
+    if (options.dryRun) {
+      const plan = await planIngest(extracted.sections, ingestOptions);
+      return 'unchanged' in plan
+        ? { path: file.path, status: 'unchanged', category, documentId: plan.unchanged.documentId }
+        : { path: file.path, status: plan.status, category };
+    }
+    const submission = await submitIngest(extracted.sections, ingestOptions);
+    if ('unchanged' in submission) {
+      return { path: file.path, status: 'unchanged', category, documentId: submission.unchanged.documentId };
+    }
+    const job = await ingestJobs.wait(submission.job.id);
+    if (job.status === 'failed' || !job.result) {
+      return { path: file.path, status: 'failed', category, reason: job.error };
+    }
+    const { status, documentId, chunks } = job.result;
+    return { path: file.path, status, category, documentId, chunks };
+  } catch (err: any) {
+    return { path: file.path, status: 'failed', category, reason: err.message || String(err) };
+  }
+}
+
+function printOutcome(outcome: FileOutcome, dryRun: boolean) {
+  const pending = dryRun && (outcome.status === 'created' || outcome.status === 'updated');
+  const label = pending ? `would be ${outcome.status}` : outcome.status;
+  const details = [
+    outcome.category,
+    outcome.chunks !== undefined ? `${outcome.chunks} chunks` : undefined,
+    outcome.reason
+  ].filter(Boolean);
+  console.log(`${label.padEnd(16)} ${outcome.path}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+}
+
+async function main() {
+  let options: Options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(`${err.message}\n${USAGE}`);
+    process.exit(2);
+  }
+  const mapping = options.mapping ? await loadCategoryMapping(options.mapping) : undefined;
+  const resolveCategory = categoryResolver({ category: options.category, mapping });
+  const files = await listSourceFiles(options.source);
+  const outcomes = await mapConcurrent(files, options.concurrency, async file => {
+    const outcome = await importFile(file, resolveCategory, options);
+    printOutcome(outcome, options.dryRun);
+    return outcome;
+  });
+  const report: ImportReport = {
+    createdAt: new Date().toISOString(),
+    source: options.source,
+    dryRun: options.dryRun,
+    summary: { created: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 },
+    files: outcomes.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []))
+  };
+  for (const file of report.files) {
+    report.summary[file.status]++;
+  }
+  const counts = Object.entries(report.summary).map(([status, count]) => `${count} ${status}`);
+  console.log(`\n${options.dryRun ? 'Dry run of' : 'Imported'} ${files.length} files: ${counts.join(', ')}`);
+  for (const file of report.files.filter(file => file.status === 'failed')) {
+    console.log(`Failed: ${file.path}: ${file.reason}`);
+  }
+  if (options.report) {
+    await fs.writeFile(options.report, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${options.report}`);
+  }
+  return report.summary.failed > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err.message || err);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import JSZip from 'jszip';
+
+/** A file found in a directory or archive being imported */
+export interface SourceFile {
+  /** Path relative to the directory or archive root, with `/` separators */
+  path: string;
+  read(): Promise<Buffer>;
+}
+
+// Hidden files and the resource forks macOS adds to zip files are never imported
+function isIgnored(relativePath: string): boolean {
+  return relativePath.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+async function walkDirectory(root: string, dir = ''): Promise<SourceFile[]> {
+  const files: SourceFile[] = [];
+  for (const entry of await fs.readdir(path.join(root, dir), { withFileTypes: true })) {
+    const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await walkDirectory(root, relativePath)));
+    } else if (entry.isFile()) {
+      files.push({ path: relativePath, read: () => fs.readFile(path.join(root, relativePath)) });
+    }
+  }
+  return files;
+}
+
+async function readZip(buffer: Buffer): Promise<SourceFile[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  return Object.values(zip.files)
+    .filter(entry => !entry.dir)
+    .map(entry => ({ path: entry.name, read: () => entry.async('nodebuffer') }));
+}
+
+/**
+ * Read the regular files of a tar archive. Handles ustar name prefixes and
+ * the long names written by GNU tar and as pax headers.
+ */
+export function readTar(buffer: Buffer): SourceFile[] {
+  const files: SourceFile[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  while (offset + 512 <= buffer.length) {
+    const header = buffer.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+    const field = (start: number, length: number) =>
+      header.toString('utf8', start, start + length).replace(/\0[\s\S]*$/, '');
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const type = field(156, 1) || '0';
+    const data = buffer.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+    if (type === 'L') {
+      longName = data.toString('utf8').replace(/\0[\s\S]*$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)/.exec(data.toString('utf8'))?.[1] ?? longName;
+      continue;
+    }
+    // Regular files only; directories, links and global headers are skipped
+    if (type === '0' || type === '7') {
+      const prefix = field(257, 6).startsWith('ustar') ? field(345, 155) : '';
+      const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+      files.push({ path: name, read: async () => data });
+    }
+    longName = undefined;
+  }
+  return files;
+}
+
+/**
+ * List the files to import from a directory, a zip file or a tar archive
+ * (optionally gzip compressed, as .tar.gz or .tgz), in path order.
+ * Archives are read into memory as a whole. Hidden files are skipped.
+ */
+export async function listSourceFiles(source: string): Promise<SourceFile[]> {
+  const stat = await fs.stat(source);
+  let files: SourceFile[];
+  if (stat.isDirectory()) {
+    files = await walkDirectory(source);
+  } else {
+    const name = source.toLowerCase();
+    const buffer = await fs.readFile(source);
+    if (name.endsWith('.zip')) {
+      files = await readZip(buffer);
+    } else if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+      files = readTar(gunzipSync(buffer));
+    } else if (name.endsWith('.tar')) {
+      files = readTar(buffer);
+    } else {
+      throw new Error(`${source} is not a directory, .zip, .tar, .tar.gz or .tgz file`);
+    }
+  }
+  return files
+    .map(file => ({ ...file, path: file.path.replace(/^\.\//, '') }))
+    .filter(file => !isIgnored(file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,353 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FastifyInstance } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import type { IngestJob, IngestJobListResponse, IngestTextResponse } from '@ragika/shared';
+import { JsonStore } from './store';
+import { canAccessCategory, requireRole } from './auth';
+import { log, logger, runWithLogger } from './telemetry';
+import { JobListQuery, jobListQuery } from './schemas';
+
+/** Progress reported by a running job */
+export interface JobProgress {
+  totalChunks: number;
+  completedChunks: number;
+}
+
+/**
+ * Processes the input of a job, reporting progress as chunks are stored.
+ * Throws a ChunkFailureError when some chunks could not be processed.
+ */
+export type JobRunner<Input> = (
+  input: Input,
+  report: (progress: JobProgress) => Promise<void>
+) => Promise<IngestTextResponse>;
+
+/** Raised by a job runner when some of the document's chunks failed */
+export class ChunkFailureError extends Error {
+  constructor(
+    message: string,
+    readonly failedChunks: number
+  ) {
+    super(message);
+    this.name = 'ChunkFailureError';
+  }
+}
+
+interface Waiter {
+  resolve: (job: IngestJob) => void;
+  reject: (err: unknown) => void;
+}
+
+function isFinished(job: IngestJob): boolean {
+  return job.status === 'done' || job.status === 'failed';
+}
+
+/**
+ * Call `fn` until it succeeds, at most `retries` more times after the first
+ * failure, doubling the delay between attempts. Errors `retryable` rejects
+ * are rethrown at once, as is the last error.
+ */
+export async function withRetries<T>(
+  fn: () => Promise<T>,
+  retries: number,
+  delayMs: number,
+  retryable: (err: unknown) => boolean = () => true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= retries || !retryable(err)) throw err;
+      await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Apply `fn` to every item with at most `concurrency` calls in flight.
+ * Every item is processed even if some fail; the outcomes are returned in
+ * input order.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      try {
+        results[idx] = { status: 'fulfilled', value: await fn(items[idx]) };
+      } catch (reason) {
+        results[idx] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Persistent queue of ingestion jobs. Job records live in a JsonStore and
+ * the input of each job in its own file next to it, so queued and running
+ * jobs are picked up again when the server restarts. At most `concurrency`
+ * jobs run at once, and jobs for the same document one after the other in
+ * the order they were queued. The input of a failed job is kept so that it
+ * can be retried; the runner is expected to reuse whatever the failed
+ * attempt already stored.
+ */
+export class JobQueue<Input> {
+  private readonly pending: Pick<IngestJob, 'id' | 'documentId'>[] = [];
+  private readonly running = new Map<string, Promise<void>>();
+  /** Documents with a job running */
+  private readonly busy = new Set<string>();
+  private readonly waiters = new Map<string, Waiter[]>();
+  /** Why jobs that could not be started failed, for waiters arriving afterwards */
+  private readonly startFailures = new Map<string, unknown>();
+  private closed = false;
+
+  constructor(
+    private readonly store: JsonStore<IngestJob>,
+    private readonly inputDir: string,
+    private readonly runner: JobRunner<Input>,
+    private readonly concurrency: number
+  ) {}
+
+  private inputFile(id: string): string {
+    return path.join(this.inputDir, `${id}.json`);
+  }
+
+  private async update(job: IngestJob, changes: Partial<IngestJob>): Promise<IngestJob> {
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    await this.store.put(updated);
+    return updated;
+  }
+
+  private schedule(job: IngestJob): void {
+    this.startFailures.delete(job.id);
+    this.pending.push({ id: job.id, documentId: job.documentId });
+    this.pump();
+  }
+
+  private pump(): void {
+    while (!this.closed && this.running.size < this.concurrency) {
+      // The oldest job whose document is not being ingested already
+      const next = this.pending.findIndex(job => !this.busy.has(job.documentId));
+      if (next < 0) return;
+      const [{ id, documentId }] = this.pending.splice(next, 1);
+      this.busy.add(documentId);
+      const run = runWithLogger(logger.child({ jobId: id }), () =>
+        this.execute(id).catch(err => {
+          log().error({ error: err.message || err }, 'Ingest job could not be run');
+          this.startFailures.set(id, err);
+          this.settle(id, waiter => waiter.reject(err));
+        })
+      ).finally(() => {
+        this.running.delete(id);
+        this.busy.delete(documentId);
+        this.pump();
+      });
+      this.running.set(id, run);
+    }
+  }
+
+  private settle(id: string, notify: (waiter: Waiter) => void): void {
+    for (const waiter of this.waiters.get(id) || []) notify(waiter);
+    this.waiters.delete(id);
+  }
+
+  private async execute(id: string): Promise<void> {
+    const queued = await this.store.get(id);
+    if (!queued || queued.status !== 'queued') return;
+    // A new attempt starts without the outcome of the previous one
+    let job = await this.update(queued, {
+      status: 'running',
+      attempts: queued.attempts + 1,
+      failedChunks: 0,
+      error: undefined,
+      result: undefined
+    });
+    try {
+      const input = JSON.parse(await fs.readFile(this.inputFile(id), 'utf8')) as Input;
+      // Reports from concurrent batches are applied in the order they are made
+      const result = await this.runner(input, progress => {
+        const percent = progress.totalChunks ? (progress.completedChunks / progress.totalChunks) * 100 : 0;
+        job = { ...job, ...progress, progress: Math.floor(percent), updatedAt: new Date().toISOString() };
+        return this.store.put(job);
+      });
+      job = await this.update(job, { status: 'done', progress: 100, result });
+      await fs.rm(this.inputFile(id), { force: true });
+    } catch (err: any) {
+      log().error({ error: err.message || err }, 'Ingest job failed');
+      job = await this.update(job, {
+        status: 'failed',
+        error: err.message || String(err),
+        failedChunks:
+          err instanceof ChunkFailureError ? err.failedChunks : job.totalChunks - job.completedChunks
+      });
+    }
+    this.settle(id, waiter => waiter.resolve(job));
+  }
+
+  /** Queue a job for the given document and input */
+  async enqueue(
+    fields: Pick<IngestJob, 'documentId' | 'category' | 'title'>,
+    input: Input
+  ): Promise<IngestJob> {
+    const now = new Date().toISOString();
+    const job: IngestJob = {
+      id: uuidv4(),
+      ...fields,
+      status: 'queued',
+      progress: 0,
+      totalChunks: 0,
+      completedChunks: 0,
+      failedChunks: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await fs.mkdir(this.inputDir, { recursive: true });
+    await fs.writeFile(this.inputFile(job.id), JSON.stringify(input));
+    await this.store.put(job);
+    this.schedule(job);
+    return job;
+  }
+
+  async get(id: string): Promise<IngestJob | undefined> {
+    return this.store.get(id);
+  }
+
+  async list(): Promise<IngestJob[]> {
+    return this.store.list();
+  }
+
+  /** The input of a job that is unfinished or has failed */
+  async input(id: string): Promise<Input | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.inputFile(id), 'utf8')) as Input;
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Resolve with the job once it is done or has failed; rejects if the job
+   * could not be run at all, e.g. because its record could not be saved
+   */
+  async wait(id: string): Promise<IngestJob> {
+    const job = await this.store.get(id);
+    if (!job) throw new Error(`unknown job ${id}`);
+    if (isFinished(job)) return job;
+    if (this.startFailures.has(id)) throw this.startFailures.get(id);
+    return new Promise((resolve, reject) =>
+      this.waiters.set(id, [...(this.waiters.get(id) || []), { resolve, reject }])
+    );
+  }
+
+  /** Queue a failed job again; returns undefined unless the job exists and has failed */
+  async retry(id: string): Promise<IngestJob | undefined> {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'failed') return undefined;
+    const queued = await this.update(job, { status: 'queued' });
+    this.schedule(queued);
+    return queued;
+  }
+
+  /** Queue the jobs left queued or running when the server last stopped */
+  async resume(): Promise<void> {
+    const unfinished = (await this.store.list())
+      .filter(job => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of unfinished) {
+      if (job.status === 'running') await this.update(job, { status: 'queued' });
+      this.schedule(job);
+    }
+  }
+
+  /** Stop starting jobs and wait for the running ones to finish */
+  async close(): Promise<void> {
+    this.closed = true;
+    await Promise.all(this.running.values());
+  }
+}
+
+/**
+ * Routes reporting the status of ingestion jobs and retrying failed ones.
+ * Callers need the ingest role and only see jobs for categories they may
+ * access.
+ */
+export async function ingestJobRoutes(
+  app: FastifyInstance,
+  options: { queue: JobQueue<any> }
+): Promise<void> {
+  const { queue } = options;
+
+  app.addHook('preHandler', requireRole('ingest'));
+
+  /**
+   * List jobs, newest first, optionally only those with the given
+   * `status`. Paginated through `limit` (at most 100) and `offset`.
+   */
+  app.get<{ Querystring: JobListQuery }>(
+    '/ingest/jobs',
+    { schema: { querystring: jobListQuery } },
+    async (request, reply) => {
+      const { status, limit, offset } = request.query;
+      try {
+        const matching = (await queue.list())
+          .filter(job => !status || job.status === status)
+          .filter(job => canAccessCategory(request.principal!, job.category))
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        const response: IngestJobListResponse = {
+          jobs: matching.slice(offset, offset + limit),
+          total: matching.length,
+          limit,
+          offset
+        };
+        return reply.send(response);
+      } catch (err: any) {
+        request.log.error({ error: err.message || err }, 'List jobs error');
+        return reply.status(500).send({ error: 'Failed to list jobs' });
+      }
+    }
+  );
+
+  app.get<{ Params: { id: string } }>('/ingest/jobs/:id', async (request, reply) => {
+    try {
+      const job = await queue.get(request.params.id);
+      if (!job || !canAccessCategory(request.principal!, job.category)) {
+        return reply.status(404).send({ error: 'job not found' });
+      }
+      return reply.send(job);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Get job error');
+      return reply.status(500).send({ error: 'Failed to fetch job' });
+    }
+  });
+
+  /**
+   * Run a failed job again. Chunks stored by the failed attempt are kept,
+   * so only the chunks that failed are embedded again.
+   */
+  app.post<{ Params: { id: string } }>('/ingest/jobs/:id/retry', async (request, reply) => {
+    try {
+      const job = await queue.get(request.params.id);
+      if (!job || !canAccessCategory(request.principal!, job.category)) {
+        return reply.status(404).send({ error: 'job not found' });
+      }
+      const queued = await queue.retry(job.id);
+      if (!queued) {
+        return reply.status(409).send({ error: `only failed jobs can be retried; job is ${job.status}` });
+      }
+      return reply.status(202).send(queued);
+    } catch (err: any) {
+      request.log.error({ error: err.message || err }, 'Retry job error');
+      return reply.status(500).send({ error: 'Failed to retry job' });
+    }
+  });
+}
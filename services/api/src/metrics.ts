@@ -0,0 +1,147 @@
+/**
+ * Minimal Prometheus instrumentation: counters, gauges and histograms with
+ * labels, rendered in the text exposition format that /metrics serves.
+ * Label sets are kept as sorted `name="value"` strings, so the same labels
+ * given in any order update the same series.
+ */
+
+export type Labels = Record<string, string>;
+
+/** Latency buckets in seconds, from a cache hit up to a slow generation */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${escapeLabel(labels[name])}"`)
+    .join(',');
+}
+
+function series(name: string, labels: string, value: number): string {
+  return `${name}${labels ? `{${labels}}` : ''} ${value}`;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabelledMetric implements Metric {
+  protected readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly type: 'counter' | 'gauge'
+  ) {}
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.values].map(([labels, value]) => series(this.name, labels, value))
+    ];
+  }
+}
+
+/** Value that only goes up, such as a number of requests or errors */
+export class Counter extends LabelledMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  /** Take over a total counted elsewhere, from a collector */
+  setTotal(labels: Labels, total: number): void {
+    this.values.set(formatLabels(labels), total);
+  }
+}
+
+/** Value that goes up and down, such as whether a dependency is reachable */
+export class Gauge extends LabelledMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), value);
+  }
+}
+
+/** Distribution of observed values, such as latencies, over fixed buckets */
+export class Histogram implements Metric {
+  private readonly values = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /** Number of values observed with the given labels */
+  count(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [labels, entry] of this.values) {
+      const prefix = labels ? `${labels},` : '';
+      this.buckets.forEach((bound, i) => {
+        lines.push(series(`${this.name}_bucket`, `${prefix}le="${bound}"`, entry.buckets[i]));
+      });
+      lines.push(series(`${this.name}_bucket`, `${prefix}le="+Inf"`, entry.count));
+      lines.push(series(`${this.name}_sum`, labels, entry.sum));
+      lines.push(series(`${this.name}_count`, labels, entry.count));
+    }
+    return lines;
+  }
+}
+
+/**
+ * The metrics served together. Collectors run before rendering to bring
+ * metrics kept elsewhere, such as cache statistics, up to date.
+ */
+export class Registry {
+  private readonly metrics: Metric[] = [];
+  private readonly collectors: (() => void)[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collect of this.collectors) collect();
+    return `${this.metrics.flatMap(metric => metric.render()).join('\n')}\n`;
+  }
+}
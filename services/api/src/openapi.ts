@@ -0,0 +1,97 @@
+import type { FastifyInstance, RouteOptions } from 'fastify';
+import type { JsonSchema } from './schemas';
+
+/**
+ * OpenAPI 3 description of the API, built from the routes as they are
+ * registered: their query strings and JSON bodies are described by the
+ * same schemas Fastify validates requests with, so the document cannot
+ * drift from what the server accepts. Routes registered before
+ * `serveOpenApi` is called are missing from it.
+ */
+
+interface DocumentedRoute {
+  method: string;
+  url: string;
+  schema: Record<string, JsonSchema | undefined>;
+}
+
+/** Build the document for the given routes */
+export function buildOpenApiDocument(routes: DocumentedRoute[], info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, object>> = {};
+  for (const route of routes) {
+    // `/documents/:id` becomes `/documents/{id}`
+    const path = route.url.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+    const { querystring, body } = route.schema;
+    const pathParameters = [...route.url.matchAll(/:([A-Za-z0-9_]+)/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' }
+    }));
+    const parameters = [...pathParameters, ...queryParameters(querystring)];
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: {
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(body
+          ? { requestBody: { required: true, content: { 'application/json': { schema: body } } } }
+          : {}),
+        responses: {
+          default: {
+            description: 'Success, or an error described by `error` and, for upstream failures, `code`'
+          }
+        }
+      }
+    };
+  }
+  return {
+    openapi: '3.0.3',
+    info,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    },
+    // Without an auth file every route is open
+    security: [{ bearerAuth: [] }, { apiKey: [] }, {}],
+    paths
+  };
+}
+
+function queryParameters(schema: JsonSchema | undefined) {
+  const properties = (schema?.properties || {}) as Record<string, JsonSchema>;
+  const required = (schema?.required || []) as string[];
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: 'query',
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema
+    };
+  });
+}
+
+/**
+ * Record the routes registered on `app` from now on and serve their
+ * description at `GET /openapi.json`, which needs no credentials.
+ */
+export function serveOpenApi(app: FastifyInstance, info: { title: string; version: string }): void {
+  const routes: DocumentedRoute[] = [];
+  app.addHook('onRoute', (route: RouteOptions) => {
+    const methods = Array.isArray(route.method) ? route.method : [route.method];
+    for (const method of methods) {
+      // HEAD routes mirror GET ones, and CORS answers preflight requests
+      if (method === 'HEAD' || method === 'OPTIONS' || route.url === '/openapi.json') continue;
+      routes.push({ method, url: route.url, schema: (route.schema || {}) as DocumentedRoute['schema'] });
+    }
+  });
+  let document: object | undefined;
+  app.get('/openapi.json', async (_request, reply) => {
+    // Every route is known once the server is ready
+    document ??= buildOpenApiDocument(routes, info);
+    return reply.send(document);
+  });
+}
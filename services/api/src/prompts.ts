@@ -0,0 +1,237 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type { ChatPrompt } from './providers';
+
+/** Values substituted into a prompt template when a question is answered */
+export interface PromptVariables {
+  /** Retrieved contexts, numbered [1], [2], … for citation */
+  context: string;
+  question: string;
+  /** Earlier turns of the conversation; empty for a first question */
+  history: string;
+  /** Language the answer should be written in */
+  language: string;
+}
+
+const VARIABLES = ['context', 'question', 'history', 'language'];
+
+/**
+ * A named, versioned prompt for answering questions. `system` holds the
+ * instructions and `user` the turn carrying the question; both may use
+ * `{{variable}}` placeholders, and `{{#variable}}…{{/variable}}` sections
+ * that are left out when the variable is empty.
+ */
+export interface PromptTemplate {
+  name: string;
+  /** Bumped whenever the wording changes, so answers can be traced to it */
+  version: string;
+  description?: string;
+  /** Categories whose questions use this template unless a request picks another */
+  categories?: string[];
+  system: string;
+  user: string;
+}
+
+/** Template used unless configured otherwise */
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+  name: 'default',
+  version: '1',
+  description: 'Concise answers citing the numbered contexts',
+  system:
+    "You are an institutional knowledge assistant. Use the context provided to answer the question. Respond in a concise and clear manner. Cite the source of your information using the bracketed numbers corresponding to the context. If you do not know the answer based on the context, say you don't know. Answer in {{language}}.",
+  user: '{{#history}}Conversation so far:\n{{history}}\n\n{{/history}}Context:\n{{context}}\n\nQuestion: {{question}}\nAnswer:'
+};
+
+const TAG = /\{\{([#/]?)([a-z]+)\}\}/g;
+const SECTION = /\{\{#([a-z]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/** Name and version identifying a template, e.g. `default@1` */
+export function templateVersion(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Check the placeholders of one template text: every tag must name a
+ * known variable and sections must be closed, without nesting.
+ */
+function validateText(text: string, field: string, where: string): void {
+  let open: string | null = null;
+  for (const match of text.matchAll(TAG)) {
+    const [, kind, name] = match;
+    if (!VARIABLES.includes(name)) {
+      throw new Error(
+        `${where}: unknown variable "${name}" in ${field}; expected one of ${VARIABLES.join(', ')}`
+      );
+    }
+    if (kind === '#') {
+      if (open) throw new Error(`${where}: section "${name}" in ${field} is nested in section "${open}"`);
+      open = name;
+    } else if (kind === '/') {
+      if (open !== name) throw new Error(`${where}: section "${name}" in ${field} is closed but not open`);
+      open = null;
+    }
+  }
+  if (open) {
+    throw new Error(`${where}: section "${open}" in ${field} is not closed`);
+  }
+  if (text.replace(TAG, '').includes('{{')) {
+    throw new Error(`${where}: malformed placeholder in ${field}; use {{variable}}`);
+  }
+}
+
+/**
+ * Check a template read from `where`, throwing an error that names the
+ * problem. The user turn must include the context and the question.
+ */
+export function validateTemplate(template: any, where: string): PromptTemplate {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    throw new Error(`${where}: expected a JSON object`);
+  }
+  if (typeof template.name !== 'string' || !/^[A-Za-z0-9][\w.-]*$/.test(template.name)) {
+    throw new Error(`${where}: name must be letters, digits, dots, dashes or underscores`);
+  }
+  if (typeof template.version !== 'string' || !template.version.trim()) {
+    throw new Error(`${where}: version must be a non-empty string`);
+  }
+  if (template.description !== undefined && typeof template.description !== 'string') {
+    throw new Error(`${where}: description must be a string`);
+  }
+  if (
+    template.categories !== undefined &&
+    (!Array.isArray(template.categories) || template.categories.some((c: unknown) => typeof c !== 'string'))
+  ) {
+    throw new Error(`${where}: categories must be an array of strings`);
+  }
+  for (const field of ['system', 'user']) {
+    if (typeof template[field] !== 'string') {
+      throw new Error(`${where}: ${field} must be a string`);
+    }
+    validateText(template[field], field, where);
+  }
+  for (const variable of ['context', 'question']) {
+    if (!template.user.includes(`{{${variable}}}`)) {
+      throw new Error(`${where}: user must include {{${variable}}}`);
+    }
+  }
+  return template as PromptTemplate;
+}
+
+function render(text: string, variables: PromptVariables): string {
+  const values = variables as unknown as Record<string, string>;
+  return text
+    .replace(SECTION, (_, name: string, body: string) => (values[name] ? body : ''))
+    .replace(TAG, (_, _kind: string, name: string) => values[name]);
+}
+
+/** Fill in a template's placeholders, giving the system and user messages */
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): ChatPrompt {
+  return { system: render(template.system, variables), user: render(template.user, variables) };
+}
+
+/**
+ * The prompt templates available to chat queries. A request may name the
+ * template to use; otherwise the template listing the request's category
+ * applies, and the default template for everything else.
+ */
+export class PromptLibrary {
+  private readonly templates = new Map<string, PromptTemplate>();
+  private readonly byCategory = new Map<string, PromptTemplate>();
+  readonly defaultTemplate: PromptTemplate;
+
+  constructor(templates: PromptTemplate[], defaultName: string) {
+    for (const template of templates) {
+      this.templates.set(template.name, template);
+    }
+    for (const template of this.templates.values()) {
+      for (const category of template.categories || []) {
+        const other = this.byCategory.get(category);
+        if (other) {
+          throw new Error(
+            `Category "${category}" is assigned to both the ${other.name} and ${template.name} templates`
+          );
+        }
+        this.byCategory.set(category, template);
+      }
+    }
+    const defaultTemplate = this.templates.get(defaultName);
+    if (!defaultTemplate) {
+      throw new Error(`Default prompt template "${defaultName}" does not exist`);
+    }
+    this.defaultTemplate = defaultTemplate;
+  }
+
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /** Template for a question, by requested name, then by category */
+  select(name?: string, category?: string): PromptTemplate {
+    if (name) {
+      const template = this.templates.get(name);
+      if (!template) throw new Error(`Unknown prompt template "${name}"`);
+      return template;
+    }
+    return (category && this.byCategory.get(category)) || this.defaultTemplate;
+  }
+}
+
+const MAX_LANGUAGE_LENGTH = 40;
+
+/**
+ * Check the prompt options of a chat query. Returns a message describing
+ * the first problem found, or null when they are usable.
+ */
+export function validatePromptOptions(
+  request: { promptTemplate?: unknown; language?: unknown },
+  library: PromptLibrary
+): string | null {
+  const { promptTemplate, language } = request;
+  if (promptTemplate !== undefined && (typeof promptTemplate !== 'string' || !library.has(promptTemplate))) {
+    return `unknown prompt template ${JSON.stringify(promptTemplate)}`;
+  }
+  if (
+    language !== undefined &&
+    (typeof language !== 'string' || !language.trim() || language.length > MAX_LANGUAGE_LENGTH)
+  ) {
+    return `language must be a non-empty string of at most ${MAX_LANGUAGE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Load the prompt templates from a directory of JSON files, one template
+ * per file, alongside the built-in `default` template, which a file may
+ * replace. Every template is validated here so that a broken one stops
+ * the server at startup.
+ *
+ *   { "name": "hr", "version": "2", "categories": ["hr"],
+ *     "system": "You answer HR questions… Answer in {{language}}.",
+ *     "user": "Context:\n{{context}}\n\nQuestion: {{question}}" }
+ */
+export function loadPromptLibrary(dir: string | undefined, defaultName: string): PromptLibrary {
+  const templates = new Map<string, PromptTemplate>([[DEFAULT_TEMPLATE.name, DEFAULT_TEMPLATE]]);
+  if (dir) {
+    const files = readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .sort();
+    const loaded = new Map<string, string>();
+    for (const file of files) {
+      const where = path.join(dir, file);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(readFileSync(where, 'utf8'));
+      } catch (err: any) {
+        throw new Error(`${where}: ${err.message}`);
+      }
+      const template = validateTemplate(parsed, where);
+      if (loaded.has(template.name)) {
+        throw new Error(
+          `${where}: template "${template.name}" is also defined in ${loaded.get(template.name)}`
+        );
+      }
+      loaded.set(template.name, where);
+      templates.set(template.name, template);
+    }
+  }
+  return new PromptLibrary([...templates.values()], defaultName);
+}
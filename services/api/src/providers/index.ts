@@ -0,0 +1,136 @@
+import type { Embedder, Generator, Reranker, VectorStore } from './types';
+import type { PayloadIndexType } from '../filters';
+import { TeiEmbedder, TeiReranker } from './tei';
+import { OllamaGenerator } from './ollama';
+import { OpenAiGenerator } from './openai';
+import { QdrantVectorStore } from './qdrant';
+import { ExtractiveGenerator, HashEmbedder, InMemoryVectorStore } from './memory';
+
+export type {
+  ChatPrompt,
+  ChunkPayload,
+  Embedder,
+  GenerateOptions,
+  Generator,
+  PayloadFilter,
+  Prompt,
+  Reranker,
+  SearchHit,
+  StoredPoint,
+  VectorPoint,
+  VectorStore
+} from './types';
+export { TeiEmbedder, TeiReranker } from './tei';
+export { OllamaGenerator } from './ollama';
+export { OpenAiGenerator } from './openai';
+export { QdrantVectorStore } from './qdrant';
+export { ExtractiveGenerator, HashEmbedder, InMemoryVectorStore } from './memory';
+
+/** An LLM to generate answers with */
+export interface LlmEndpoint {
+  provider: string;
+  baseUrl: string;
+  model: string;
+}
+
+export interface ProviderConfig {
+  /** Timeouts are in milliseconds; providers without a service ignore them */
+  embeddings: { provider: string; baseUrl: string; dimension: number; timeoutMs?: number };
+  rerank: { provider: string; baseUrl: string; timeoutMs?: number };
+  /**
+   * `contextWindow` is the prompt and answer size, in tokens, the LLM is
+   * run with. `fallbacks` are tried in order when the LLM fails, with the
+   * same context window and timeout.
+   */
+  llm: LlmEndpoint & { contextWindow?: number; timeoutMs?: number; fallbacks?: LlmEndpoint[] };
+  vectorStore: {
+    provider: string;
+    url: string;
+    collection: string;
+    /** Additional payload fields to index, e.g. `metadata.region` */
+    payloadIndexes?: Record<string, PayloadIndexType>;
+  };
+}
+
+export interface Providers {
+  embedder: Embedder;
+  /** Null when results are used in retrieval order */
+  reranker: Reranker | null;
+  generator: Generator;
+  /** LLMs to try in order when `generator` fails */
+  fallbackGenerators: Generator[];
+  vectorStore: VectorStore;
+}
+
+/**
+ * Registries of provider implementations. Adding a provider means
+ * implementing its interface and registering a factory here; the `hash`,
+ * `none`, `extractive` and `memory` entries need no external service.
+ */
+const EMBEDDERS: Record<string, (config: ProviderConfig) => Embedder> = {
+  tei: ({ embeddings }) => new TeiEmbedder(embeddings.baseUrl, embeddings.dimension, embeddings.timeoutMs),
+  hash: ({ embeddings }) => new HashEmbedder(embeddings.dimension)
+};
+
+const RERANKERS: Record<string, (config: ProviderConfig) => Reranker | null> = {
+  tei: ({ rerank }) => new TeiReranker(rerank.baseUrl, rerank.timeoutMs),
+  none: () => null
+};
+
+const GENERATORS: Record<string, (endpoint: LlmEndpoint, config: ProviderConfig) => Generator> = {
+  ollama: ({ baseUrl, model }, { llm }) =>
+    new OllamaGenerator(baseUrl, model, llm.contextWindow, llm.timeoutMs),
+  openai_compat: ({ baseUrl, model }, { llm }) => new OpenAiGenerator(baseUrl, model, llm.timeoutMs),
+  extractive: () => new ExtractiveGenerator()
+};
+
+const VECTOR_STORES: Record<string, (config: ProviderConfig, dimension: number) => VectorStore> = {
+  qdrant: ({ vectorStore }, dimension) =>
+    new QdrantVectorStore(vectorStore.url, vectorStore.collection, dimension, vectorStore.payloadIndexes),
+  memory: () => new InMemoryVectorStore()
+};
+
+function pick<T>(registry: Record<string, T>, kind: string, name: string): T {
+  if (!Object.prototype.hasOwnProperty.call(registry, name)) {
+    throw new Error(`Unknown ${kind} provider "${name}"; expected one of ${Object.keys(registry).join(', ')}`);
+  }
+  return registry[name];
+}
+
+/**
+ * Parse fallback LLMs from a spec such as
+ * `openai_compat|http://vllm:8000|mistral-7b,ollama|http://backup:11434|llama3.1:8b`.
+ * Throws on malformed entries so that a misconfigured server fails at
+ * startup.
+ */
+export function parseLlmEndpoints(spec: string): LlmEndpoint[] {
+  return spec
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, baseUrl, model, ...rest] = entry.split('|').map(part => part.trim());
+      if (!provider || !baseUrl || !model || rest.length > 0) {
+        throw new Error(`Invalid LLM endpoint "${entry}"; expected <provider>|<base URL>|<model>`);
+      }
+      pick(GENERATORS, 'LLM', provider);
+      return { provider, baseUrl, model };
+    });
+}
+
+/**
+ * Instantiate the providers named in the configuration. Throws on unknown
+ * provider names so that a misconfigured server fails at startup.
+ */
+export function createProviders(config: ProviderConfig): Providers {
+  const embedder = pick(EMBEDDERS, 'embeddings', config.embeddings.provider)(config);
+  return {
+    embedder,
+    reranker: pick(RERANKERS, 'rerank', config.rerank.provider)(config),
+    generator: pick(GENERATORS, 'LLM', config.llm.provider)(config.llm, config),
+    fallbackGenerators: (config.llm.fallbacks ?? []).map(endpoint =>
+      pick(GENERATORS, 'LLM', endpoint.provider)(endpoint, config)
+    ),
+    vectorStore: pick(VECTOR_STORES, 'vector store', config.vectorStore.provider)(config, embedder.dimension)
+  };
+}
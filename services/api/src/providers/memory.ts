@@ -0,0 +1,175 @@
+import type { FilterExpression } from '@ragika/shared';
+import { SparseVector, termIndex, tokenize } from '../sparse';
+import { matchesFilter } from '../filters';
+import {
+  Embedder,
+  Generator,
+  PayloadFilter,
+  Prompt,
+  SearchHit,
+  StoredPoint,
+  toChatPrompt,
+  VectorPoint,
+  VectorStore
+} from './types';
+
+/**
+ * Deterministic embedder that needs no model: every term and character
+ * trigram of the text is hashed to a signed position of the vector, and
+ * the result is L2 normalised. Texts sharing vocabulary get similar
+ * vectors, which is enough for development and tests.
+ */
+export class HashEmbedder implements Embedder {
+  constructor(readonly dimension: number) {}
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const term of tokenize(text)) {
+      const features = [term];
+      const padded = ` ${term} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`#${padded.slice(i, i + 3)}`);
+      }
+      for (const feature of features) {
+        const hash = termIndex(feature);
+        vector[hash % this.dimension] += hash & 0x80000000 ? -1 : 1;
+      }
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  async check(): Promise<void> {}
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function matches(point: VectorPoint, filter: PayloadFilter | undefined): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, value]) => (point.payload as any)[key] === value);
+}
+
+/**
+ * Vector store kept in process memory and searched by brute force. Dense
+ * search ranks by cosine similarity; sparse search applies the same IDF
+ * weighting Qdrant uses for its `idf` modifier, computed over the stored
+ * points. Contents are lost when the process exits.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private readonly points = new Map<string, VectorPoint>();
+
+  async ensureReady(): Promise<void> {}
+
+  async check(): Promise<void> {}
+
+  async supportsSparse(): Promise<boolean> {
+    return true;
+  }
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    for (const point of points) {
+      this.points.set(point.id, point);
+    }
+  }
+
+  private rank(scored: { point: VectorPoint; score: number }[], limit: number): SearchHit[] {
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ point, score }) => ({ id: point.id, payload: point.payload, score }));
+  }
+
+  async searchDense(vector: number[], filter: FilterExpression | undefined, limit: number): Promise<SearchHit[]> {
+    const scored = [...this.points.values()]
+      .filter(point => !filter || matchesFilter(point.payload, filter))
+      .map(point => ({ point, score: cosine(vector, point.dense) }));
+    return this.rank(scored, limit);
+  }
+
+  async searchSparse(
+    vector: SparseVector,
+    filter: FilterExpression | undefined,
+    limit: number
+  ): Promise<SearchHit[]> {
+    const all = [...this.points.values()];
+    const idf = new Map<number, number>();
+    for (const index of vector.indices) {
+      const containing = all.filter(point => point.sparse.indices.includes(index)).length;
+      idf.set(index, Math.log(1 + (all.length - containing + 0.5) / (containing + 0.5)));
+    }
+    const scored = all
+      .filter(point => !filter || matchesFilter(point.payload, filter))
+      .map(point => {
+        let score = 0;
+        vector.indices.forEach((index, i) => {
+          const position = point.sparse.indices.indexOf(index);
+          if (position !== -1) {
+            score += idf.get(index)! * vector.values[i] * point.sparse.values[position];
+          }
+        });
+        return { point, score };
+      })
+      .filter(({ score }) => score > 0);
+    return this.rank(scored, limit);
+  }
+
+  async scroll(filter: PayloadFilter, withVectors = false): Promise<StoredPoint[]> {
+    return [...this.points.values()]
+      .filter(point => matches(point, filter))
+      .map(point => ({ id: point.id, payload: point.payload, ...(withVectors ? { dense: point.dense } : {}) }));
+  }
+
+  async deletePoints(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.points.delete(id);
+    }
+  }
+
+  async deleteWhere(filter: PayloadFilter): Promise<void> {
+    for (const point of [...this.points.values()]) {
+      if (matches(point, filter)) this.points.delete(point.id);
+    }
+  }
+}
+
+/**
+ * Generator that needs no model. It answers by quoting the first sentence
+ * of the first numbered context in the prompt, citing it as [1]; prompts
+ * without contexts, such as query rewriting, get their question back.
+ * Useful for exercising the pipeline end to end.
+ */
+export class ExtractiveGenerator implements Generator {
+  async generate(chatPrompt: Prompt): Promise<string> {
+    const prompt = toChatPrompt(chatPrompt).user;
+    const context = /^\[1\] (.+)$/m.exec(prompt);
+    if (context) {
+      const sentence = /^.*?[.!?](?=\s|$)/.exec(context[1]);
+      return `${(sentence ? sentence[0] : context[1]).trim()} [1]`;
+    }
+    const questions = [...prompt.matchAll(/^(?:Follow-up question|Question): (.+)$/gm)];
+    return questions.length > 0 ? questions[questions.length - 1][1] : '';
+  }
+
+  async *stream(prompt: Prompt): AsyncGenerator<string> {
+    const answer = await this.generate(prompt);
+    for (const word of answer.split(/(?<= )/)) {
+      yield word;
+    }
+  }
+
+  async check(): Promise<void> {}
+}
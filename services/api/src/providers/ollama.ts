@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { Generator, Prompt, toChatPrompt } from './types';
+import { readLines } from './stream';
+
+/** Generator backed by Ollama's `/api/generate` endpoint */
+export class OllamaGenerator implements Generator {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly contextWindow?: number,
+    private readonly timeoutMs = 300000
+  ) {}
+
+  /**
+   * System instructions replace the model's default system prompt. The
+   * context window is set explicitly since Ollama otherwise truncates
+   * prompts longer than its small default without an error.
+   */
+  private body(prompt: Prompt, stream: boolean) {
+    const { system, user } = toChatPrompt(prompt);
+    return {
+      model: this.model,
+      prompt: user,
+      ...(system ? { system } : {}),
+      ...(this.contextWindow ? { options: { num_ctx: this.contextWindow } } : {}),
+      stream
+    };
+  }
+
+  async generate(prompt: Prompt): Promise<string> {
+    const res = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      this.body(prompt, false),
+      { timeout: this.timeoutMs }
+    );
+    return res.data.response as string;
+  }
+
+  /** Ollama streams newline-delimited JSON objects */
+  async *stream(prompt: Prompt): AsyncGenerator<string> {
+    const res = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      this.body(prompt, true),
+      { timeout: this.timeoutMs, responseType: 'stream' }
+    );
+    for await (const line of readLines(res.data)) {
+      if (!line.trim()) continue;
+      const data = JSON.parse(line);
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      if (data.response) {
+        yield data.response as string;
+      }
+      if (data.done) {
+        return;
+      }
+    }
+  }
+
+  /** The model must have been pulled; names without a tag mean `latest` */
+  async check(): Promise<void> {
+    const res = await axios.get(`${this.baseUrl}/api/tags`, { timeout: 5000 });
+    const names = ((res.data?.models || []) as { name: string }[]).map(model => model.name);
+    const wanted = this.model.includes(':') ? this.model : `${this.model}:latest`;
+    if (!names.includes(wanted)) {
+      throw new Error(`model ${this.model} has not been pulled`);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { Generator, Prompt, toChatPrompt } from './types';
+import { readLines } from './stream';
+
+/** Generator backed by an OpenAI-compatible `/v1/chat/completions` endpoint */
+export class OpenAiGenerator implements Generator {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly timeoutMs = 300000
+  ) {}
+
+  /** System instructions go in a message of their own, ahead of the user turn */
+  private body(prompt: Prompt) {
+    const { system, user } = toChatPrompt(prompt);
+    return {
+      model: this.model,
+      messages: [...(system ? [{ role: 'system', content: system }] : []), { role: 'user', content: user }],
+      temperature: 0.2,
+      top_p: 0.95
+    };
+  }
+
+  async generate(prompt: Prompt): Promise<string> {
+    const res = await axios.post(`${this.baseUrl}/v1/chat/completions`, this.body(prompt), {
+      timeout: this.timeoutMs
+    });
+    if (res.data && res.data.choices && res.data.choices.length > 0) {
+      return res.data.choices[0].message.content as string;
+    }
+    throw new Error('Invalid response from LLM provider');
+  }
+
+  /** OpenAI-compatible endpoints stream Server-Sent Events terminated by a `[DONE]` sentinel */
+  async *stream(prompt: Prompt): AsyncGenerator<string> {
+    const res = await axios.post(
+      `${this.baseUrl}/v1/chat/completions`,
+      { ...this.body(prompt), stream: true },
+      { timeout: this.timeoutMs, responseType: 'stream' }
+    );
+    for await (const line of readLines(res.data)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') {
+        return;
+      }
+      const data = JSON.parse(payload);
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta as string;
+      }
+    }
+  }
+
+  async check(): Promise<void> {
+    await axios.get(`${this.baseUrl}/v1/models`, { timeout: 5000 });
+  }
+}
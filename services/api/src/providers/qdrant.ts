@@ -0,0 +1,255 @@
+import axios from 'axios';
+import type { FilterExpression } from '@ragika/shared';
+import type { SparseVector } from '../sparse';
+import type { PayloadIndexType } from '../filters';
+import type { ChunkPayload, PayloadFilter, SearchHit, StoredPoint, VectorPoint, VectorStore } from './types';
+
+/**
+ * Vector layout of the Qdrant collection. Collections created by this
+ * version hold a named dense vector plus a sparse BM25 vector; collections
+ * created before hybrid retrieval hold a single unnamed dense vector and
+ * can only be searched densely.
+ */
+interface CollectionLayout {
+  /** Name of the dense vector, or null for an unnamed vector */
+  denseName: string | null;
+  /** Whether the collection has a sparse vector for lexical search */
+  sparse: boolean;
+}
+
+const DENSE_VECTOR = 'dense';
+const SPARSE_VECTOR = 'sparse';
+
+// Payload fields indexed in every collection, for filtering
+const PAYLOAD_INDEXES: Record<string, PayloadIndexType> = {
+  documentId: 'keyword',
+  category: 'keyword',
+  title: 'keyword',
+  tags: 'keyword',
+  createdAt: 'datetime'
+};
+
+/** Translate a payload filter into a Qdrant filter */
+function toQdrantFilter(filter: PayloadFilter | undefined) {
+  if (!filter) return undefined;
+  const must = Object.entries(filter).map(([key, value]) => ({ key, match: { value } }));
+  return must.length > 0 ? { must } : undefined;
+}
+
+/** Translate a filter expression into a Qdrant condition or nested filter */
+function toQdrantCondition(filter: FilterExpression): object {
+  if ('and' in filter) return { must: filter.and.map(toQdrantCondition) };
+  if ('or' in filter) return { should: filter.or.map(toQdrantCondition) };
+  if ('not' in filter) return { must_not: [toQdrantCondition(filter.not)] };
+  if ('in' in filter) return { key: filter.field, match: { any: filter.in } };
+  if ('range' in filter) return { key: filter.field, range: filter.range };
+  return { key: filter.field, match: { value: filter.eq } };
+}
+
+/** Translate a filter expression into a Qdrant search filter */
+function toQdrantSearchFilter(filter: FilterExpression | undefined) {
+  if (!filter) return undefined;
+  const condition = toQdrantCondition(filter);
+  return 'key' in condition ? { must: [condition] } : condition;
+}
+
+/** Vector store backed by a Qdrant collection, accessed over its REST API */
+export class QdrantVectorStore implements VectorStore {
+  private layout: CollectionLayout | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly collection: string,
+    private readonly dimension: number,
+    /** Additional payload fields to index, e.g. `metadata.region` */
+    private readonly payloadIndexes: Record<string, PayloadIndexType> = {}
+  ) {}
+
+  private get collectionUrl(): string {
+    return `${this.url}/collections/${this.collection}`;
+  }
+
+  /**
+   * Ensure that the collection exists. If it does not exist, create it with
+   * the embedder's vector size and cosine distance, plus a sparse vector
+   * whose IDF weighting is computed by Qdrant. Payload indexes for the
+   * filterable fields are created when missing, so collections created by
+   * earlier versions gain them too. This is idempotent and refreshes the
+   * cached vector layout of the collection.
+   */
+  async ensureReady(): Promise<void> {
+    let res;
+    try {
+      res = await axios.get(this.collectionUrl, { timeout: 60000 });
+    } catch (err) {
+      // Other failures, such as Qdrant being down, are passed on to be retried
+      if (!axios.isAxiosError(err) || err.response?.status !== 404) throw err;
+      // Collection does not exist – create it
+      await axios.put(
+        this.collectionUrl,
+        {
+          vectors: {
+            [DENSE_VECTOR]: {
+              size: this.dimension,
+              distance: 'Cosine'
+            }
+          },
+          sparse_vectors: {
+            [SPARSE_VECTOR]: {
+              modifier: 'idf'
+            }
+          }
+        },
+        { timeout: 60000 }
+      );
+      await this.createPayloadIndexes({});
+      this.layout = { denseName: DENSE_VECTOR, sparse: true };
+      return;
+    }
+    const result = res.data?.result || {};
+    const params = result.config?.params || {};
+    const named = params.vectors && typeof params.vectors.size !== 'number';
+    await this.createPayloadIndexes(result.payload_schema || {});
+    this.layout = {
+      denseName: named ? DENSE_VECTOR : null,
+      sparse: Boolean(params.sparse_vectors?.[SPARSE_VECTOR])
+    };
+  }
+
+  /** Ask Qdrant whether it is ready, without touching the collection */
+  async check(): Promise<void> {
+    await axios.get(`${this.url}/readyz`, { timeout: 5000 });
+  }
+
+  /** Index the payload fields used in filters that are not indexed yet */
+  private async createPayloadIndexes(existing: Record<string, unknown>): Promise<void> {
+    for (const [field, schema] of Object.entries({ ...PAYLOAD_INDEXES, ...this.payloadIndexes })) {
+      if (existing[field]) continue;
+      await axios.put(
+        `${this.collectionUrl}/index?wait=true`,
+        { field_name: field, field_schema: schema },
+        { timeout: 60000 }
+      );
+    }
+  }
+
+  private async getLayout(): Promise<CollectionLayout> {
+    if (!this.layout) {
+      await this.ensureReady();
+    }
+    return this.layout!;
+  }
+
+  async supportsSparse(): Promise<boolean> {
+    return (await this.getLayout()).sparse;
+  }
+
+  /**
+   * Build the vector field of a point for the collection layout: a bare
+   * dense vector for legacy collections, named vectors otherwise.
+   */
+  private pointVector(layout: CollectionLayout, dense: number[], sparse: SparseVector) {
+    if (layout.denseName === null) {
+      return dense;
+    }
+    return {
+      [layout.denseName]: dense,
+      ...(layout.sparse ? { [SPARSE_VECTOR]: sparse } : {})
+    };
+  }
+
+  private toStoredPoint(layout: CollectionLayout, point: any): StoredPoint {
+    const vector = layout.denseName === null ? point.vector : point.vector?.[layout.denseName];
+    return {
+      id: point.id.toString(),
+      payload: point.payload as ChunkPayload,
+      ...(Array.isArray(vector) ? { dense: vector } : {})
+    };
+  }
+
+  async upsert(points: VectorPoint[]): Promise<void> {
+    if (points.length === 0) return;
+    const layout = await this.getLayout();
+    await axios.put(
+      `${this.collectionUrl}/points?wait=true`,
+      {
+        points: points.map(point => ({
+          id: point.id,
+          payload: point.payload,
+          vector: this.pointVector(layout, point.dense, point.sparse)
+        }))
+      },
+      { timeout: 60000 }
+    );
+  }
+
+  /** Run a single search with the given (possibly named) query vector */
+  private async search(vector: unknown, filter: FilterExpression | undefined, limit: number): Promise<SearchHit[]> {
+    const searchRes = await axios.post(
+      `${this.collectionUrl}/points/search`,
+      {
+        vector,
+        limit,
+        with_payload: true,
+        with_vector: false,
+        filter: toQdrantSearchFilter(filter)
+      },
+      { timeout: 60000 }
+    );
+    return (searchRes.data?.result || []).map((hit: any) => ({
+      id: hit.id.toString(),
+      payload: hit.payload as ChunkPayload,
+      score: hit.score as number
+    }));
+  }
+
+  async searchDense(vector: number[], filter: FilterExpression | undefined, limit: number): Promise<SearchHit[]> {
+    const layout = await this.getLayout();
+    return this.search(layout.denseName === null ? vector : { name: layout.denseName, vector }, filter, limit);
+  }
+
+  async searchSparse(
+    vector: SparseVector,
+    filter: FilterExpression | undefined,
+    limit: number
+  ): Promise<SearchHit[]> {
+    if (!(await this.supportsSparse())) return [];
+    return this.search({ name: SPARSE_VECTOR, vector }, filter, limit);
+  }
+
+  /** Scroll through the points matching a filter, one page at a time */
+  async scroll(filter: PayloadFilter, withVectors = false): Promise<StoredPoint[]> {
+    const layout = await this.getLayout();
+    const points: StoredPoint[] = [];
+    let offset: string | number | null | undefined = undefined;
+    do {
+      const res: any = await axios.post(
+        `${this.collectionUrl}/points/scroll`,
+        {
+          filter: toQdrantFilter(filter),
+          limit: 256,
+          offset,
+          with_payload: true,
+          with_vector: withVectors
+        },
+        { timeout: 60000 }
+      );
+      points.push(...(res.data?.result?.points || []).map((point: any) => this.toStoredPoint(layout, point)));
+      offset = res.data?.result?.next_page_offset;
+    } while (offset !== null && offset !== undefined);
+    return points;
+  }
+
+  async deletePoints(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await axios.post(`${this.collectionUrl}/points/delete?wait=true`, { points: ids }, { timeout: 60000 });
+  }
+
+  async deleteWhere(filter: PayloadFilter): Promise<void> {
+    await axios.post(
+      `${this.collectionUrl}/points/delete?wait=true`,
+      { filter: toQdrantFilter(filter) },
+      { timeout: 60000 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Split a byte stream into lines. Chunks from the network may end in the
+ * middle of a line, so partial lines are buffered until their newline
+ * arrives; likewise a multi-byte character split across chunks is decoded
+ * once all its bytes are in. Empty lines are yielded as well since SSE
+ * uses them as event separators.
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.length > 0) {
+    yield buffer;
+  }
+}
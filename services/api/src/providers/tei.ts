@@ -0,0 +1,51 @@
+import axios from 'axios';
+import type { Embedder, Reranker } from './types';
+
+/**
+ * Embedder backed by a Text Embeddings Inference server (`/embed`). If the
+ * service errors, the exception propagates to the caller.
+ */
+export class TeiEmbedder implements Embedder {
+  constructor(
+    private readonly baseUrl: string,
+    readonly dimension: number,
+    private readonly timeoutMs = 30000
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await axios.post(
+      `${this.baseUrl}/embed`,
+      { inputs: texts },
+      { timeout: this.timeoutMs }
+    );
+    // Most TEI endpoints return { embeddings: number[][] }
+    if (response.data && Array.isArray(response.data.embeddings)) {
+      return response.data.embeddings as number[][];
+    }
+    throw new Error('Invalid response from embeddings service');
+  }
+
+  async check(): Promise<void> {
+    await axios.get(`${this.baseUrl}/health`, { timeout: 5000 });
+  }
+}
+
+/** Cross-encoder reranker backed by a Text Embeddings Inference server (`/rerank`) */
+export class TeiReranker implements Reranker {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs = 30000
+  ) {}
+
+  async rerank(query: string, texts: string[]): Promise<number[]> {
+    const res = await axios.post(`${this.baseUrl}/rerank`, { query, texts }, { timeout: this.timeoutMs });
+    if (res.data && Array.isArray(res.data.scores)) {
+      return res.data.scores as number[];
+    }
+    throw new Error('Invalid response from rerank service');
+  }
+
+  async check(): Promise<void> {
+    await axios.get(`${this.baseUrl}/health`, { timeout: 5000 });
+  }
+}
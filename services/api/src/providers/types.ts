@@ -0,0 +1,115 @@
+import type { FilterExpression, MetadataValue } from '@ragika/shared';
+import type { SparseVector } from '../sparse';
+
+/** Converts texts into dense embedding vectors */
+export interface Embedder {
+  /** Length of the vectors produced */
+  readonly dimension: number;
+  /** Embed texts, returning one vector per text in the same order */
+  embed(texts: string[]): Promise<number[][]>;
+  /** Throw if the service cannot be reached, for readiness checks */
+  check(): Promise<void>;
+}
+
+/** Scores texts by relevance to a query, typically with a cross-encoder */
+export interface Reranker {
+  /** Relevance score of each text, in input order; higher is more relevant */
+  rerank(query: string, texts: string[]): Promise<number[]>;
+  /** Throw if the service cannot be reached, for readiness checks */
+  check(): Promise<void>;
+}
+
+/**
+ * A prompt split into the system instructions and the user turn, for
+ * models that take them separately. A plain string prompt is a user turn
+ * without system instructions.
+ */
+export interface ChatPrompt {
+  system: string;
+  user: string;
+}
+
+export type Prompt = string | ChatPrompt;
+
+/** Options of a single generation */
+export interface GenerateOptions {
+  /**
+   * Called by generators that try several LLMs with the position of the
+   * one that produced the text: 0 for the configured LLM, then its
+   * fallbacks in order
+   */
+  onEndpoint?: (endpoint: number) => void;
+}
+
+/** Produces text completions from a prompt */
+export interface Generator {
+  /** Generate the complete answer to a prompt */
+  generate(prompt: Prompt, options?: GenerateOptions): Promise<string>;
+  /** Generate an answer, yielding fragments as soon as they are produced */
+  stream(prompt: Prompt, options?: GenerateOptions): AsyncGenerator<string>;
+  /** Throw if the service cannot be reached or lacks the model, for readiness checks */
+  check(): Promise<void>;
+}
+
+export function toChatPrompt(prompt: Prompt): ChatPrompt {
+  return typeof prompt === 'string' ? { system: '', user: prompt } : prompt;
+}
+
+/** Payload stored with every chunk in the vector store */
+export interface ChunkPayload {
+  documentId: string;
+  category: string;
+  text: string;
+  title: string;
+  /** SHA-256 of the chunk text; absent on chunks indexed by early versions */
+  chunkHash?: string;
+  start?: number;
+  end?: number;
+  headingPath?: string[];
+  page?: number;
+  tags?: string[];
+  metadata?: Record<string, MetadataValue>;
+  /** Date the document was first ingested */
+  createdAt?: string;
+}
+
+/** Restricts an operation to points whose payload fields equal the given values */
+export type PayloadFilter = Partial<Record<keyof ChunkPayload, string | number>>;
+
+export interface VectorPoint {
+  id: string;
+  payload: ChunkPayload;
+  dense: number[];
+  /** BM25 vector; ignored by stores without lexical search */
+  sparse: SparseVector;
+}
+
+/** A point read back from the store */
+export interface StoredPoint {
+  id: string;
+  payload: ChunkPayload;
+  /** Dense vector, when requested and available */
+  dense?: number[];
+}
+
+export interface SearchHit extends StoredPoint {
+  score: number;
+}
+
+/** Stores chunk vectors and searches them */
+export interface VectorStore {
+  /** Create the underlying collection if needed and check that it is reachable */
+  ensureReady(): Promise<void>;
+  /** Throw if the store cannot be reached, for readiness checks; changes nothing */
+  check(): Promise<void>;
+  /** Whether sparse (lexical) search is available */
+  supportsSparse(): Promise<boolean>;
+  /** Insert points, replacing any with the same ID */
+  upsert(points: VectorPoint[]): Promise<void>;
+  searchDense(vector: number[], filter: FilterExpression | undefined, limit: number): Promise<SearchHit[]>;
+  searchSparse(vector: SparseVector, filter: FilterExpression | undefined, limit: number): Promise<SearchHit[]>;
+  /** Every point matching the filter, in no particular order */
+  scroll(filter: PayloadFilter, withVectors?: boolean): Promise<StoredPoint[]>;
+  deletePoints(ids: string[]): Promise<void>;
+  deleteWhere(filter: PayloadFilter): Promise<void>;
+}
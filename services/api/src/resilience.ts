@@ -0,0 +1,306 @@
+import axios from 'axios';
+import type { Dependency, ErrorCode } from '@ragika/shared';
+import { withRetries } from './jobs';
+import { log } from './telemetry';
+import type { GenerateOptions, Generator, Prompt, Providers } from './providers';
+
+/**
+ * Resilience for calls to the embeddings service, vector store, reranker
+ * and LLM. Transient failures (network errors, timeouts, 429 and 5xx
+ * answers) are retried with exponential backoff. Each dependency has a
+ * circuit breaker that, after repeated failed calls, fails further calls
+ * at once until a trial call succeeds, so a dead service does not hold
+ * every request for the length of its timeouts. Calls that still fail are
+ * rethrown as `UpstreamError`s naming the dependency, from which routes
+ * derive the error code of their response. When fallback LLMs are
+ * configured they are tried in order after the primary one fails.
+ */
+
+export interface ResilienceOptions {
+  /** Retries of a failed call, after the first attempt */
+  retries: number;
+  /** Delay before the first retry, doubled for each further one */
+  retryDelayMs: number;
+  /** Consecutive failed calls after which a dependency's circuit opens */
+  failureThreshold: number;
+  /** How long an open circuit fails calls before letting a trial call through */
+  resetMs: number;
+}
+
+const STAGE_CODES: Record<Dependency, [failed: ErrorCode, unavailable: ErrorCode]> = {
+  embeddings: ['embedding_failed', 'embedding_unavailable'],
+  vector_store: ['search_failed', 'search_unavailable'],
+  reranker: ['rerank_failed', 'rerank_unavailable'],
+  llm: ['generation_failed', 'generation_unavailable']
+};
+
+/** A call to a dependency that failed after any retries, or was refused by its open circuit */
+export class UpstreamError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(
+    readonly dependency: Dependency,
+    readonly operation: string,
+    readonly circuitOpen: boolean,
+    cause?: unknown
+  ) {
+    const reason = circuitOpen ? 'circuit open' : (cause as any)?.message || String(cause);
+    super(`${dependency} ${operation} failed: ${reason}`);
+    this.name = 'UpstreamError';
+    this.code = STAGE_CODES[dependency][circuitOpen ? 1 : 0];
+  }
+}
+
+/**
+ * Whether an error may go away when the call is repeated: no answer,
+ * a timeout, rate limiting or a server error. Other answers, such as a
+ * 400 for a malformed request or an unknown model, will not change.
+ */
+export function isTransient(err: unknown): boolean {
+  if (err instanceof UpstreamError) return false;
+  if (!axios.isAxiosError(err)) return false;
+  const status = err.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Circuit breaker for one dependency. It opens after `failureThreshold`
+ * consecutive calls fail with transient errors; while open, calls fail
+ * without being made. Once `resetMs` have passed a single trial call is
+ * let through, whose outcome closes or reopens the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialRunning = false;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly resetMs: number
+  ) {}
+
+  get state(): 'closed' | 'open' | 'half_open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.resetMs ? 'half_open' : 'open';
+  }
+
+  /** Whether a call may be made now; in the half-open state only one at a time */
+  private admit(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialRunning) return false;
+    this.trialRunning = true;
+    return true;
+  }
+
+  private succeeded(): void {
+    if (this.openedAt !== null) log().info({ circuit: this.name }, 'circuit closed');
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialRunning = false;
+  }
+
+  private failed(err: unknown): void {
+    const trial = this.trialRunning;
+    this.trialRunning = false;
+    // Answers showing the service is up, such as a 400, do not count
+    if (!isTransient(err)) {
+      if (trial) this.openedAt = null;
+      return;
+    }
+    this.failures++;
+    if (trial || this.failures >= this.failureThreshold) {
+      if (this.openedAt === null || trial) {
+        log().warn({ circuit: this.name, failures: this.failures }, 'circuit opened');
+      }
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** Make a call through the breaker; `refused` builds the error thrown while open */
+  async call<T>(fn: () => Promise<T>, refused: () => Error): Promise<T> {
+    if (!this.admit()) throw refused();
+    try {
+      const result = await fn();
+      this.succeeded();
+      return result;
+    } catch (err) {
+      this.failed(err);
+      throw err;
+    }
+  }
+}
+
+/**
+ * Make a streaming call through a breaker with retries. Only failures
+ * before the first fragment are retried, since fragments already passed
+ * on cannot be taken back.
+ */
+async function* streamWithRetries<T>(
+  breaker: CircuitBreaker,
+  options: ResilienceOptions,
+  start: () => AsyncGenerator<T>,
+  refused: () => Error
+): AsyncGenerator<T> {
+  let first: IteratorResult<T> | undefined;
+  let iterator: AsyncGenerator<T> | undefined;
+  await breaker.call(
+    () =>
+      withRetries(
+        async () => {
+          iterator = start();
+          first = await iterator.next();
+        },
+        options.retries,
+        options.retryDelayMs,
+        isTransient
+      ),
+    refused
+  );
+  try {
+    if (first!.done) return;
+    yield first!.value;
+    yield* iterator!;
+  } finally {
+    // Stops the call if the consumer stopped reading early
+    await iterator!.return(undefined);
+  }
+}
+
+/**
+ * Wrap a provider so the listed methods go through the dependency's
+ * breaker with retries and fail with `UpstreamError`s; `streams` lists
+ * methods returning async generators. Other members are passed through.
+ */
+function protect<T extends object>(
+  target: T,
+  dependency: Dependency,
+  breaker: CircuitBreaker,
+  options: ResilienceOptions,
+  operations: Record<string, string>,
+  streams: Record<string, string> = {}
+): T {
+  return new Proxy(target, {
+    get(obj, property, receiver) {
+      const value = Reflect.get(obj, property, receiver);
+      if (typeof property !== 'string' || typeof value !== 'function') return value;
+      const operation = operations[property] ?? streams[property];
+      if (!operation) return value.bind(obj);
+      const refused = () => new UpstreamError(dependency, operation, true);
+      const failed = (err: unknown) =>
+        err instanceof UpstreamError ? err : new UpstreamError(dependency, operation, false, err);
+      if (operations[property]) {
+        return (...args: unknown[]) =>
+          breaker
+            .call(
+              () =>
+                withRetries(() => value.apply(obj, args), options.retries, options.retryDelayMs, isTransient),
+              refused
+            )
+            .catch(err => Promise.reject(failed(err)));
+      }
+      return async function* (...args: unknown[]) {
+        try {
+          yield* streamWithRetries(breaker, options, () => value.apply(obj, args), refused);
+        } catch (err) {
+          throw failed(err);
+        }
+      };
+    }
+  });
+}
+
+/**
+ * Generator trying LLM endpoints in order until one answers. A stream
+ * moves on to the next endpoint only if it fails before its first
+ * fragment. The last endpoint's error is rethrown when all fail; the
+ * endpoint that answered is reported through `onEndpoint`.
+ */
+export class FallbackGenerator implements Generator {
+  constructor(private readonly generators: Generator[]) {}
+
+  async generate(prompt: Prompt, options: GenerateOptions = {}): Promise<string> {
+    for (let i = 0; ; i++) {
+      try {
+        const text = await this.generators[i].generate(prompt);
+        options.onEndpoint?.(i);
+        return text;
+      } catch (err: any) {
+        if (i === this.generators.length - 1) throw err;
+        log().warn({ endpoint: i, error: err.message || err }, 'LLM failed; trying the next fallback');
+      }
+    }
+  }
+
+  async *stream(prompt: Prompt, options: GenerateOptions = {}): AsyncGenerator<string> {
+    for (let i = 0; ; i++) {
+      let started = false;
+      try {
+        for await (const fragment of this.generators[i].stream(prompt)) {
+          if (!started) options.onEndpoint?.(i);
+          started = true;
+          yield fragment;
+        }
+        if (!started) options.onEndpoint?.(i);
+        return;
+      } catch (err: any) {
+        if (started || i === this.generators.length - 1) throw err;
+        log().warn({ endpoint: i, error: err.message || err }, 'LLM failed; trying the next fallback');
+      }
+    }
+  }
+
+  /** Ready when any endpoint is */
+  async check(): Promise<void> {
+    const errors: string[] = [];
+    for (const generator of this.generators) {
+      try {
+        return await generator.check();
+      } catch (err: any) {
+        errors.push(err.message || String(err));
+      }
+    }
+    throw new Error(errors.join('; '));
+  }
+}
+
+/**
+ * Protect every provider with its dependency's breaker and retries. Each
+ * LLM endpoint has a breaker of its own, so a failing primary does not
+ * stop its fallbacks from being used.
+ */
+export function protectProviders(providers: Providers, options: ResilienceOptions): Providers {
+  const { embedder, reranker, generator, fallbackGenerators, vectorStore } = providers;
+  const breaker = (name: string) => new CircuitBreaker(name, options.failureThreshold, options.resetMs);
+  const generators = [generator, ...fallbackGenerators].map((llm, i) =>
+    protect(
+      llm,
+      'llm',
+      breaker(i === 0 ? 'llm' : `llm fallback ${i}`),
+      options,
+      { generate: 'generate' },
+      {
+        stream: 'stream'
+      }
+    )
+  );
+  return {
+    embedder: protect(embedder, 'embeddings', breaker('embeddings'), options, { embed: 'embed' }),
+    reranker: reranker && protect(reranker, 'reranker', breaker('reranker'), options, { rerank: 'rerank' }),
+    generator: generators.length > 1 ? new FallbackGenerator(generators) : generators[0],
+    // Folded into the generator above
+    fallbackGenerators: [],
+    vectorStore: protect(vectorStore, 'vector_store', breaker('vector_store'), options, {
+      ensureReady: 'prepare',
+      // Reads the collection layout the first time it is called
+      supportsSparse: 'search',
+      searchDense: 'search',
+      searchSparse: 'search',
+      upsert: 'upsert',
+      scroll: 'scroll',
+      deletePoints: 'delete',
+      deleteWhere: 'delete'
+    })
+  };
+}
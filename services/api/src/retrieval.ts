@@ -0,0 +1,58 @@
+import type { RetrievalMode, RetrievalOptions } from '@ragika/shared';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['dense', 'sparse', 'hybrid'];
+
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+  return typeof value === 'string' && (RETRIEVAL_MODES as string[]).includes(value);
+}
+
+/**
+ * Check client supplied retrieval options. Returns a message describing
+ * the first problem found, or null when the options are usable.
+ */
+export function validateRetrievalOptions(options: RetrievalOptions | undefined): string | null {
+  if (!options) return null;
+  const { mode, denseWeight, sparseWeight } = options;
+  if (mode !== undefined && !isRetrievalMode(mode)) {
+    return `retrieval.mode must be one of ${RETRIEVAL_MODES.join(', ')}`;
+  }
+  for (const [name, weight] of [
+    ['denseWeight', denseWeight],
+    ['sparseWeight', sparseWeight]
+  ] as const) {
+    if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+      return `retrieval.${name} must be a non-negative number`;
+    }
+  }
+  return null;
+}
+
+/** A ranked result list to be fused, with the weight of its ranker */
+export interface RankedList<T> {
+  items: T[];
+  weight: number;
+}
+
+/**
+ * Merge ranked lists with weighted reciprocal rank fusion. Each item
+ * scores `weight / (k + rank)` in every list it appears in (rank starting
+ * at 1), and items are returned by descending total score. Items are
+ * matched across lists by the key returned from `keyOf`; the first
+ * occurrence is the one kept.
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  keyOf: (item: T) => string,
+  k = 60
+): { item: T; score: number }[] {
+  const fused = new Map<string, { item: T; score: number }>();
+  for (const list of lists) {
+    list.items.forEach((item, idx) => {
+      const key = keyOf(item);
+      const entry = fused.get(key) || { item, score: 0 };
+      entry.score += list.weight / (k + idx + 1);
+      fused.set(key, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
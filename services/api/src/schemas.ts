@@ -0,0 +1,249 @@
+import Ajv from 'ajv';
+import type { FastifySchemaCompiler, FastifyServerOptions } from 'fastify';
+import type {
+  AppendMessageRequest,
+  ChatQueryRequest,
+  ChatTurn,
+  ChunkingOptions,
+  CreateConversationRequest,
+  FeedbackRequest,
+  ImportConversationsRequest,
+  IngestJobStatus,
+  IngestTextRequest,
+  LoginRequest,
+  RenameConversationRequest,
+  ReplaceDocumentRequest,
+  RetrievalOptions
+} from '@ragika/shared';
+import { CHUNK_STRATEGIES } from './chunking';
+import { RETRIEVAL_MODES } from './retrieval';
+
+/**
+ * JSON Schemas of the request bodies, parameters and query strings the
+ * routes accept. Fastify validates requests against them before the
+ * handlers run and answers 400 naming the offending field. Object schemas
+ * are typed against the shared request types, so adding a field to a type
+ * without describing it here fails to compile, and bodies naming a field
+ * the type does not have, such as a misspelt option, are rejected rather
+ * than silently ignored. Checks that need the
+ * server's state or span several fields, such as filters, metadata keys
+ * and prompt template names, stay with the handlers.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+type RequiredKeys<T> = { [Key in keyof T]-?: {} extends Pick<T, Key> ? never : Key }[keyof T];
+
+/** Schema of an object type, describing every one of its properties */
+export type ObjectSchema<T> = {
+  type: 'object';
+  properties: { [Key in keyof Required<T>]: JsonSchema };
+  required?: RequiredKeys<T>[];
+  additionalProperties: boolean;
+  description?: string;
+};
+
+function object<T>(
+  properties: ObjectSchema<T>['properties'],
+  required: RequiredKeys<T>[] = [],
+  description?: string
+): ObjectSchema<T> {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+    ...(description ? { description } : {})
+  };
+}
+
+/** Schema of a query string; parameters it does not describe, such as cache busters, are ignored */
+function queryString<T>(properties: ObjectSchema<T>['properties']): ObjectSchema<T> {
+  return { ...object<T>(properties), additionalProperties: true };
+}
+
+const JOB_STATUSES: IngestJobStatus[] = ['queued', 'running', 'failed', 'done'];
+
+const text = { type: 'string' };
+const nonEmpty = { type: 'string', minLength: 1 };
+const role = { type: 'string', enum: ['user', 'assistant'] };
+const tags = { type: 'array', items: nonEmpty, description: 'Free-form labels for filtering' };
+const metadata = {
+  type: 'object',
+  additionalProperties: { type: ['string', 'number', 'boolean'] },
+  description: 'Custom key/value metadata for filtering'
+};
+// Shapes produced by the server itself, stored as given
+const anyObject = { type: 'object' };
+
+const chunking = object<ChunkingOptions>(
+  {
+    strategy: { type: 'string', enum: CHUNK_STRATEGIES },
+    maxTokens: { type: 'integer', minimum: 1 },
+    overlapTokens: { type: 'integer', minimum: 0 }
+  },
+  [],
+  'Override of how the text is split into chunks'
+);
+
+const retrieval = object<RetrievalOptions>(
+  {
+    mode: { type: 'string', enum: RETRIEVAL_MODES },
+    denseWeight: { type: 'number', minimum: 0 },
+    sparseWeight: { type: 'number', minimum: 0 }
+  },
+  [],
+  'Override of how candidate chunks are retrieved'
+);
+
+const chatTurn = object<ChatTurn>({ role, content: text }, ['role', 'content']);
+
+export interface IngestQuery {
+  /** Return the queued job at once instead of waiting for it */
+  async?: boolean;
+}
+
+export const ingestQuery = queryString<IngestQuery>({
+  async: { type: 'boolean', description: 'Return the queued ingestion job at once with status 202' }
+});
+
+export const ingestTextBody = object<IngestTextRequest>(
+  {
+    text: nonEmpty,
+    category: nonEmpty,
+    title: text,
+    chunking,
+    externalId: { ...nonEmpty, description: 'Client key; ingesting it again updates the document' },
+    tags,
+    metadata
+  },
+  ['text', 'category']
+);
+
+export const replaceDocumentBody = object<ReplaceDocumentRequest>(
+  { text: nonEmpty, category: text, title: text, chunking, tags, metadata },
+  ['text']
+);
+
+export interface DocumentListQuery {
+  category?: string;
+  /** Case-insensitive search over titles, external IDs, categories and tags */
+  q?: string;
+  limit: number;
+  offset: number;
+}
+
+export const documentListQuery = queryString<DocumentListQuery>({
+  category: text,
+  q: text,
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+  offset: { type: 'integer', minimum: 0, default: 0 }
+});
+
+export const chatQueryBody = object<ChatQueryRequest>(
+  {
+    query: nonEmpty,
+    history: { type: 'array', items: chatTurn, description: 'Earlier messages, oldest first' },
+    category: text,
+    filter: { type: 'object', description: 'Filter expression restricting the chunks retrieved' },
+    retrieval,
+    promptTemplate: text,
+    language: text
+  },
+  ['query']
+);
+
+export const loginBody = object<LoginRequest>({ username: text, password: text }, ['username', 'password']);
+
+export const createConversationBody = {
+  ...object<CreateConversationRequest>({ id: nonEmpty, title: text }),
+  // The body may be left out altogether
+  type: ['object', 'null']
+};
+
+export const renameConversationBody = object<RenameConversationRequest>({ title: text }, ['title']);
+
+export const appendMessageBody = object<AppendMessageRequest>(
+  {
+    id: nonEmpty,
+    role,
+    content: text,
+    citations: { type: 'array', items: anyObject },
+    rewrittenQuery: text,
+    grounding: anyObject,
+    answerId: text
+  },
+  ['role', 'content']
+);
+
+type ImportedConversation = ImportConversationsRequest['conversations'][number];
+
+export const importConversationsBody = object<ImportConversationsRequest>(
+  {
+    conversations: {
+      type: 'array',
+      items: object<ImportedConversation>({
+        id: text,
+        title: text,
+        messages: { type: 'array', items: anyObject }
+      })
+    }
+  },
+  ['conversations']
+);
+
+export const feedbackBody = object<FeedbackRequest>(
+  { rating: { type: 'string', enum: ['up', 'down'] }, comment: text },
+  ['rating']
+);
+
+export interface FeedbackSummaryQuery {
+  /** Only answers given since this date */
+  since?: string;
+  limit: number;
+}
+
+export const feedbackSummaryQuery = queryString<FeedbackSummaryQuery>({
+  since: text,
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 }
+});
+
+export interface JobListQuery {
+  status?: IngestJobStatus;
+  limit: number;
+  offset: number;
+}
+
+export const jobListQuery = queryString<JobListQuery>({
+  status: { type: 'string', enum: JOB_STATUSES },
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+  offset: { type: 'integer', minimum: 0, default: 0 }
+});
+
+// Query strings and path parameters are text, so their numbers and
+// booleans are converted; JSON bodies must have the declared types
+const ajvOptions = { useDefaults: true, allErrors: false, allowUnionTypes: true };
+const bodyValidator = new Ajv({ ...ajvOptions, coerceTypes: false });
+const textValidator = new Ajv({ ...ajvOptions, coerceTypes: 'array' });
+
+export const validatorCompiler: FastifySchemaCompiler<JsonSchema> = ({ schema, httpPart }) =>
+  (httpPart === 'body' ? bodyValidator : textValidator).compile(schema);
+
+/**
+ * Describe a failed validation in the style of the handlers' own
+ * messages, e.g. `retrieval.mode must be one of dense, sparse, hybrid`.
+ */
+export const formatValidationError: NonNullable<FastifyServerOptions['schemaErrorFormatter']> = (
+  errors,
+  dataVar
+) => {
+  const [error] = errors;
+  const field = error.instancePath.slice(1).replace(/\//g, '.') || dataVar;
+  const message =
+    error.keyword === 'enum'
+      ? `must be one of ${(error.params.allowedValues as unknown[]).join(', ')}`
+      : error.keyword === 'additionalProperties'
+        ? `has unknown property ${error.params.additionalProperty}`
+        : error.message || 'is invalid';
+  return new Error(`${field} ${message}`);
+};
@@ -0,0 +1,51 @@
+import { tokenize } from './sparse';
+
+const SENTENCE = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+
+/**
+ * Pick the passage of a chunk most relevant to a query, for display in
+ * citations. Sentences are scored by how many distinct query terms they
+ * contain, and the best sentence is extended with its neighbours while it
+ * fits in `maxLength` characters. Falls back to the start of the chunk when
+ * no sentence shares a term with the query.
+ */
+export function extractSnippet(text: string, query: string, maxLength = 300): string {
+  const queryTerms = new Set(tokenize(query));
+  const sentences = [...text.matchAll(SENTENCE)]
+    .map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }))
+    .filter(span => text.slice(span.start, span.end).trim().length > 0);
+  let best = -1;
+  let bestScore = 0;
+  sentences.forEach((span, idx) => {
+    const terms = new Set(tokenize(text.slice(span.start, span.end)));
+    const score = [...terms].filter(term => queryTerms.has(term)).length;
+    if (score > bestScore) {
+      best = idx;
+      bestScore = score;
+    }
+  });
+  if (best === -1) {
+    const head = text.slice(0, maxLength).trim();
+    return head.length < text.trim().length ? `${head}…` : head;
+  }
+  let first = best;
+  let last = best;
+  for (;;) {
+    if (last + 1 < sentences.length && sentences[last + 1].end - sentences[first].start <= maxLength) {
+      last++;
+    } else if (first > 0 && sentences[last].end - sentences[first - 1].start <= maxLength) {
+      first--;
+    } else {
+      break;
+    }
+  }
+  // A single sentence may still be longer than the limit
+  let snippet = text.slice(sentences[first].start, sentences[last].end).trim();
+  const truncated = snippet.length > maxLength;
+  if (truncated) {
+    snippet = snippet.slice(0, maxLength).trimEnd();
+  }
+  const prefix = first > 0 ? '…' : '';
+  const suffix = truncated || last < sentences.length - 1 ? '…' : '';
+  return `${prefix}${snippet}${suffix}`;
+}
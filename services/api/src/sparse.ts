@@ -0,0 +1,80 @@
+/**
+ * Sparse lexical vectors for BM25 style retrieval. Terms are hashed into
+ * a 32-bit index space so no vocabulary needs to be stored, and document
+ * weights use the BM25 term frequency component. The IDF component is
+ * applied by Qdrant at search time through the `idf` modifier on the
+ * sparse vector, which keeps the weights independent of corpus statistics
+ * and means documents never need re-indexing as the corpus grows.
+ */
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+// BM25 parameters; the average document length is fixed since chunks are
+// produced with a bounded size
+const K1 = 1.2;
+const B = 0.75;
+const AVERAGE_LENGTH = 256;
+
+// Identifiers such as "POL-2023-14" or "ISO27001" are kept whole in
+// addition to being split into their parts
+const WORD = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Split text into lowercase terms. Compound identifiers contribute both
+ * the full identifier and each of its parts so that exact and partial
+ * matches are both rewarded.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(WORD)) {
+    const word = match[0];
+    terms.push(word);
+    if (/[-_./]/.test(word)) {
+      terms.push(...word.split(/[-_./]/).filter(part => part.length > 0));
+    }
+  }
+  return terms;
+}
+
+/** FNV-1a hash of a term, used as its sparse vector index */
+export function termIndex(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function termFrequencies(text: string): { counts: Map<number, number>; length: number } {
+  const terms = tokenize(text);
+  const counts = new Map<number, number>();
+  for (const term of terms) {
+    const index = termIndex(term);
+    counts.set(index, (counts.get(index) || 0) + 1);
+  }
+  return { counts, length: terms.length };
+}
+
+/** Encode a chunk of a document with BM25 term frequency weights */
+export function encodeSparseDocument(text: string): SparseVector {
+  const { counts, length } = termFrequencies(text);
+  const norm = K1 * (1 - B + (B * length) / AVERAGE_LENGTH);
+  const indices = [...counts.keys()];
+  return {
+    indices,
+    values: indices.map(index => {
+      const tf = counts.get(index)!;
+      return (tf * (K1 + 1)) / (tf + norm);
+    })
+  };
+}
+
+/** Encode a query; every distinct term carries the same weight */
+export function encodeSparseQuery(text: string): SparseVector {
+  const indices = [...termFrequencies(text).counts.keys()];
+  return { indices, values: indices.map(() => 1) };
+}
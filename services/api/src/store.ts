@@ -0,0 +1,251 @@
+import { promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import path from 'path';
+
+/** One line of the log: a record written, or the ID of a record deleted */
+type Entry<T> = { put: T } | { delete: string };
+
+// A compaction lock older than this was left by a process that died holding it
+const STALE_LOCK_MS = 60 * 1000;
+const LOCK_RETRY_MS = 50;
+
+/**
+ * A small persistent collection of records keyed by ID, stored as an
+ * append-only log with one JSON line per change. Writing a record appends
+ * just that record, so a write costs the size of the record rather than
+ * of the store, and it never replaces lines appended by someone else.
+ * Before each operation the lines appended since the last one are read,
+ * so processes sharing the file, such as several API replicas, see each
+ * other's changes instead of overwriting them; the last line for an ID
+ * wins. A line cut short by a crash is skipped.
+ *
+ * When the log holds more superseded lines than live records it is
+ * compacted as the store is opened; files in the earlier layout, a single
+ * JSON array, are converted the same way. Compaction holds a lock file so
+ * only one process rewrites the log at a time, writes the live records to
+ * a temporary file of its own and renames it over the log. Lines other
+ * processes append meanwhile are carried over: those appended before the
+ * rename are copied from the old log afterwards, and a writer whose line
+ * landed in the old log after that appends it again. Processes that have
+ * the file open notice the rename and read the new file from the start.
+ */
+export class JsonStore<T extends { id: string }> {
+  private records: Map<string, T> | null = null;
+  // Bytes of the file read so far, the inode they were read from and the
+  // number of lines they held
+  private offset = 0;
+  private inode = 0;
+  private entries = 0;
+  // Whether the file ends in a partial line, which the next append must not extend
+  private partial = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  /** Run operations one at a time, each with the records brought up to date */
+  private exclusive<R>(operation: (records: Map<string, T>) => Promise<R>): Promise<R> {
+    const run = async () => operation(await this.sync());
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Apply the lines appended to the file since it was last read */
+  private async sync(): Promise<Map<string, T>> {
+    // After a compaction, lines carried over from the old log are read from the new one
+    while (await this.catchUp()) {}
+    return this.records!;
+  }
+
+  /** Read the file past the offset read so far; returns true if it must be read again */
+  private async catchUp(): Promise<boolean> {
+    let handle;
+    try {
+      handle = await fs.open(this.file, 'r');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') throw err;
+      this.records ??= new Map();
+      return false;
+    }
+    try {
+      const { size, ino } = await handle.stat();
+      const opening = this.records === null;
+      if (opening || ino !== this.inode || size < this.offset) {
+        // Opened for the first time, or replaced by a compaction
+        this.records = new Map();
+        this.offset = 0;
+        this.entries = 0;
+        this.inode = ino;
+      }
+      const records = this.records!;
+      if (this.offset === 0 && size > 0) {
+        const start = Buffer.alloc(Math.min(size, 64));
+        await handle.read(start, 0, start.length, 0);
+        if (start.toString('utf8').trimStart().startsWith('[')) {
+          // Every process must see the converted log before appending to it;
+          // if another one converted it first, that log is read instead
+          await this.compact(handle, records, true);
+          return true;
+        }
+      }
+      await this.readTail(handle, records);
+      return opening && this.entries > 2 * records.size && (await this.compact(handle, records, false));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /** Apply the complete lines of `handle` past the offset read so far */
+  private async readTail(handle: FileHandle, records: Map<string, T>): Promise<void> {
+    const { size } = await handle.stat();
+    if (size <= this.offset) return;
+    const buffer = Buffer.alloc(size - this.offset);
+    await handle.read(buffer, 0, buffer.length, this.offset);
+    // A line still being written is read once it is complete
+    const complete = buffer.lastIndexOf(0x0a) + 1;
+    for (const line of buffer.subarray(0, complete).toString('utf8').split('\n')) {
+      if (this.apply(records, line)) this.entries++;
+    }
+    this.offset += complete;
+    this.partial = complete < buffer.length;
+  }
+
+  /** Apply one line of the log; returns false for blank or unreadable lines */
+  private apply(records: Map<string, T>, line: string): boolean {
+    if (!line.trim()) return false;
+    let entry: Entry<T>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return false;
+    }
+    if ('put' in entry) {
+      records.set(entry.put.id, entry.put);
+    } else {
+      records.delete(entry.delete);
+    }
+    return true;
+  }
+
+  /**
+   * Take the compaction lock. Returns its release function, or null if
+   * another process holds it and `wait` is not set.
+   */
+  private async lock(wait: boolean): Promise<(() => Promise<void>) | null> {
+    const lockFile = `${this.file}.lock`;
+    for (;;) {
+      try {
+        await (await fs.open(lockFile, 'wx')).close();
+        return () => fs.rm(lockFile, { force: true });
+      } catch (err: any) {
+        if (err.code !== 'EEXIST') throw err;
+      }
+      const held = await fs.stat(lockFile).catch(() => null);
+      if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+      if (!wait) return null;
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Rewrite the log read through `handle` with one line per live record;
+   * `legacy` marks a log in the single array layout, which must be
+   * converted even if that means waiting for another compaction. Returns
+   * whether the log was replaced; if another process replaced it first, it
+   * is left alone and read anew on the next operation.
+   */
+  private async compact(handle: FileHandle, records: Map<string, T>, legacy: boolean): Promise<boolean> {
+    const release = await this.lock(legacy);
+    if (!release) return false;
+    try {
+      if ((await fs.stat(this.file)).ino !== this.inode) return false;
+      if (legacy) {
+        const { size } = await handle.stat();
+        const buffer = Buffer.alloc(size);
+        await handle.read(buffer, 0, size, 0);
+        for (const record of JSON.parse(buffer.toString('utf8')) as T[]) {
+          records.set(record.id, record);
+        }
+      } else {
+        await this.readTail(handle, records);
+      }
+      const tmp = `${this.file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+      const content = [...records.values()].map(record => `${JSON.stringify({ put: record })}\n`).join('');
+      await fs.writeFile(tmp, content);
+      await fs.rename(tmp, this.file);
+      const { ino } = await fs.stat(this.file);
+      // Copy lines appended to the old log since it was read
+      if (!legacy) {
+        const { size } = await handle.stat();
+        if (size > this.offset) {
+          const buffer = Buffer.alloc(size - this.offset);
+          await handle.read(buffer, 0, buffer.length, this.offset);
+          const complete = buffer.subarray(0, buffer.lastIndexOf(0x0a) + 1);
+          if (complete.length > 0) await fs.appendFile(this.file, complete);
+        }
+      }
+      this.inode = ino;
+      this.offset = Buffer.byteLength(content);
+      this.entries = records.size;
+      this.partial = false;
+      return true;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Append an entry. It is not counted as read: the next sync reads it
+   * back in order with lines other processes appended meanwhile. If a
+   * compaction replaced the log while the line was being written, the
+   * line is appended to the new log too; it may then appear twice, which
+   * is harmless since both copies say the same.
+   */
+  private async append(entry: Entry<T>): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const line = `${JSON.stringify(entry)}\n`;
+    const handle = await fs.open(this.file, 'a');
+    let written;
+    try {
+      await handle.write(`${this.partial ? '\n' : ''}${line}`);
+      written = await handle.stat();
+    } finally {
+      await handle.close();
+    }
+    this.partial = false;
+    const current = await fs.stat(this.file).catch(() => null);
+    if (current && current.ino !== written.ino) {
+      await fs.appendFile(this.file, line);
+    }
+  }
+
+  /** All records in insertion order */
+  async list(): Promise<T[]> {
+    return this.exclusive(async records => [...records.values()]);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.exclusive(async records => records.get(id));
+  }
+
+  /** Insert or replace a record */
+  async put(record: T): Promise<void> {
+    return this.exclusive(async records => {
+      await this.append({ put: record });
+      records.set(record.id, record);
+    });
+  }
+
+  /** Remove a record; returns false if it did not exist */
+  async delete(id: string): Promise<boolean> {
+    return this.exclusive(async records => {
+      if (!records.has(id)) return false;
+      await this.append({ delete: id });
+      records.delete(id);
+      return true;
+    });
+  }
+}
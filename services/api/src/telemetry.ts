@@ -0,0 +1,282 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { FastifyBaseLogger, FastifyInstance } from 'fastify';
+import pino from 'pino';
+import type { Dependency, DependencyHealth, HealthResponse } from '@ragika/shared';
+import { Counter, Gauge, Histogram, Registry } from './metrics';
+import type { Providers } from './providers';
+
+/**
+ * Structured logging, request tracing and metrics. Every request gets a
+ * correlation ID, taken from its `x-request-id` header when valid, which
+ * is echoed in the response and carried by every log line written while
+ * serving it. Calls to the embedder, vector store, reranker and LLM are
+ * timed as spans of the request, logged with its completion, and counted
+ * in the latency and error metrics served by /metrics.
+ */
+
+/** Root logger; the level is set from LOG_LEVEL once configuration is loaded */
+export const logger: FastifyBaseLogger = pino({
+  base: { service: 'ragika-api' },
+  timestamp: pino.stdTimeFunctions.isoTime
+});
+
+/** A timed call to a dependency made while serving a request */
+export interface Span {
+  dependency: Dependency;
+  operation: string;
+  durationMs: number;
+  error?: boolean;
+}
+
+interface RequestContext {
+  log: FastifyBaseLogger;
+  spans: Span[];
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Dependency calls made while serving the request, in start order */
+    spans?: Span[];
+  }
+}
+
+const context = new AsyncLocalStorage<RequestContext>();
+
+/** Logger of the request being served, or the root logger outside requests */
+export function log(): FastifyBaseLogger {
+  return context.getStore()?.log ?? logger;
+}
+
+/**
+ * Run work outside the request that started it, such as a background job,
+ * with its own logger; its dependency calls are not added to any request.
+ */
+export function runWithLogger<T>(logger: FastifyBaseLogger, run: () => T): T {
+  return context.run({ log: logger, spans: [] }, run);
+}
+
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/** Correlation ID of a request: the caller's `x-request-id`, else a new UUID */
+export function requestId(req: IncomingMessage): string {
+  const header = req.headers['x-request-id'];
+  return typeof header === 'string' && REQUEST_ID.test(header) ? header : randomUUID();
+}
+
+export const metrics = new Registry();
+
+const httpDuration = metrics.register(
+  new Histogram('ragika_http_request_duration_seconds', 'Time to serve HTTP requests, by route and status')
+);
+const upstreamDuration = metrics.register(
+  new Histogram(
+    'ragika_upstream_request_duration_seconds',
+    'Time taken by calls to dependencies, by operation'
+  )
+);
+const upstreamErrors = metrics.register(
+  new Counter('ragika_upstream_errors_total', 'Failed calls to dependencies, by operation')
+);
+const dependencyUp = metrics.register(
+  new Gauge('ragika_dependency_up', 'Whether a dependency answered its last readiness probe')
+);
+export const ingestJobsTotal = metrics.register(
+  new Counter('ragika_ingest_jobs_total', 'Ingestion jobs finished, by outcome')
+);
+export const ingestChunksTotal = metrics.register(
+  new Counter('ragika_ingested_chunks_total', 'Chunks stored by ingestion jobs')
+);
+export const embeddedChunksTotal = metrics.register(
+  new Counter(
+    'ragika_embedded_chunks_total',
+    'Chunks embedded by ingestion jobs; reused vectors are not counted'
+  )
+);
+export const ingestDuration = metrics.register(
+  new Histogram('ragika_ingest_job_duration_seconds', 'Time taken by ingestion jobs')
+);
+export const cacheRequests = metrics.register(
+  new Counter('ragika_cache_requests_total', 'Query cache lookups, by layer and result')
+);
+
+/**
+ * Trace requests: run each in its own context carrying its logger and
+ * spans, echo its correlation ID, and on completion record its latency
+ * and log it with its spans. Health and metrics scrapes are logged at
+ * debug level only.
+ */
+export function observeRequests(app: FastifyInstance): void {
+  app.addHook('onRequest', (request, reply, done) => {
+    reply.header('x-request-id', request.id);
+    request.spans = [];
+    context.run({ log: request.log, spans: request.spans }, done);
+  });
+  app.addHook('onResponse', async (request, reply) => {
+    const route = request.routeOptions.url || 'unmatched';
+    const durationMs = reply.elapsedTime;
+    httpDuration.observe(
+      { method: request.method, route, status: String(reply.statusCode) },
+      durationMs / 1000
+    );
+    const quiet = route === '/healthz' || route === '/metrics';
+    request.log[quiet ? 'debug' : 'info'](
+      {
+        method: request.method,
+        url: request.url,
+        statusCode: reply.statusCode,
+        durationMs: Math.round(durationMs),
+        spans: request.spans
+      },
+      'request completed'
+    );
+  });
+}
+
+function errorMessage(err: any): string {
+  return err?.message || String(err);
+}
+
+/** Time a call to a dependency, recording it as a span and in the metrics */
+async function track<T>(dependency: Dependency, operation: string, call: () => Promise<T>): Promise<T> {
+  const started = performance.now();
+  let error = false;
+  try {
+    return await call();
+  } catch (err) {
+    error = true;
+    upstreamErrors.inc({ dependency, operation });
+    log().warn({ dependency, operation, error: errorMessage(err) }, 'dependency call failed');
+    throw err;
+  } finally {
+    finishSpan(dependency, operation, started, error);
+  }
+}
+
+/** As `track`, for a call streaming its result; the span lasts until the stream ends */
+async function* trackStream<T>(
+  dependency: Dependency,
+  operation: string,
+  call: () => AsyncGenerator<T>
+): AsyncGenerator<T> {
+  const started = performance.now();
+  let error = false;
+  try {
+    yield* call();
+  } catch (err) {
+    error = true;
+    upstreamErrors.inc({ dependency, operation });
+    log().warn({ dependency, operation, error: errorMessage(err) }, 'dependency call failed');
+    throw err;
+  } finally {
+    finishSpan(dependency, operation, started, error);
+  }
+}
+
+function finishSpan(dependency: Dependency, operation: string, started: number, error: boolean): void {
+  const durationMs = performance.now() - started;
+  upstreamDuration.observe({ dependency, operation }, durationMs / 1000);
+  context.getStore()?.spans.push({
+    dependency,
+    operation,
+    durationMs: Math.round(durationMs * 10) / 10,
+    ...(error ? { error } : {})
+  });
+}
+
+/**
+ * Wrap a provider so the listed methods are tracked under their operation
+ * names; `streams` lists methods returning async generators. Other members
+ * are passed through, bound to the provider.
+ */
+function instrument<T extends object>(
+  target: T,
+  dependency: Dependency,
+  operations: Record<string, string>,
+  streams: Record<string, string> = {}
+): T {
+  return new Proxy(target, {
+    get(obj, property, receiver) {
+      const value = Reflect.get(obj, property, receiver);
+      if (typeof property !== 'string' || typeof value !== 'function') return value;
+      if (operations[property]) {
+        return (...args: unknown[]) => track(dependency, operations[property], () => value.apply(obj, args));
+      }
+      if (streams[property]) {
+        return (...args: unknown[]) =>
+          trackStream(dependency, streams[property], () => value.apply(obj, args));
+      }
+      return value.bind(obj);
+    }
+  });
+}
+
+/** Providers whose calls are traced; readiness probes are not */
+export function instrumentProviders(providers: Providers): Providers {
+  const { embedder, reranker, generator, fallbackGenerators, vectorStore } = providers;
+  const llm = (target: typeof generator) =>
+    instrument(target, 'llm', { generate: 'generate' }, { stream: 'stream' });
+  return {
+    embedder: instrument(embedder, 'embeddings', { embed: 'embed' }),
+    reranker: reranker && instrument(reranker, 'reranker', { rerank: 'rerank' }),
+    generator: llm(generator),
+    fallbackGenerators: fallbackGenerators.map(llm),
+    vectorStore: instrument(vectorStore, 'vector_store', {
+      searchDense: 'search',
+      searchSparse: 'search',
+      upsert: 'upsert',
+      scroll: 'scroll',
+      deletePoints: 'delete',
+      deleteWhere: 'delete'
+    })
+  };
+}
+
+/**
+ * Probe dependencies in parallel, each given at most `timeoutMs`. The API
+ * is reported in error when a required dependency is down and degraded
+ * when only optional ones are.
+ */
+export async function checkDependencies(
+  probes: Partial<Record<Dependency, () => Promise<void>>>,
+  optional: Dependency[],
+  timeoutMs: number
+): Promise<HealthResponse> {
+  const entries = Object.entries(probes) as [Dependency, () => Promise<void>][];
+  const results = await Promise.all(
+    entries.map(async ([dependency, probe]): Promise<[Dependency, DependencyHealth]> => {
+      const started = performance.now();
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          probe(),
+          new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`no answer within ${timeoutMs} ms`)), timeoutMs);
+          })
+        ]);
+        dependencyUp.set({ dependency }, 1);
+        return [dependency, { status: 'ok', latencyMs: Math.round(performance.now() - started) }];
+      } catch (err) {
+        dependencyUp.set({ dependency }, 0);
+        log().warn({ dependency, error: errorMessage(err) }, 'readiness probe failed');
+        return [
+          dependency,
+          { status: 'error', latencyMs: Math.round(performance.now() - started), error: errorMessage(err) }
+        ];
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+  const down = results.filter(([, health]) => health.status === 'error').map(([dependency]) => dependency);
+  return {
+    status:
+      down.length === 0
+        ? 'ok'
+        : down.every(dependency => optional.includes(dependency))
+          ? 'degraded'
+          : 'error',
+    dependencies: Object.fromEntries(results)
+  };
+}
@@ -0,0 +1,229 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatQueryResponse, DocumentListResponse, LoginResponse } from '@ragika/shared';
+import { hashApiKey, hashPassword, loadAuthConfig } from '../src/auth';
+import { startApi, TestApi } from './harness';
+
+const INGEST_KEY = 'rk_test-ingest-key';
+
+describe('authentication and access control', () => {
+  let api: TestApi;
+  let dir: string;
+  let aliceToken: string;
+  let carolToken: string;
+
+  const login = (username: string, password: string) =>
+    api.app.inject({ method: 'POST', url: '/auth/login', payload: { username, password } });
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-auth-'));
+    const authFile = path.join(dir, 'auth.json');
+    writeFileSync(
+      authFile,
+      JSON.stringify({
+        users: [
+          {
+            username: 'alice',
+            name: 'Alice',
+            passwordHash: hashPassword('wonderland'),
+            roles: ['query'],
+            categories: ['hr']
+          },
+          { username: 'carol', passwordHash: hashPassword('secret'), roles: ['query'], categories: ['*'] }
+        ],
+        apiKeys: [{ id: 'ci', keyHash: hashApiKey(INGEST_KEY), roles: ['ingest'], categories: ['*'] }]
+      })
+    );
+    api = await startApi({ AUTH_FILE: authFile, JWT_SECRET: 'test-secret' });
+    const documents = [
+      {
+        text: 'Employees receive twenty days of paid vacation per year.',
+        category: 'hr',
+        title: 'Leave policy'
+      },
+      { text: 'The IT helpdesk handles vacation auto-replies for email.', category: 'it', title: 'Email' }
+    ];
+    for (const document of documents) {
+      await api.app.inject({
+        method: 'POST',
+        url: '/ingest/text',
+        headers: { 'x-api-key': INGEST_KEY },
+        payload: document
+      });
+    }
+    aliceToken = (await login('alice', 'wonderland')).json<LoginResponse>().token;
+    carolToken = (await login('carol', 'secret')).json<LoginResponse>().token;
+  });
+
+  afterAll(async () => {
+    await api.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects requests without valid credentials', async () => {
+    expect((await api.app.inject({ method: 'GET', url: '/documents' })).statusCode).toBe(401);
+    const forged = `${aliceToken.slice(0, aliceToken.lastIndexOf('.'))}.invalid`;
+    expect(
+      (await api.app.inject({ method: 'GET', url: '/documents', headers: bearer(forged) })).statusCode
+    ).toBe(401);
+    const wrongKey = await api.app.inject({
+      method: 'GET',
+      url: '/documents',
+      headers: { 'x-api-key': 'nope' }
+    });
+    expect(wrongKey.statusCode).toBe(401);
+    expect((await login('alice', 'wrong')).statusCode).toBe(401);
+    expect((await api.app.inject({ method: 'GET', url: '/healthz' })).statusCode).toBe(200);
+  });
+
+  it('takes as long to reject unknown usernames as wrong passwords', async () => {
+    // Fastest of a few attempts, in milliseconds, to leave out pauses of the test process
+    const fastest = async (username: string) => {
+      const times: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const started = performance.now();
+        expect((await login(username, 'wrong')).json()).toEqual({ error: 'invalid username or password' });
+        times.push(performance.now() - started);
+      }
+      return Math.min(...times);
+    };
+    // Both check a password hash; without one an unknown username is rejected at once
+    expect(await fastest('mallory')).toBeGreaterThan((await fastest('alice')) / 2);
+  });
+
+  it('issues tokens that identify the caller', async () => {
+    const res = await login('alice', 'wonderland');
+    expect(res.statusCode).toBe(200);
+    expect(res.json<LoginResponse>().user).toEqual({
+      id: 'user:alice',
+      name: 'Alice',
+      roles: ['query'],
+      categories: ['hr']
+    });
+    const me = await api.app.inject({ method: 'GET', url: '/auth/me', headers: bearer(aliceToken) });
+    expect(me.json()).toEqual({ authEnabled: true, user: res.json<LoginResponse>().user });
+  });
+
+  it('requires the ingest role to change documents', async () => {
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/ingest/text',
+      headers: bearer(carolToken),
+      payload: { text: 'Not allowed.', category: 'hr' }
+    });
+    expect(res.statusCode).toBe(403);
+    const list = await api.app.inject({
+      method: 'GET',
+      url: '/documents',
+      headers: { 'x-api-key': INGEST_KEY }
+    });
+    expect(list.statusCode).toBe(403);
+  });
+
+  it('limits documents to the categories the caller is entitled to', async () => {
+    const alice = await api.app.inject({ method: 'GET', url: '/documents', headers: bearer(aliceToken) });
+    expect(alice.json<DocumentListResponse>().documents.map(doc => doc.category)).toEqual(['hr']);
+    const carol = await api.app.inject({ method: 'GET', url: '/documents', headers: bearer(carolToken) });
+    const itDocument = carol.json<DocumentListResponse>().documents.find(doc => doc.category === 'it')!;
+    const hidden = await api.app.inject({
+      method: 'GET',
+      url: `/documents/${itDocument.id}`,
+      headers: bearer(aliceToken)
+    });
+    expect(hidden.statusCode).toBe(404);
+  });
+
+  it('enforces category entitlements on chat queries', async () => {
+    const forbidden = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      headers: bearer(aliceToken),
+      payload: { query: 'vacation', category: 'it' }
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    const answer = api.llm.answer;
+    api.llm.answer = prompt => (prompt.match(/^\[\d+\]/gm) || []).join(' ');
+    try {
+      const res = await api.app.inject({
+        method: 'POST',
+        url: '/chat/query',
+        headers: bearer(aliceToken),
+        payload: { query: 'vacation' }
+      });
+      const body = res.json<ChatQueryResponse>();
+      expect(body.citations.length).toBeGreaterThan(0);
+      expect(body.citations.every(citation => citation.category === 'hr')).toBe(true);
+      const search = api.qdrant.requests.filter(req => req.path.endsWith('/points/search')).pop()!;
+      expect(search.body.filter).toEqual({ must: [{ key: 'category', match: { any: ['hr'] } }] });
+    } finally {
+      api.llm.answer = answer;
+    }
+  });
+
+  it('keeps conversations private to their owner', async () => {
+    const created = await api.app.inject({
+      method: 'POST',
+      url: '/conversations',
+      headers: bearer(aliceToken)
+    });
+    expect(created.json().ownerId).toBe('user:alice');
+    const id = created.json().id;
+    const own = await api.app.inject({
+      method: 'GET',
+      url: `/conversations/${id}`,
+      headers: bearer(aliceToken)
+    });
+    expect(own.statusCode).toBe(200);
+    const other = await api.app.inject({
+      method: 'GET',
+      url: `/conversations/${id}`,
+      headers: bearer(carolToken)
+    });
+    expect(other.statusCode).toBe(404);
+    const list = await api.app.inject({ method: 'GET', url: '/conversations', headers: bearer(carolToken) });
+    expect(list.json().conversations).toEqual([]);
+  });
+
+  it('lets only the asker rate an answer and only admins see the feedback summary', async () => {
+    const asked = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      headers: bearer(aliceToken),
+      payload: { query: 'vacation' }
+    });
+    const url = `/answers/${asked.json<ChatQueryResponse>().answerId}/feedback`;
+    const other = await api.app.inject({
+      method: 'POST',
+      url,
+      headers: bearer(carolToken),
+      payload: { rating: 'up' }
+    });
+    expect(other.statusCode).toBe(404);
+    const own = await api.app.inject({
+      method: 'POST',
+      url,
+      headers: bearer(aliceToken),
+      payload: { rating: 'up' }
+    });
+    expect(own.statusCode).toBe(200);
+    const summary = await api.app.inject({
+      method: 'GET',
+      url: '/feedback/summary',
+      headers: bearer(aliceToken)
+    });
+    expect(summary.statusCode).toBe(403);
+  });
+
+  it('rejects auth files with unknown roles', () => {
+    const file = path.join(dir, 'bad.json');
+    writeFileSync(
+      file,
+      JSON.stringify({ apiKeys: [{ id: 'x', keyHash: 'sha256$0', roles: ['root'], categories: [] }] })
+    );
+    expect(() => loadAuthConfig(file, 'secret', 60)).toThrow(/roles/);
+  });
+});
@@ -0,0 +1,205 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AnswerRecord, CacheStatsResponse, ChatQueryResponse } from '@ragika/shared';
+import { DiskCache, LruCache, QueryCache } from '../src/cache';
+import { FakeLlm, startFakeLlm } from './fakes';
+import { parseEvents, startApi, TestApi } from './harness';
+
+describe('cache backends', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-cache-'));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('evicts the least recently used entries', async () => {
+    const cache = new LruCache(2, 60000);
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    expect(await cache.get('a')).toBe(1);
+    await cache.set('c', 3);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBe(1);
+    expect(cache.size).toBe(2);
+  });
+
+  it('expires entries on disk', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new DiskCache(path.join(dir, 'entries'), 1000);
+    const key = 'a'.repeat(64);
+    await cache.set(key, { answer: 'Twenty days.' });
+    await cache.set('b'.repeat(64), [0.1, 0.2]);
+    expect(await cache.get(key)).toEqual({ answer: 'Twenty days.' });
+    vi.setSystemTime(Date.now() + 2000);
+    expect(await cache.get(key)).toBeUndefined();
+    expect(await cache.prune()).toBe(1);
+    expect(readdirSync(path.join(dir, 'entries'))).toEqual([]);
+    vi.useRealTimers();
+  });
+
+  it('keeps entries and invalidations on disk across instances', async () => {
+    const options = { backend: 'disk', maxEntries: 10, ttlSeconds: 60, dir: path.join(dir, 'query') };
+    const first = new QueryCache(options);
+    const hrScope = await first.scope(['hr']);
+    const itScope = await first.scope(['it']);
+    await first.invalidate(['it']);
+    await first.set('answer', first.key('answer', 'question', hrScope), 'Twenty days.');
+
+    const second = new QueryCache(options);
+    expect(await second.scope(['hr'])).toBe(hrScope);
+    expect(await second.get('answer', second.key('answer', 'question', hrScope))).toBe('Twenty days.');
+    expect(await second.scope(['it'])).not.toBe(itScope);
+  });
+
+  it('rejects unknown backends', () => {
+    expect(() => new QueryCache({ backend: 'redis', maxEntries: 10, ttlSeconds: 60, dir })).toThrow(
+      'Unknown cache backend "redis"'
+    );
+  });
+});
+
+describe('query cache', () => {
+  let api: TestApi;
+  let fallback: FakeLlm;
+
+  beforeAll(async () => {
+    fallback = await startFakeLlm();
+    api = await startApi({ CACHE_BACKEND: 'memory', LLM_FALLBACKS: `ollama|${fallback.url}|mistral:7b` });
+    const documents = [
+      {
+        text: 'Employees receive twenty days of paid vacation per year.',
+        category: 'hr',
+        title: 'Leave policy'
+      },
+      {
+        text: 'Laptops are replaced every three years by the IT department.',
+        category: 'it',
+        title: 'Hardware'
+      }
+    ];
+    for (const document of documents) {
+      await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+    }
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await fallback.close();
+  });
+
+  const ask = async (body: object) => {
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: body });
+    return res.json<ChatQueryResponse>();
+  };
+
+  it('answers repeated questions from the cache', async () => {
+    const first = await ask({ query: 'How many vacation days do employees get?' });
+    expect(first.cache).toEqual({ answer: false, search: false, embedding: false });
+    const prompts = api.llm.prompts.length;
+
+    const second = await ask({ query: '  how many vacation days do employees get ' });
+    expect(second.cache).toEqual({ answer: true });
+    expect(second.answer).toBe(first.answer);
+    expect(second.citations).toEqual(first.citations);
+    // Cached answers are logged under their own ID, for feedback
+    expect(second.answerId).toBeTruthy();
+    expect(second.answerId).not.toBe(first.answerId);
+    expect(api.llm.prompts).toHaveLength(prompts);
+
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'How many vacation days do employees get?' }
+    });
+    const events = parseEvents(res.payload);
+    expect(events[0]).toMatchObject({ type: 'citations', cache: { answer: true } });
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', answer: first.answer });
+    expect(api.llm.prompts).toHaveLength(prompts);
+  });
+
+  it('logs cached answers with the model and prompt that generated them', async () => {
+    const logged = async (answerId: string) => {
+      const res = await api.app.inject({
+        method: 'POST',
+        url: `/answers/${answerId}/feedback`,
+        payload: { rating: 'up' }
+      });
+      return res.json<AnswerRecord>();
+    };
+    const query = 'Who replaces laptops?';
+    api.llm.fail = true;
+    const generated = await ask({ query });
+    api.llm.fail = false;
+    expect(await logged(generated.answerId!)).toMatchObject({ model: 'ollama:mistral:7b' });
+
+    // The primary LLM answers again, but the cached answer came from the fallback
+    const cached = await ask({ query });
+    expect(cached.cache).toEqual({ answer: true });
+    expect(await logged(cached.answerId!)).toMatchObject({
+      model: 'ollama:mistral:7b',
+      promptVersion: 'default@1'
+    });
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query/stream', payload: { query } });
+    const done = parseEvents(res.payload).pop();
+    expect(done?.type === 'done' && (await logged(done.answerId!)).model).toBe('ollama:mistral:7b');
+  });
+
+  it('reuses retrieval for questions with a different prompt', async () => {
+    const res = await ask({ query: 'How often are laptops replaced?' });
+    expect(res.cache).toMatchObject({ answer: false, search: false });
+    const other = await ask({ query: 'How often are laptops replaced?', language: 'German' });
+    expect(other.cache).toEqual({ answer: false, search: true });
+  });
+
+  it('does not cache answers to follow-up questions', async () => {
+    const history = [
+      { role: 'user', content: 'How many vacation days do employees get?' },
+      { role: 'assistant', content: 'Twenty days. [1]' }
+    ];
+    await ask({ query: 'And per year?', history });
+    const res = await ask({ query: 'And per year?', history });
+    expect(res.cache?.answer).toBe(false);
+  });
+
+  it('invalidates entries when documents in their categories change', async () => {
+    await ask({ query: 'Who replaces laptops?', category: 'it' });
+    await ask({ query: 'How many vacation days?', category: 'hr' });
+    expect((await ask({ query: 'Who replaces laptops?', category: 'it' })).cache).toEqual({ answer: true });
+
+    await api.app.inject({
+      method: 'POST',
+      url: '/ingest/text',
+      payload: { text: 'Monitors are replaced every five years.', category: 'it', title: 'Monitors' }
+    });
+    // Only the embedding of the query is still valid
+    expect((await ask({ query: 'Who replaces laptops?', category: 'it' })).cache).toEqual({
+      answer: false,
+      search: false,
+      embedding: true
+    });
+    expect((await ask({ query: 'How many vacation days?', category: 'hr' })).cache).toEqual({ answer: true });
+
+    const list = await api.app.inject({ method: 'GET', url: '/documents?category=hr' });
+    const [document] = list.json().documents;
+    await api.app.inject({ method: 'DELETE', url: `/documents/${document.id}` });
+    expect((await ask({ query: 'How many vacation days?', category: 'hr' })).cache?.answer).toBe(false);
+  });
+
+  it('reports hits and misses per layer', async () => {
+    const res = await api.app.inject({ method: 'GET', url: '/cache/stats' });
+    expect(res.statusCode).toBe(200);
+    const stats = res.json<CacheStatsResponse>();
+    expect(stats.enabled).toBe(true);
+    expect(stats.entries).toBeGreaterThan(0);
+    expect(stats.layers.answer.hits).toBeGreaterThanOrEqual(3);
+    expect(stats.layers.search.hits).toBeGreaterThanOrEqual(1);
+    expect(stats.layers.embedding.hits).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatQueryResponse } from '@ragika/shared';
+import { parseEvents, startApi, TestApi } from './harness';
+
+describe('chat queries', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi();
+    const documents = [
+      { text: 'Employees receive twenty days of paid vacation per year.', category: 'hr', title: 'Leave policy' },
+      { text: 'Vacation requests must be approved by your manager.', category: 'hr', title: 'Approvals' },
+      { text: 'Laptops are replaced every three years by the IT department.', category: 'it', title: 'Hardware' },
+      { text: 'The IT helpdesk handles vacation auto-replies for email.', category: 'it', title: 'Email' }
+    ];
+    for (const document of documents) {
+      await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+    }
+  });
+
+  afterEach(() => {
+    api.tei.failRerank = false;
+    api.llm.fail = false;
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const query = (body: object) => api.app.inject({ method: 'POST', url: '/chat/query', payload: body });
+
+  it('answers from the retrieved contexts and cites them', async () => {
+    const res = await query({ query: 'How many vacation days do employees get?' });
+    expect(res.statusCode).toBe(200);
+    const body = res.json<ChatQueryResponse>();
+    expect(body.answer).toBe('Employees receive twenty days of paid vacation per year. [1]');
+    expect(body.citations).toHaveLength(1);
+    expect(body.citations[0]).toMatchObject({ title: 'Leave policy', category: 'hr' });
+    expect(body.citations[0].rerankScore).toBeGreaterThan(0);
+    expect(body.grounding).toMatchObject({ lowGrounding: false, invalidCitations: [] });
+
+    const prompt = api.llm.prompts[api.llm.prompts.length - 1];
+    expect(prompt).toContain('[1] Employees receive twenty days of paid vacation per year.');
+    expect(prompt).toContain('Question: How many vacation days do employees get?');
+    // Every context in the prompt is reported, within the default budget
+    expect(body.usage).toMatchObject({
+      contexts: prompt.match(/^\[\d+\]/gm)!.length,
+      duplicates: 0,
+      contextBudget: 4000
+    });
+    expect(body.usage!.promptTokens).toBeGreaterThan(body.usage!.contextTokens);
+    const request = api.llm.requests[api.llm.requests.length - 1];
+    expect(request.body.options).toEqual({ num_ctx: 8192 });
+  });
+
+  it('restricts retrieval to the requested category', async () => {
+    const answer = api.llm.answer;
+    // Cite every context so that all retrieved chunks are returned
+    api.llm.answer = prompt => (prompt.match(/^\[\d+\]/gm) || []).join(' ');
+    try {
+      const res = await query({ query: 'vacation', category: 'it' });
+      const body = res.json<ChatQueryResponse>();
+      expect(body.citations.length).toBeGreaterThan(0);
+      expect(body.citations.every(citation => citation.category === 'it')).toBe(true);
+      const searches = api.qdrant.requests.filter(req => req.path.endsWith('/points/search')).slice(-2);
+      for (const search of searches) {
+        expect(search.body.filter).toEqual({ must: [{ key: 'category', match: { value: 'it' } }] });
+      }
+    } finally {
+      api.llm.answer = answer;
+    }
+  });
+
+  it('answers without calling the LLM when nothing is retrieved', async () => {
+    const prompts = api.llm.prompts.length;
+    const res = await query({ query: 'vacation', category: 'legal' });
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({
+      answer: "I'm sorry, I couldn't find any information relevant to your question.",
+      citations: [],
+      answerId: expect.any(String)
+    });
+    expect(api.llm.prompts).toHaveLength(prompts);
+  });
+
+  it('keeps the retrieval order when the reranker fails', async () => {
+    api.tei.failRerank = true;
+    const res = await query({ query: 'How many vacation days do employees get?' });
+    expect(res.statusCode).toBe(200);
+    const body = res.json<ChatQueryResponse>();
+    expect(body.citations).toHaveLength(1);
+    expect(body.citations[0].rerankScore).toBeUndefined();
+    expect(api.tei.requests[api.tei.requests.length - 1].path).toBe('/rerank');
+  });
+
+  it('reports the failed stage when the LLM fails', async () => {
+    api.llm.fail = true;
+    const res = await query({ query: 'How many vacation days do employees get?' });
+    expect(res.statusCode).toBe(502);
+    expect(res.json()).toEqual({ error: 'Failed to process chat query', code: 'generation_failed' });
+  });
+
+  it('rejects malformed history', async () => {
+    const res = await query({ query: 'And for managers?', history: [{ role: 'system', content: 'x' }] });
+    expect(res.statusCode).toBe(400);
+  });
+
+  it('streams citations, answer fragments and the verified answer', async () => {
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'How many vacation days do employees get?' }
+    });
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    const events = parseEvents(res.payload);
+    expect(events[0]).toMatchObject({ type: 'citations', usage: { duplicates: 0 } });
+    const deltas = events.filter(event => event.type === 'delta');
+    expect(deltas.length).toBeGreaterThan(1);
+    const done = events[events.length - 1];
+    expect(done).toMatchObject({
+      type: 'done',
+      answer: 'Employees receive twenty days of paid vacation per year. [1]'
+    });
+  });
+
+  it('streams an error event when the LLM fails', async () => {
+    api.llm.fail = true;
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'How many vacation days do employees get?' }
+    });
+    const events = parseEvents(res.payload);
+    expect(events.map(event => event.type)).toEqual(['citations', 'error']);
+    expect(events[1]).toMatchObject({ code: 'generation_failed' });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument, CHUNK_STRATEGIES, countTokens } from '../src/chunking';
+
+// Four sentences of seven tokens each
+const POLICY =
+  'Employees receive twenty days of vacation. Unused days carry over until March. ' +
+  'Requests need approval from managers. Sick leave is counted separately.';
+
+const HANDBOOK = `# Handbook
+
+Welcome to the company.
+
+## Leave
+
+Employees receive twenty days of vacation.
+
+### Carry-over
+
+Unused days carry over until March.
+
+\`\`\`sh
+# not a heading
+cp leave.csv /archive
+\`\`\`
+
+## Equipment
+
+Laptops are replaced every three years.
+`;
+
+describe('chunking', () => {
+  it('repeats the trailing sentences of a chunk at the start of the next', () => {
+    const chunks = chunkDocument(POLICY, 'sentence', { maxTokens: 14, overlapTokens: 7 });
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      'Employees receive twenty days of vacation. Unused days carry over until March.',
+      'Unused days carry over until March. Requests need approval from managers.',
+      'Requests need approval from managers. Sick leave is counted separately.'
+    ]);
+    for (const chunk of chunks) {
+      expect(countTokens(chunk.text)).toBeLessThanOrEqual(14);
+    }
+
+    const separate = chunkDocument(POLICY, 'sentence', { maxTokens: 14, overlapTokens: 0 });
+    expect(separate.map(chunk => chunk.text)).toEqual([
+      'Employees receive twenty days of vacation. Unused days carry over until March.',
+      'Requests need approval from managers. Sick leave is counted separately.'
+    ]);
+  });
+
+  it('records the enclosing headings of markdown sections', () => {
+    const chunks = chunkDocument(HANDBOOK, 'markdown', { maxTokens: 200, overlapTokens: 0 });
+    expect(chunks.map(chunk => chunk.headingPath)).toEqual([
+      ['Handbook'],
+      ['Handbook', 'Leave'],
+      ['Handbook', 'Leave', 'Carry-over'],
+      ['Handbook', 'Equipment']
+    ]);
+    expect(chunks[1].text).toBe('## Leave\n\nEmployees receive twenty days of vacation.');
+    // Comments in code blocks are not headings
+    expect(chunks[2].text).toContain('# not a heading');
+  });
+
+  it('gives offsets that locate each chunk in the source', () => {
+    for (const strategy of CHUNK_STRATEGIES) {
+      for (const source of [POLICY, HANDBOOK]) {
+        const chunks = chunkDocument(source, strategy, { maxTokens: 10, overlapTokens: 3 });
+        expect(chunks.length, strategy).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+          expect(chunk.text, strategy).toBe(source.slice(chunk.start, chunk.end));
+        }
+        // Chunks follow the source in order
+        for (let i = 1; i < chunks.length; i++) {
+          expect(chunks[i].start, strategy).toBeGreaterThan(chunks[i - 1].start);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../src/config';
+
+describe('configuration', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-config-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function configFile(settings: object): string {
+    const file = path.join(dir, `config-${Math.random().toString(36).slice(2)}.json`);
+    writeFileSync(file, JSON.stringify(settings));
+    return file;
+  }
+
+  it('falls back to defaults for unset and empty values', () => {
+    const config = loadConfig({ TOP_K: '', LLM_PROVIDER: 'Ollama' });
+    expect(config).toMatchObject({
+      PORT: 5000,
+      TOP_K: 20,
+      LLM_PROVIDER: 'ollama',
+      RETRIEVAL_MODE: 'hybrid',
+      RERANK_PROVIDER: 'none',
+      CORS_ORIGINS: [],
+      LLM_FALLBACKS: []
+    });
+    expect(loadConfig({ RERANK_BASE_URL: 'http://tei:8080' }).RERANK_PROVIDER).toBe('tei');
+  });
+
+  it('parses numbers, lists and structured settings', () => {
+    const config = loadConfig({
+      CIRCUIT_RESET_SECONDS: '2.5',
+      UPSTREAM_RETRIES: '0',
+      CORS_ORIGINS: 'https://a.example, https://b.example',
+      METADATA_INDEXES: 'region:keyword',
+      LLM_FALLBACKS: 'openai_compat|http://vllm:8000|mistral'
+    });
+    expect(config.CIRCUIT_RESET_SECONDS).toBe(2.5);
+    expect(config.UPSTREAM_RETRIES).toBe(0);
+    expect(config.CORS_ORIGINS).toEqual(['https://a.example', 'https://b.example']);
+    expect(config.METADATA_INDEXES).toEqual({ 'metadata.region': 'keyword' });
+    expect(config.LLM_FALLBACKS).toEqual([
+      { provider: 'openai_compat', baseUrl: 'http://vllm:8000', model: 'mistral' }
+    ]);
+  });
+
+  it('reads a config file, with the environment taking precedence', () => {
+    const CONFIG_FILE = configFile({ TOP_K: 10, LLM_MODEL: 'mistral', CHUNK_STRATEGY: 'markdown' });
+    const config = loadConfig({ CONFIG_FILE, TOP_K: '30' });
+    expect(config).toMatchObject({ TOP_K: 30, LLM_MODEL: 'mistral', CHUNK_STRATEGY: 'markdown' });
+  });
+
+  it('reports every invalid setting at once', () => {
+    let error: unknown;
+    try {
+      loadConfig({ TOP_K: 'twenty', RETRIEVAL_MODE: 'fuzzy', QDRANT_URL: 'qdrant 6333', PORT: '70000' });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).problems).toEqual([
+      'PORT="70000": expected an integer between 1 and 65535',
+      'QDRANT_URL="qdrant 6333": expected an absolute URL',
+      'RETRIEVAL_MODE="fuzzy": expected one of dense, sparse, hybrid',
+      'TOP_K="twenty": expected an integer >= 1'
+    ]);
+    expect((error as ConfigError).message).toMatch(/^Invalid configuration:\n {2}PORT=/);
+  });
+
+  it('requires the base URL of the TEI reranker', () => {
+    expect(() => loadConfig({ RERANK_PROVIDER: 'tei' })).toThrow(
+      'RERANK_BASE_URL: required when RERANK_PROVIDER is tei'
+    );
+    expect(() => loadConfig({ RERANK_PROVIDER: 'tei', RERANK_BASE_URL: 'tei 8080' })).toThrow(
+      /^Invalid configuration:\n {2}RERANK_BASE_URL="tei 8080": expected an absolute URL$/
+    );
+  });
+
+  it('rejects unknown keys and unreadable config files', () => {
+    const CONFIG_FILE = configFile({ TOPK: 10 });
+    expect(() => loadConfig({ CONFIG_FILE })).toThrow(`TOPK: unknown setting in ${CONFIG_FILE}`);
+    expect(() => loadConfig({ CONFIG_FILE: path.join(dir, 'missing.json') })).toThrow(
+      /^Invalid configuration:\n {2}CONFIG_FILE: cannot read/
+    );
+  });
+});
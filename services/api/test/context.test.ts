@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, packContexts, PackingOptions } from '../src/context';
+import type { SearchHit } from '../src/providers';
+
+const SOURCE =
+  'Employees receive twenty days of paid vacation per year. Unused days may be carried over until March. ' +
+  'Requests must be approved by your manager.';
+
+// A chunk of SOURCE at the given offsets
+function chunk(id: string, start: number, end: number): { hit: SearchHit } {
+  return {
+    hit: {
+      id,
+      score: 1,
+      vector: [],
+      payload: {
+        documentId: 'policy',
+        category: 'hr',
+        title: 'Leave policy',
+        text: SOURCE.slice(start, end),
+        start,
+        end
+      }
+    } as unknown as SearchHit
+  };
+}
+
+// A chunk of a document of its own
+function passage(id: string, text: string): { hit: SearchHit } {
+  return {
+    hit: {
+      id,
+      score: 1,
+      vector: [],
+      payload: { documentId: id, category: 'hr', title: id, text }
+    } as unknown as SearchHit
+  };
+}
+
+const options = (overrides: Partial<PackingOptions> = {}): PackingOptions => ({
+  budget: 1000,
+  maxContexts: 8,
+  lambda: 0.7,
+  duplicateThreshold: 0.8,
+  countTokens: text => estimateTokens(text, 4),
+  ...overrides
+});
+
+describe('context packing', () => {
+  it('estimates tokens from word pieces and punctuation', () => {
+    expect(estimateTokens('', 4)).toBe(0);
+    expect(estimateTokens('Vacation days.', 4)).toBe(2 + 1 + 1);
+    expect(estimateTokens('POL-2023', 4)).toBe(1 + 1 + 1);
+  });
+
+  it('merges overlapping and adjacent chunks of a document into one context', () => {
+    // "Unused days…" overlaps the first chunk; "Requests…" follows it after a space
+    const ranked = [chunk('a', 0, 56), chunk('c', 102, SOURCE.length), chunk('b', 40, 101)];
+    const { contexts } = packContexts(ranked, options());
+    expect(contexts).toHaveLength(2);
+    expect(contexts[0].parts.map(part => part.hit.id)).toEqual(['a', 'b']);
+    expect(contexts[0].text).toBe(SOURCE.slice(0, 101));
+    expect(contexts[0]).toMatchObject({ start: 0, end: 101 });
+    expect(contexts[1].parts.map(part => part.hit.id)).toEqual(['c']);
+  });
+
+  it('merges a chunk that closes the gap between contexts into the first of them', () => {
+    const ranked = [chunk('a', 0, 56), chunk('c', 102, SOURCE.length), chunk('b', 57, 101)];
+    const { contexts } = packContexts(ranked, options({ lambda: 1 }));
+    expect(contexts.map(context => context.parts.length)).toEqual([2, 1]);
+    expect(contexts[0].text).toBe(SOURCE.slice(0, 101));
+  });
+
+  it('drops near-duplicate passages', () => {
+    const ranked = [
+      passage('a', 'Employees receive twenty days of paid vacation per year.'),
+      passage('b', 'Employees receive twenty days of paid vacation each year.'),
+      passage('c', 'Laptops are replaced every three years.')
+    ];
+    const result = packContexts(ranked, options({ duplicateThreshold: 0.7 }));
+    expect(result.contexts.map(context => context.parts[0].hit.id)).toEqual(['a', 'c']);
+    expect(result.duplicates).toBe(1);
+  });
+
+  it('prefers diverse passages over similar ones ranked higher', () => {
+    const ranked = [
+      passage('a', 'Vacation days are granted per year of service to employees.'),
+      passage('b', 'Vacation days are granted to employees per calendar year.'),
+      passage('c', 'Laptops are replaced every three years.')
+    ];
+    const order = (lambda: number) =>
+      packContexts(ranked, options({ lambda, duplicateThreshold: 1 })).contexts.map(
+        context => context.parts[0].hit.id
+      );
+    expect(order(1)).toEqual(['a', 'b', 'c']);
+    expect(order(0.5)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('packs chunks until the token budget is used up', () => {
+    const ranked = [
+      passage('a', 'Employees receive twenty days of paid vacation per year.'),
+      passage('b', 'Unused days may be carried over until the end of March in the following year.'),
+      passage('c', 'Laptops are replaced.')
+    ];
+    const countTokens = (text: string) => estimateTokens(text, 4);
+    const budget = countTokens(ranked[0].hit.payload.text) + countTokens(ranked[2].hit.payload.text) + 6;
+    const result = packContexts(ranked, options({ budget, lambda: 1 }));
+    // The second chunk does not fit, the smaller third one does
+    expect(result.contexts.map(context => context.parts[0].hit.id)).toEqual(['a', 'c']);
+    expect(result.tokens).toBeLessThanOrEqual(budget);
+    expect(packContexts(ranked, options({ budget: 2 })).contexts).toEqual([]);
+  });
+
+  it('limits the number of contexts', () => {
+    const ranked = [passage('a', 'Vacation.'), passage('b', 'Laptops.'), passage('c', 'Parking.')];
+    expect(packContexts(ranked, options({ maxContexts: 2 })).contexts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Conversation, ConversationSummary, ImportConversationsResponse } from '@ragika/shared';
+import { DEFAULT_TITLE, titleFromQuestion } from '../src/conversations';
+import { startApi, TestApi } from './harness';
+
+describe('conversation titles', () => {
+  it('collapses whitespace and cuts long questions at a word boundary', () => {
+    expect(titleFromQuestion('  How many   vacation\ndays? ')).toBe('How many vacation days?');
+    expect(titleFromQuestion('   ')).toBe(DEFAULT_TITLE);
+    const long =
+      'How many vacation days do employees get when they have worked here for more than five years?';
+    expect(titleFromQuestion(long)).toBe('How many vacation days do employees get when they have…');
+  });
+});
+
+describe('conversations', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const create = async (payload: object = {}) => {
+    const res = await api.app.inject({ method: 'POST', url: '/conversations', payload });
+    expect(res.statusCode).toBe(201);
+    return res.json<Conversation>();
+  };
+  const append = (id: string, role: string, content: string) =>
+    api.app.inject({ method: 'POST', url: `/conversations/${id}/messages`, payload: { role, content } });
+  const fetchConversation = async (id: string) => {
+    const res = await api.app.inject({ method: 'GET', url: `/conversations/${id}` });
+    return res.json<Conversation>();
+  };
+  const list = async () => {
+    const res = await api.app.inject({ method: 'GET', url: '/conversations' });
+    return res.json<{ conversations: ConversationSummary[] }>().conversations;
+  };
+
+  it('titles a conversation after its first question and keeps messages in order', async () => {
+    const { id, title } = await create();
+    expect(title).toBe(DEFAULT_TITLE);
+
+    const first = await append(id, 'user', 'How many vacation days do employees get?');
+    expect(first.statusCode).toBe(201);
+    expect(first.json().conversation).toMatchObject({
+      title: 'How many vacation days do employees get?',
+      messageCount: 1
+    });
+    await append(id, 'assistant', 'Twenty days. [1]');
+    await append(id, 'user', 'Do unused days carry over?');
+
+    const conversation = await fetchConversation(id);
+    // Later questions leave the title alone
+    expect(conversation.title).toBe('How many vacation days do employees get?');
+    expect(conversation.messages.map(message => [message.role, message.content])).toEqual([
+      ['user', 'How many vacation days do employees get?'],
+      ['assistant', 'Twenty days. [1]'],
+      ['user', 'Do unused days carry over?']
+    ]);
+  });
+
+  it('keeps titles given by the caller', async () => {
+    const { id } = await create({ title: 'Leave questions' });
+    await append(id, 'user', 'How many vacation days do employees get?');
+    expect((await fetchConversation(id)).title).toBe('Leave questions');
+  });
+
+  it('renames and deletes conversations', async () => {
+    const { id } = await create();
+    const renamed = await api.app.inject({
+      method: 'PATCH',
+      url: `/conversations/${id}`,
+      payload: { title: '  Laptops  ' }
+    });
+    expect(renamed.statusCode).toBe(200);
+    expect(renamed.json<ConversationSummary>().title).toBe('Laptops');
+    expect((await list()).find(summary => summary.id === id)?.title).toBe('Laptops');
+
+    const blank = await api.app.inject({
+      method: 'PATCH',
+      url: `/conversations/${id}`,
+      payload: { title: ' ' }
+    });
+    expect(blank.statusCode).toBe(400);
+
+    expect((await api.app.inject({ method: 'DELETE', url: `/conversations/${id}` })).statusCode).toBe(204);
+    expect((await api.app.inject({ method: 'GET', url: `/conversations/${id}` })).statusCode).toBe(404);
+    expect((await list()).map(summary => summary.id)).not.toContain(id);
+    expect((await api.app.inject({ method: 'DELETE', url: `/conversations/${id}` })).statusCode).toBe(404);
+  });
+
+  it('imports chats kept in local storage once', async () => {
+    const chats = [
+      {
+        id: 'legacy-1',
+        title: DEFAULT_TITLE,
+        messages: [
+          { id: 'm1', role: 'user', content: 'How often are laptops replaced?' },
+          { id: 'm2', role: 'assistant', content: 'Every three years. [1]' }
+        ]
+      },
+      { id: 'legacy-2', title: 'Parking', messages: [] }
+    ];
+    const importChats = async () => {
+      const res = await api.app.inject({
+        method: 'POST',
+        url: '/conversations/import',
+        payload: { conversations: chats }
+      });
+      expect(res.statusCode).toBe(200);
+      return res.json<ImportConversationsResponse>();
+    };
+
+    expect(await importChats()).toEqual({ imported: 2, skipped: 0 });
+    expect(await importChats()).toEqual({ imported: 0, skipped: 2 });
+
+    const imported = (await list()).filter(summary => summary.id.startsWith('legacy-'));
+    expect(imported.map(summary => [summary.id, summary.title, summary.messageCount]).sort()).toEqual([
+      ['legacy-1', 'How often are laptops replaced?', 2],
+      ['legacy-2', 'Parking', 0]
+    ]);
+    expect((await fetchConversation('legacy-1')).messages.map(message => message.id)).toEqual(['m1', 'm2']);
+  });
+});
@@ -0,0 +1,138 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { EvaluationReport } from '../src/eval/cli';
+import { firstHitRanks, ndcgAtK, recallAtK, reciprocalRank } from '../src/eval/metrics';
+import { startApi, TestApi } from './harness';
+
+describe('retrieval metrics', () => {
+  // Ranks 1..4: irrelevant, target a, target a again, target b
+  const ranks = firstHitRanks([[], ['a'], ['a'], ['b']]);
+
+  it('records the first rank at which each target is matched', () => {
+    expect([...ranks.entries()]).toEqual([
+      ['a', 2],
+      ['b', 4]
+    ]);
+  });
+
+  it('computes recall@k over distinct targets', () => {
+    expect(recallAtK(ranks, 3, 1)).toBe(0);
+    expect(recallAtK(ranks, 3, 3)).toBeCloseTo(1 / 3);
+    expect(recallAtK(ranks, 3, 4)).toBeCloseTo(2 / 3);
+  });
+
+  it('computes the reciprocal rank of the first relevant chunk', () => {
+    expect(reciprocalRank(ranks)).toBe(0.5);
+    expect(reciprocalRank(new Map())).toBe(0);
+  });
+
+  it('normalises DCG by the ideal ranking', () => {
+    expect(ndcgAtK(firstHitRanks([['a'], ['b']]), 2, 2)).toBe(1);
+    const expected = (1 / Math.log2(3) + 1 / Math.log2(5)) / (1 + 1 / Math.log2(3));
+    expect(ndcgAtK(ranks, 2, 4)).toBeCloseTo(expected);
+    expect(ndcgAtK(ranks, 2, 1)).toBe(0);
+  });
+});
+
+describe('evaluation command', () => {
+  let api: TestApi;
+  let dir: string;
+  let hardwareId: string;
+
+  beforeAll(async () => {
+    api = await startApi();
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-eval-'));
+    const documents = [
+      {
+        text: 'Employees receive twenty days of paid vacation per year.',
+        category: 'hr',
+        title: 'Leave policy'
+      },
+      {
+        text: 'Laptops are replaced every three years by the IT department.',
+        category: 'it',
+        title: 'Hardware'
+      }
+    ];
+    for (const document of documents) {
+      const res = await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+      if (document.title === 'Hardware') hardwareId = res.json().documentId;
+    }
+    writeFileSync(
+      path.join(dir, 'golden.jsonl'),
+      [
+        {
+          id: 'leave',
+          question: 'How many vacation days do employees get?',
+          relevantSnippets: ['twenty DAYS of paid']
+        },
+        { id: 'laptops', question: 'How often are laptops replaced?', relevantDocumentIds: [hardwareId] }
+      ]
+        .map(question => JSON.stringify(question))
+        .join('\n')
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await api.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Run the command, returning what it printed; progress is not kept
+  const run = async (...args: string[]) => {
+    const printed: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation(line => printed.push(String(line)));
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    // Imported once the API is started, so that it shares the API's modules
+    const { main } = await import('../src/eval/cli');
+    await main([path.join(dir, 'golden.jsonl'), '--k', '1,3', ...args]);
+    return printed;
+  };
+  const readReport = (name: string) =>
+    JSON.parse(readFileSync(path.join(dir, name), 'utf8')) as EvaluationReport;
+
+  it('reports retrieval metrics for a golden set', async () => {
+    await run('--out', path.join(dir, 'report.json'));
+    const report = readReport('report.json');
+    expect(report.dataset).toMatchObject({ questions: 2 });
+    expect(report.dataset.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(report.ks).toEqual([1, 3]);
+    expect(report.summary).toMatchObject({ 'recall@1': 1, 'recall@3': 1, mrr: 1 });
+    expect(report.questions.map(question => [question.id, question.firstRelevantRank])).toEqual([
+      ['leave', 1],
+      ['laptops', 1]
+    ]);
+    expect(report.settings).toMatchObject({ collection: 'test', retrievalMode: 'hybrid' });
+  });
+
+  it('compares a report with a baseline', async () => {
+    await run('--out', path.join(dir, 'current.json'));
+    const current = readReport('current.json');
+    const baseline: EvaluationReport = {
+      ...current,
+      dataset: { ...current.dataset, sha256: '0'.repeat(64) },
+      settings: { ...current.settings, topK: current.settings.topK + 2 },
+      summary: { ...current.summary, mrr: 0.5 }
+    };
+    writeFileSync(path.join(dir, 'baseline.json'), JSON.stringify(baseline));
+
+    const printed = await run('--compare', path.join(dir, 'baseline.json'));
+    expect(printed).toContain('Warning: the baseline was produced from a different golden set');
+    // Only the settings that differ are listed
+    expect(printed.filter(line => line.startsWith('Setting '))).toEqual([
+      `Setting topK: ${current.settings.topK + 2} -> ${current.settings.topK}`
+    ]);
+    expect(printed.find(line => line.startsWith('mrr'))?.split(/\s+/)).toEqual([
+      'mrr',
+      '0.500',
+      '1.000',
+      '+0.500'
+    ]);
+  });
+});
@@ -0,0 +1,288 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { HashEmbedder } from '../src/providers';
+import { tokenize } from '../src/sparse';
+
+/**
+ * Minimal stand-ins for the HTTP services the API talks to. Each fake
+ * listens on a random local port, records the requests it receives and
+ * can be told to fail so error handling can be exercised.
+ */
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface FakeServer {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+type Handler = (req: RecordedRequest, res: http.ServerResponse) => void;
+
+function json(res: http.ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function startServer(handler: Handler): Promise<FakeServer> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const recorded = {
+        method: req.method || 'GET',
+        path: (req.url || '/').split('?')[0],
+        body: raw ? JSON.parse(raw) : undefined
+      };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+interface StoredPoint {
+  id: string;
+  payload: Record<string, any>;
+  vector: Record<string, any>;
+}
+
+// Values of a (possibly nested) payload key; conditions on lists match any element
+function payloadValues(payload: Record<string, any>, key: string): any[] {
+  const value = key.split('.').reduce((obj, part) => obj?.[part], payload as any);
+  return value === undefined || value === null ? [] : [].concat(value);
+}
+
+function inRange(value: any, range: any): boolean {
+  const asNumber = (v: any) => (typeof v === 'string' ? Date.parse(v) : v);
+  const actual = asNumber(value);
+  return (
+    (range.gt === undefined || actual > asNumber(range.gt)) &&
+    (range.gte === undefined || actual >= asNumber(range.gte)) &&
+    (range.lt === undefined || actual < asNumber(range.lt)) &&
+    (range.lte === undefined || actual <= asNumber(range.lte))
+  );
+}
+
+/** Evaluate a Qdrant filter or condition: must, should, must_not, match and range */
+function matchesFilter(point: StoredPoint, filter: any): boolean {
+  if (!filter) return true;
+  if (filter.key) {
+    const values = payloadValues(point.payload, filter.key);
+    if (filter.range) return values.some(value => inRange(value, filter.range));
+    if (filter.match?.any) return values.some(value => filter.match.any.includes(value));
+    return values.includes(filter.match?.value);
+  }
+  const must: any[] = filter.must || [];
+  const should: any[] = filter.should || [];
+  const mustNot: any[] = filter.must_not || [];
+  return (
+    must.every(condition => matchesFilter(point, condition)) &&
+    (should.length === 0 || should.some(condition => matchesFilter(point, condition))) &&
+    !mustNot.some(condition => matchesFilter(point, condition))
+  );
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, i) => {
+    dot += value * b[i];
+    normA += value * value;
+    normB += b[i] * b[i];
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function sparseDot(query: { indices: number[]; values: number[] }, doc: { indices: number[]; values: number[] }) {
+  let score = 0;
+  query.indices.forEach((index, i) => {
+    const position = doc.indices.indexOf(index);
+    if (position !== -1) score += query.values[i] * doc.values[position];
+  });
+  return score;
+}
+
+export interface FakeQdrant extends FakeServer {
+  /** Points of the collection by ID */
+  points: Map<string, StoredPoint>;
+  /** When set, every request is answered with a server error */
+  fail: boolean;
+}
+
+/**
+ * Qdrant REST API for a single collection with a named dense vector and a
+ * sparse vector, or a single unnamed dense vector if created that way:
+ * readiness, collection info and creation, payload indexes, upsert,
+ * search, scroll and delete. Search is brute force; the sparse IDF
+ * modifier is not applied.
+ */
+export async function startFakeQdrant(): Promise<FakeQdrant> {
+  const points = new Map<string, StoredPoint>();
+  let collection: any = null;
+  const payloadSchema: Record<string, { data_type: string }> = {};
+  const fake = { points, fail: false } as FakeQdrant;
+  const server = await startServer((req, res) => {
+    if (fake.fail) return json(res, { status: 'service unavailable' }, 503);
+    if (req.path === '/readyz') return json(res, { status: 'ok' });
+    const route = req.path.replace(/^\/collections\/[^/]+/, '');
+    if (route === '' && req.method === 'GET') {
+      return collection
+        ? json(res, { result: { config: { params: collection }, payload_schema: payloadSchema } })
+        : json(res, { status: 'not found' }, 404);
+    }
+    if (route === '' && req.method === 'PUT') {
+      collection = { vectors: req.body.vectors, sparse_vectors: req.body.sparse_vectors };
+      return json(res, { result: true });
+    }
+    if (route === '/index') {
+      payloadSchema[req.body.field_name] = { data_type: req.body.field_schema };
+      return json(res, { result: { status: 'completed' } });
+    }
+    if (route === '/points' && req.method === 'PUT') {
+      for (const point of req.body.points) {
+        points.set(String(point.id), { id: String(point.id), payload: point.payload, vector: point.vector });
+      }
+      return json(res, { result: { status: 'completed' } });
+    }
+    if (route === '/points/search') {
+      const { vector, filter, limit } = req.body;
+      const hits = [...points.values()]
+        .filter(point => matchesFilter(point, filter))
+        .map(point => {
+          // Collections with a single unnamed vector are searched with a bare one
+          const query = Array.isArray(vector) ? vector : vector.vector;
+          const stored = Array.isArray(vector) ? point.vector : point.vector[vector.name];
+          const score = Array.isArray(query) ? cosine(query, stored) : sparseDot(query, stored);
+          return { id: point.id, payload: point.payload, score };
+        })
+        .filter(hit => hit.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+      return json(res, { result: hits });
+    }
+    if (route === '/points/scroll') {
+      const result = [...points.values()]
+        .filter(point => matchesFilter(point, req.body.filter))
+        .map(point => ({ id: point.id, payload: point.payload, ...(req.body.with_vector ? { vector: point.vector } : {}) }));
+      return json(res, { result: { points: result, next_page_offset: null } });
+    }
+    if (route === '/points/delete') {
+      for (const point of [...points.values()]) {
+        const byId = req.body.points?.map(String).includes(point.id);
+        if (byId || (req.body.filter && matchesFilter(point, req.body.filter))) points.delete(point.id);
+      }
+      return json(res, { result: { status: 'completed' } });
+    }
+    json(res, { status: 'not found' }, 404);
+  });
+  return Object.assign(fake, server);
+}
+
+export interface FakeTei extends FakeServer {
+  /** Vector size produced by /embed */
+  dimension: number;
+  /** When set, /rerank answers with a server error */
+  failRerank: boolean;
+  /** When set, /embed answers with a server error for the batches it returns true for */
+  failEmbed: ((inputs: string[]) => boolean) | null;
+}
+
+/**
+ * Text Embeddings Inference: `/embed` returns deterministic bag-of-words
+ * vectors, `/rerank` scores texts by the share of query terms they
+ * contain and `/health` always answers.
+ */
+export async function startFakeTei(): Promise<FakeTei> {
+  const embedder = new HashEmbedder(64);
+  const fake = { dimension: embedder.dimension, failRerank: false, failEmbed: null } as FakeTei;
+  const server = await startServer(async (req, res) => {
+    if (req.path === '/health') return json(res, {});
+    if (req.path === '/embed') {
+      if (fake.failEmbed?.(req.body.inputs)) return json(res, { error: 'model overloaded' }, 503);
+      return json(res, { embeddings: await embedder.embed(req.body.inputs) });
+    }
+    if (req.path === '/rerank') {
+      if (fake.failRerank) return json(res, { error: 'model overloaded' }, 503);
+      const queryTerms = new Set(tokenize(req.body.query));
+      const scores = (req.body.texts as string[]).map(text => {
+        const terms = tokenize(text);
+        return terms.filter(term => queryTerms.has(term)).length / Math.max(terms.length, 1);
+      });
+      return json(res, { scores });
+    }
+    json(res, { error: 'not found' }, 404);
+  });
+  return Object.assign(fake, server);
+}
+
+export interface FakeLlm extends FakeServer {
+  /** Produces the answer to a prompt; answers cite the first context by default */
+  answer: (prompt: string) => string;
+  /** When set, every generation and model listing request answers with a server error */
+  fail: boolean;
+  /** Number of further generation requests to answer with a server error */
+  failures: number;
+  /** Prompts received, in order */
+  prompts: string[];
+}
+
+/**
+ * Ollama `/api/generate` and OpenAI-compatible `/v1/chat/completions`,
+ * both with and without streaming, and their model listings. Streamed
+ * answers are sent word by word.
+ */
+export async function startFakeLlm(): Promise<FakeLlm> {
+  const llm = {
+    answer: (prompt: string) => {
+      const context = /^\[1\] (.+)$/m.exec(prompt);
+      return context ? `${context[1]} [1]` : 'standalone question';
+    },
+    fail: false,
+    failures: 0,
+    prompts: []
+  } as unknown as FakeLlm;
+  const server = await startServer((req, res) => {
+    if (req.path === '/api/tags' || req.path === '/v1/models') {
+      if (llm.fail) return json(res, { error: 'model not loaded' }, 500);
+      return req.path === '/api/tags'
+        ? json(res, { models: [{ name: 'llama3.1:8b-instruct' }] })
+        : json(res, { data: [{ id: 'gpt-4o-mini' }] });
+    }
+    const prompt: string =
+      req.path === '/api/generate' ? req.body.prompt : req.body?.messages?.[req.body.messages.length - 1]?.content;
+    if (req.path !== '/api/generate' && req.path !== '/v1/chat/completions') {
+      return json(res, { error: 'not found' }, 404);
+    }
+    llm.prompts.push(prompt);
+    if (llm.fail || llm.failures > 0) {
+      llm.failures = Math.max(llm.failures - 1, 0);
+      return json(res, { error: 'model not loaded' }, 500);
+    }
+    const answer = llm.answer(prompt);
+    const words = answer.split(/(?<= )/);
+    if (req.path === '/api/generate') {
+      if (!req.body.stream) return json(res, { response: answer, done: true });
+      res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+      for (const word of words) res.write(`${JSON.stringify({ response: word, done: false })}\n`);
+      return res.end(`${JSON.stringify({ response: '', done: true })}\n`);
+    }
+    if (!req.body.stream) return json(res, { choices: [{ message: { role: 'assistant', content: answer } }] });
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const word of words) res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+    res.end('data: [DONE]\n\n');
+  });
+  return Object.assign(llm, server);
+}
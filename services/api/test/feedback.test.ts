@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AnswerRecord, ChatQueryResponse, FeedbackSummaryResponse } from '@ragika/shared';
+import { answerOutcome } from '../src/feedback';
+import { parseEvents, startApi, TestApi } from './harness';
+
+describe('answer outcomes', () => {
+  it('recognises answers admitting they do not know', () => {
+    expect(answerOutcome('Employees receive twenty days. [1]', true)).toBe('answered');
+    expect(answerOutcome('I don’t know based on the provided context.', true)).toBe('unknown');
+    expect(answerOutcome('The context does not mention parking.', true)).toBe('unknown');
+    expect(answerOutcome('There is not enough information to answer.', true)).toBe('unknown');
+    expect(answerOutcome('Anything at all', false)).toBe('no_results');
+  });
+});
+
+describe('answer feedback', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi();
+    const documents = [
+      {
+        text: 'Employees receive twenty days of paid vacation per year.',
+        category: 'hr',
+        title: 'Leave policy'
+      },
+      {
+        text: 'Laptops are replaced every three years by the IT department.',
+        category: 'it',
+        title: 'Hardware'
+      }
+    ];
+    for (const document of documents) {
+      await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+    }
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const ask = async (body: object) => {
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: body });
+    return res.json<ChatQueryResponse>();
+  };
+  const rate = (answerId: string, payload: object) =>
+    api.app.inject({ method: 'POST', url: `/answers/${answerId}/feedback`, payload });
+
+  it('logs answers with their retrieval and generation details', async () => {
+    const body = await ask({ query: 'How many vacation days do employees get?' });
+    expect(body.answerId).toBeTruthy();
+    const res = await rate(body.answerId!, { rating: 'up' });
+    expect(res.statusCode).toBe(200);
+    const record = res.json<AnswerRecord>();
+    expect(record).toMatchObject({
+      query: 'How many vacation days do employees get?',
+      category: 'hr',
+      outcome: 'answered',
+      promptVersion: 'default@1',
+      model: 'ollama:llama3.1:8b-instruct',
+      citedDocuments: [{ documentId: body.citations[0].documentId, chunkId: body.citations[0].chunkId }],
+      feedback: { rating: 'up' }
+    });
+    expect(record.retrievedChunkIds.length).toBeGreaterThan(0);
+    expect(record.retrievedChunkIds[0]).toBe(body.citations[0].chunkId);
+  });
+
+  it('validates feedback', async () => {
+    const body = await ask({ query: 'How often are laptops replaced?' });
+    expect((await rate(body.answerId!, { rating: 'meh' })).statusCode).toBe(400);
+    expect((await rate(body.answerId!, { rating: 'up', comment: 42 })).statusCode).toBe(400);
+    expect((await rate('missing', { rating: 'up' })).statusCode).toBe(404);
+  });
+
+  it('logs streamed answers', async () => {
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'How often are laptops replaced?' }
+    });
+    const done = parseEvents(res.payload).find(event => event.type === 'done');
+    expect(done?.type === 'done' && done.answerId).toBeTruthy();
+  });
+
+  it('summarises feedback, unanswered questions and downvoted documents', async () => {
+    const downvoted = await ask({ query: 'How often are laptops replaced?' });
+    await rate(downvoted.answerId!, { rating: 'down', comment: '  It is every four years now. ' });
+    // Retrieval finds nothing in a category without documents
+    await ask({ query: 'Where do I park?', category: 'facilities' });
+    await ask({ query: 'where do I park', category: 'facilities' });
+    const answer = api.llm.answer;
+    api.llm.answer = () => "I don't know based on the context.";
+    try {
+      const unknown = await ask({ query: 'Who approves expenses?' });
+      await rate(unknown.answerId!, { rating: 'down' });
+    } finally {
+      api.llm.answer = answer;
+    }
+
+    const res = await api.app.inject({ method: 'GET', url: '/feedback/summary' });
+    expect(res.statusCode).toBe(200);
+    const summary = res.json<FeedbackSummaryResponse>();
+    expect(summary.totals).toEqual({ answers: 7, rated: 3, up: 1, down: 2 });
+    expect(summary.categories.find(category => category.category === 'hr')).toMatchObject({
+      rated: 1,
+      up: 1,
+      upRate: 1
+    });
+    expect(summary.categories.find(category => category.category === 'facilities')).toMatchObject({
+      answers: 2,
+      rated: 0
+    });
+    expect(summary.unanswered).toEqual([
+      { query: 'where do I park', count: 2, outcome: 'no_results', lastAskedAt: expect.any(String) },
+      { query: 'Who approves expenses?', count: 1, outcome: 'unknown', lastAskedAt: expect.any(String) }
+    ]);
+    expect(summary.downvotedDocuments).toEqual([
+      { documentId: downvoted.citations[0].documentId, title: 'Hardware', count: 1 }
+    ]);
+    expect(summary.recentDownvotes.map(record => record.feedback?.comment)).toEqual([
+      undefined,
+      'It is every four years now.'
+    ]);
+
+    const since = await api.app.inject({ method: 'GET', url: '/feedback/summary?since=2999-01-01' });
+    expect(since.json<FeedbackSummaryResponse>().totals.answers).toBe(0);
+    const invalid = await api.app.inject({ method: 'GET', url: '/feedback/summary?since=soon' });
+    expect(invalid.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatQueryResponse, FilterExpression } from '@ragika/shared';
+import { matchesFilter, parsePayloadIndexes, validateFilter, validateMetadata } from '../src/filters';
+import { startApi, TestApi } from './harness';
+
+describe('filter expressions', () => {
+  const payload = {
+    category: 'hr',
+    tags: ['policy', 'leave'],
+    createdAt: '2024-03-01T00:00:00.000Z',
+    metadata: { region: 'EU', year: 2024, archived: false }
+  };
+
+  it('evaluates conditions like Qdrant', () => {
+    const cases: [FilterExpression, boolean][] = [
+      [{ field: 'tags', eq: 'leave' }, true],
+      [{ field: 'category', in: ['it', 'hr'] }, true],
+      [{ field: 'metadata.year', range: { gte: 2020, lt: 2024 } }, false],
+      [{ field: 'createdAt', range: { gte: '2024-01-01', lt: '2025-01-01' } }, true],
+      [{ field: 'metadata.archived', eq: false }, true],
+      [{ field: 'metadata.owner', eq: 'alice' }, false],
+      [{ not: { field: 'metadata.region', eq: 'EU' } }, false],
+      [{ or: [{ field: 'category', eq: 'it' }, { and: [{ field: 'tags', in: ['policy'] }] }] }, true]
+    ];
+    for (const [filter, expected] of cases) {
+      expect(matchesFilter(payload, filter)).toBe(expected);
+    }
+  });
+
+  it('rejects malformed filters and metadata', () => {
+    expect(validateFilter({ and: [] })).toBe('filter.and must be a non-empty array');
+    expect(validateFilter({ field: 'owner', eq: 'x' })).toMatch(/^filter.field must be one of/);
+    expect(validateFilter({ or: [{ field: 'createdAt', range: { gte: 1, lt: '2024-01-01' } }] })).toBe(
+      'filter.or[0].range bounds must all be numbers or all be ISO 8601 dates'
+    );
+    expect(validateFilter({ field: 'tags', in: [true] })).toMatch(/strings or integers/);
+    expect(validateMetadata(['ok'], { 'bad key': 1 })).toMatch(/may only contain/);
+    expect(validateMetadata(undefined, { nested: { a: 1 } })).toBe(
+      'metadata.nested must be a string, number or boolean'
+    );
+    expect(() => parsePayloadIndexes('region:keyword,year:number')).toThrow(/year:number/);
+  });
+});
+
+describe('chat query filters', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({ METADATA_INDEXES: 'region:keyword' });
+    const documents = [
+      {
+        text: 'Employees in Europe receive twenty-five days of paid vacation.',
+        category: 'hr',
+        tags: ['leave'],
+        metadata: { region: 'EU' }
+      },
+      {
+        text: 'Employees in the United States receive fifteen days of paid vacation.',
+        category: 'hr',
+        tags: ['leave'],
+        metadata: { region: 'US' }
+      },
+      { text: 'Vacation auto-replies are configured by the IT helpdesk.', category: 'it', tags: ['email'] }
+    ];
+    for (const document of documents) {
+      await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+    }
+    // Cite every context so that all retrieved chunks are returned
+    api.llm.answer = prompt => (prompt.match(/^\[\d+\]/gm) || []).join(' ');
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const query = (body: object) => api.app.inject({ method: 'POST', url: '/chat/query', payload: body });
+
+  it('indexes the filterable payload fields', () => {
+    const indexed = api.qdrant.requests
+      .filter(req => req.path.endsWith('/index'))
+      .map(req => [req.body.field_name, req.body.field_schema]);
+    expect(indexed).toEqual(
+      expect.arrayContaining([
+        ['tags', 'keyword'],
+        ['createdAt', 'datetime'],
+        ['metadata.region', 'keyword']
+      ])
+    );
+  });
+
+  it('restricts retrieval to the chunks matching the filter', async () => {
+    const filter: FilterExpression = {
+      and: [{ field: 'tags', in: ['leave', 'email'] }, { not: { field: 'metadata.region', eq: 'US' } }]
+    };
+    const res = await query({ query: 'vacation days', filter });
+    expect(res.statusCode).toBe(200);
+    const texts = res.json<ChatQueryResponse>().citations.map(citation => citation.text);
+    expect(texts).toHaveLength(2);
+    expect(texts.some(text => text?.includes('United States'))).toBe(false);
+    const search = api.qdrant.requests.filter(req => req.path.endsWith('/points/search')).pop()!;
+    expect(search.body.filter).toEqual({
+      must: [
+        { key: 'tags', match: { any: ['leave', 'email'] } },
+        { must_not: [{ key: 'metadata.region', match: { value: 'US' } }] }
+      ]
+    });
+  });
+
+  it('combines the filter with the requested category', async () => {
+    const res = await query({
+      query: 'vacation',
+      category: 'hr',
+      filter: { field: 'createdAt', range: { gte: '2000-01-01T00:00:00Z' } }
+    });
+    const citations = res.json<ChatQueryResponse>().citations;
+    expect(citations).toHaveLength(2);
+    expect(citations.every(citation => citation.category === 'hr')).toBe(true);
+  });
+
+  it('rejects invalid filters', async () => {
+    const res = await query({ query: 'vacation', filter: { field: 'tags', like: 'leave' } });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().error).toBe('filter must have one of and, or, not, eq, in, range');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Citation } from '@ragika/shared';
+import { verifyAnswer } from '../src/grounding';
+
+const CONTEXTS: Citation[] = [
+  'Employees receive twenty days of paid vacation per year.',
+  'Unused vacation days may be carried over until March.',
+  'Laptops are replaced every three years.',
+  'Expense reports are due within thirty days of purchase.',
+  'Remote work requires approval from your manager.',
+  'The office closes at six on Fridays.',
+  'Parking permits are issued by facilities.',
+  'Badges must be worn at all times on site.'
+].map((text, i) => ({ documentId: `doc-${i + 1}`, chunkId: `chunk-${i + 1}`, text }));
+
+describe('answer verification', () => {
+  it('removes and reports markers of contexts that do not exist', () => {
+    const { answer, citations, grounding } = verifyAnswer(
+      'Employees receive twenty days of paid vacation. [1] Laptops are replaced every three years. [9]',
+      CONTEXTS,
+      0.5
+    );
+    expect(answer).toBe(
+      'Employees receive twenty days of paid vacation. [1] Laptops are replaced every three years.'
+    );
+    expect(citations.map(citation => citation.chunkId)).toEqual(['chunk-1']);
+    expect(grounding.invalidCitations).toEqual([9]);
+  });
+
+  it('renumbers the cited contexts in order of first use', () => {
+    const { answer, citations, grounding } = verifyAnswer(
+      'Laptops are replaced every three years [3]. Vacation days may be carried over until March [2]. ' +
+        'Replacement laptops arrive every three years [3].',
+      CONTEXTS,
+      0.5
+    );
+    expect(answer).toBe(
+      'Laptops are replaced every three years [1]. Vacation days may be carried over until March [2]. ' +
+        'Replacement laptops arrive every three years [1].'
+    );
+    expect(citations.map(citation => citation.chunkId)).toEqual(['chunk-3', 'chunk-2']);
+    expect(grounding.sentences.map(sentence => sentence.citations)).toEqual([[1], [2], [1]]);
+  });
+
+  it('splits marker lists into separate markers', () => {
+    const { answer, citations, grounding } = verifyAnswer(
+      'Vacation days may be carried over until March. [2, 1, 2, 12]',
+      CONTEXTS,
+      0.5
+    );
+    expect(answer).toBe('Vacation days may be carried over until March. [1][2]');
+    expect(citations.map(citation => citation.chunkId)).toEqual(['chunk-2', 'chunk-1']);
+    expect(grounding.invalidCitations).toEqual([12]);
+    expect(grounding.sentences[0]).toMatchObject({ citations: [1, 2], score: 1 });
+  });
+
+  it('leaves bracketed numbers that cannot be citations alone', () => {
+    const { answer, grounding } = verifyAnswer(
+      'The policy was revised [2023] and grants twenty days of paid vacation [1].',
+      CONTEXTS,
+      0.5
+    );
+    expect(answer).toBe('The policy was revised [2023] and grants twenty days of paid vacation [1].');
+    expect(grounding.invalidCitations).toEqual([]);
+  });
+
+  it('flags answers drawn from outside the contexts', () => {
+    const grounded = verifyAnswer(
+      'Employees receive twenty days of paid vacation per year. [1]',
+      CONTEXTS,
+      0.5
+    );
+    expect(grounded.grounding).toMatchObject({ score: 1, lowGrounding: false });
+
+    const invented = verifyAnswer(
+      'Interns get unlimited sabbaticals and free helicopter rides. [1]',
+      CONTEXTS,
+      0.5
+    );
+    expect(invented.grounding.score).toBe(0);
+    expect(invented.grounding.lowGrounding).toBe(true);
+  });
+
+  it('scores sentences without markers against all contexts', () => {
+    const { grounding } = verifyAnswer('Badges must be worn on site.', CONTEXTS, 0.5);
+    expect(grounding.sentences).toEqual([{ text: 'Badges must be worn on site.', score: 1, citations: [] }]);
+    expect(grounding.lowGrounding).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import type { ChatStreamEvent } from '@ragika/shared';
+import { FakeLlm, FakeQdrant, FakeTei, startFakeLlm, startFakeQdrant, startFakeTei } from './fakes';
+
+export interface TestApi {
+  app: FastifyInstance;
+  qdrant: FakeQdrant;
+  tei: FakeTei;
+  llm: FakeLlm;
+  close(): Promise<void>;
+}
+
+/**
+ * Boot the API against fresh fake services and an empty data directory.
+ * Configuration is read from the environment when the app module loads,
+ * so the module registry is reset and the app imported anew each time;
+ * `env` overrides the defaults pointing at the fakes. The query cache is
+ * off unless a test turns it on, so repeated questions reach the fakes,
+ * and failed calls to them are retried without delay. The environment is
+ * restored when the API is closed.
+ */
+export async function startApi(env: Record<string, string> = {}): Promise<TestApi> {
+  const [qdrant, tei, llm] = await Promise.all([startFakeQdrant(), startFakeTei(), startFakeLlm()]);
+  const dataDir = mkdtempSync(path.join(os.tmpdir(), 'ragika-test-'));
+  const overrides: Record<string, string> = {
+    DATA_DIR: dataDir,
+    QDRANT_URL: qdrant.url,
+    COLLECTION_NAME: 'test',
+    EMBEDDINGS_PROVIDER: 'tei',
+    EMBEDDINGS_BASE_URL: tei.url,
+    EMBEDDING_DIMENSION: String(tei.dimension),
+    RERANK_PROVIDER: 'tei',
+    RERANK_BASE_URL: tei.url,
+    LLM_PROVIDER: 'ollama',
+    LLM_BASE_URL: llm.url,
+    VECTOR_STORE: 'qdrant',
+    RETRIEVAL_MODE: 'hybrid',
+    CACHE_BACKEND: 'none',
+    LOG_LEVEL: 'silent',
+    UPSTREAM_RETRY_DELAY_MS: '0',
+    ...env
+  };
+  const previous = Object.keys(overrides).map(name => [name, process.env[name]] as const);
+  // Stop the fakes, remove the data and put the environment back
+  const release = async () => {
+    await Promise.all([qdrant.close(), tei.close(), llm.close()]);
+    rmSync(dataDir, { recursive: true, force: true });
+    for (const [name, value] of previous) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  };
+  Object.assign(process.env, overrides);
+  let app: FastifyInstance;
+  try {
+    vi.resetModules();
+    ({ app } = await import('../src/app'));
+    await app.ready();
+  } catch (err) {
+    await release();
+    throw err;
+  }
+  return {
+    app,
+    qdrant,
+    tei,
+    llm,
+    close: async () => {
+      await app.close();
+      await release();
+    }
+  };
+}
+
+/** Decode the Server-Sent Events of a streaming chat response */
+export function parseEvents(payload: string): ChatStreamEvent[] {
+  return payload
+    .split('\n\n')
+    .map(block => block.split('\n').find(line => line.startsWith('data: ')))
+    .filter((line): line is string => Boolean(line))
+    .map(line => JSON.parse(line.slice('data: '.length)) as ChatStreamEvent);
+}
@@ -0,0 +1,105 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import JSZip from 'jszip';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { categoryResolver } from '../src/importer/categories';
+import { listSourceFiles, SourceFile } from '../src/importer/sources';
+
+// A tar entry with a ustar header; the checksum is not verified by the reader
+function tarEntry(name: string, content: string, type = '0'): Buffer {
+  const data = Buffer.from(content);
+  const header = Buffer.alloc(512);
+  header.write(name.slice(0, 100), 0);
+  header.write(data.length.toString(8).padStart(11, '0'), 124);
+  header.write(type, 156);
+  header.write('ustar\u000000', 257);
+  return Buffer.concat([header, data, Buffer.alloc((512 - (data.length % 512)) % 512)]);
+}
+
+async function contents(files: SourceFile[]): Promise<Record<string, string>> {
+  const entries = await Promise.all(files.map(async file => [file.path, (await file.read()).toString()]));
+  return Object.fromEntries(entries);
+}
+
+describe('import sources', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-import-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('walks directories, skipping hidden files', async () => {
+    const root = path.join(dir, 'tree');
+    mkdirSync(path.join(root, 'hr', 'leave'), { recursive: true });
+    mkdirSync(path.join(root, '.git'));
+    writeFileSync(path.join(root, 'hr', 'leave', 'vacation.md'), '# Vacation');
+    writeFileSync(path.join(root, 'hr', '.DS_Store'), '');
+    writeFileSync(path.join(root, '.git', 'HEAD'), 'ref');
+    writeFileSync(path.join(root, 'readme.txt'), 'Read me');
+    expect(await contents(await listSourceFiles(root))).toEqual({
+      'hr/leave/vacation.md': '# Vacation',
+      'readme.txt': 'Read me'
+    });
+  });
+
+  it('reads zip archives', async () => {
+    const zip = new JSZip();
+    zip.file('it/vpn.txt', 'Connect to the VPN');
+    zip.file('__MACOSX/it/._vpn.txt', 'resource fork');
+    const file = path.join(dir, 'docs.zip');
+    writeFileSync(file, await zip.generateAsync({ type: 'nodebuffer' }));
+    expect(await contents(await listSourceFiles(file))).toEqual({ 'it/vpn.txt': 'Connect to the VPN' });
+  });
+
+  it('reads gzipped tar archives with long names', async () => {
+    const longPath = `finance/${'quarterly-'.repeat(12)}report.txt`;
+    const tar = Buffer.concat([
+      tarEntry('finance/', '', '5'),
+      tarEntry('./finance/expenses.txt', 'Expenses are due monthly'),
+      tarEntry('PaxHeader', `${longPath.length + 12} path=${longPath}\n`, 'x'),
+      tarEntry(longPath.slice(0, 100), 'Quarterly figures'),
+      Buffer.alloc(1024)
+    ]);
+    const file = path.join(dir, 'docs.tar.gz');
+    writeFileSync(file, gzipSync(tar));
+    expect(await contents(await listSourceFiles(file))).toEqual({
+      'finance/expenses.txt': 'Expenses are due monthly',
+      [longPath]: 'Quarterly figures'
+    });
+  });
+
+  it('rejects unsupported sources', async () => {
+    const file = path.join(dir, 'notes.rar');
+    writeFileSync(file, '');
+    await expect(listSourceFiles(file)).rejects.toThrow(/is not a directory/);
+  });
+});
+
+describe('import categories', () => {
+  it('uses a fixed category for every file', () => {
+    expect(categoryResolver({ category: 'hr' })('it/vpn.txt')).toBe('hr');
+  });
+
+  it('maps files by the deepest listed folder', () => {
+    const resolve = categoryResolver({
+      mapping: { policies: 'general', './policies/hr/': 'hr', '.': 'misc' }
+    });
+    expect(resolve('policies/hr/leave/vacation.md')).toBe('hr');
+    expect(resolve('policies/security.md')).toBe('general');
+    expect(resolve('policies-old/security.md')).toBe('misc');
+    expect(resolve('readme.txt')).toBe('misc');
+    expect(categoryResolver({ mapping: { it: 'it' } })('hr/leave.md')).toBeUndefined();
+  });
+
+  it('defaults to the top-level folder', () => {
+    const resolve = categoryResolver({});
+    expect(resolve('finance/2024/budget.pdf')).toBe('finance');
+    expect(resolve('readme.txt')).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DocumentListResponse, IngestFileResponse, IngestTextResponse } from '@ragika/shared';
+import { startApi, TestApi } from './harness';
+
+// Encode form fields and a text file as a multipart/form-data request
+function multipartUpload(fields: Record<string, string>, filename: string, content: string) {
+  const boundary = 'ragika-test-boundary';
+  const parts = Object.entries(fields).map(
+    ([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+  );
+  parts.push(
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+      `Content-Type: text/plain\r\n\r\n${content}\r\n`
+  );
+  return {
+    payload: `${parts.join('')}--${boundary}--\r\n`,
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` }
+  };
+}
+
+describe('ingestion', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const ingest = (body: object) => api.app.inject({ method: 'POST', url: '/ingest/text', payload: body });
+
+  it('rejects requests without text or category', async () => {
+    const res = await ingest({ text: 'Orphan text' });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toEqual({ error: "body must have required property 'category'" });
+  });
+
+  it('stores every chunk with its payload and dense and sparse vectors', async () => {
+    const res = await ingest({
+      text: 'Expense reports are due by the fifth of each month. Receipts must be attached.',
+      category: 'finance',
+      title: 'Expenses'
+    });
+    expect(res.statusCode).toBe(200);
+    const body = res.json<IngestTextResponse>();
+    expect(body).toMatchObject({ status: 'created', chunks: 1, embeddedChunks: 1 });
+
+    const points = [...api.qdrant.points.values()].filter(point => point.payload.documentId === body.documentId);
+    expect(points).toHaveLength(1);
+    expect(points[0].payload).toMatchObject({ category: 'finance', title: 'Expenses', start: 0 });
+    expect(points[0].vector.dense).toHaveLength(api.tei.dimension);
+    expect(points[0].vector.sparse.indices.length).toBeGreaterThan(0);
+  });
+
+  it('does not index identical text twice', async () => {
+    const payload = { text: 'The cafeteria closes at three on Fridays.', category: 'facilities' };
+    const first = (await ingest(payload)).json<IngestTextResponse>();
+    const embedCalls = api.tei.requests.filter(req => req.path === '/embed').length;
+    const pointCount = api.qdrant.points.size;
+
+    const second = (await ingest(payload)).json<IngestTextResponse>();
+    expect(second).toMatchObject({ documentId: first.documentId, status: 'unchanged', embeddedChunks: 0 });
+    expect(api.tei.requests.filter(req => req.path === '/embed')).toHaveLength(embedCalls);
+    expect(api.qdrant.points.size).toBe(pointCount);
+  });
+
+  it('replaces the chunks of a document ingested again under the same external ID', async () => {
+    const first = (await ingest({ text: 'Version one of the policy.', category: 'policy', externalId: 'pol-1' })).json();
+    const second = (
+      await ingest({ text: 'Version two of the policy.', category: 'policy', externalId: 'pol-1' })
+    ).json<IngestTextResponse>();
+    expect(second).toMatchObject({ documentId: first.documentId, status: 'updated' });
+    const texts = [...api.qdrant.points.values()]
+      .filter(point => point.payload.documentId === first.documentId)
+      .map(point => point.payload.text);
+    expect(texts).toEqual(['Version two of the policy.']);
+  });
+
+  it('lists documents and deletes them with their points', async () => {
+    const { documentId } = (await ingest({ text: 'Temporary notice.', category: 'notices' })).json();
+    const list = (await api.app.inject({ method: 'GET', url: '/documents?category=notices' })).json<DocumentListResponse>();
+    expect(list.documents.map(doc => doc.id)).toEqual([documentId]);
+
+    const res = await api.app.inject({ method: 'DELETE', url: `/documents/${documentId}` });
+    expect(res.statusCode).toBe(204);
+    expect([...api.qdrant.points.values()].some(point => point.payload.documentId === documentId)).toBe(false);
+    expect((await api.app.inject({ method: 'GET', url: `/documents/${documentId}` })).statusCode).toBe(404);
+  });
+
+  it('searches documents by title, external ID, category and tags', async () => {
+    await ingest({ text: 'Printers are on every floor.', category: 'office', title: 'Printing Guide' });
+    await ingest({ text: 'Desks are assigned weekly.', category: 'office', tags: ['Seating'] });
+    const search = async (q: string) => {
+      const res = await api.app.inject({ method: 'GET', url: `/documents?q=${encodeURIComponent(q)}` });
+      return res.json<DocumentListResponse>().documents.map(doc => doc.title || doc.tags?.join());
+    };
+    expect(await search('printing')).toEqual(['Printing Guide']);
+    expect(await search('seat')).toEqual(['Seating']);
+    expect(await search('pol-1')).toHaveLength(1);
+  });
+
+  it('replaces the content of a document from an uploaded file', async () => {
+    const { documentId } = (
+      await ingest({ text: 'Old floor plan.', category: 'office', title: 'Floor plan', tags: ['maps'] })
+    ).json<IngestTextResponse>();
+    const upload = multipartUpload({ documentId }, 'floor-plan.txt', 'New floor plan with a second kitchen.');
+    const res = await api.app.inject({ method: 'POST', url: '/ingest/file', ...upload });
+    expect(res.json<IngestFileResponse>()).toMatchObject({ documentId, status: 'updated', format: 'text' });
+    const detail = (await api.app.inject({ method: 'GET', url: `/documents/${documentId}` })).json();
+    expect(detail.document).toMatchObject({ title: 'Floor plan', category: 'office', tags: ['maps'] });
+    expect(detail.chunks.map((chunk: { text: string }) => chunk.text)).toEqual([
+      'New floor plan with a second kitchen.'
+    ]);
+
+    const missing = multipartUpload({ documentId: 'missing' }, 'floor-plan.txt', 'Text');
+    expect((await api.app.inject({ method: 'POST', url: '/ingest/file', ...missing })).statusCode).toBe(404);
+  });
+});
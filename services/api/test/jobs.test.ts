@@ -0,0 +1,221 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DocumentListResponse, IngestJob } from '@ragika/shared';
+import { JobQueue } from '../src/jobs';
+import { JsonStore } from '../src/store';
+import { logger } from '../src/telemetry';
+import { startApi, TestApi } from './harness';
+
+const SENTENCES = [
+  'Badges are issued at the front desk.',
+  'Visitors must sign in on arrival.',
+  'Parking permits renew every January.',
+  'Lost badges are reported to security.',
+  'Bicycles are stored in the basement.',
+  'The lobby closes at nine each evening.'
+];
+
+describe('ingestion jobs', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({ EMBED_BATCH_SIZE: '2', EMBED_RETRIES: '1', EMBED_RETRY_DELAY_MS: '0' });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const ingestAsync = (text: string) =>
+    api.app.inject({
+      method: 'POST',
+      url: '/ingest/text?async=true',
+      payload: {
+        text,
+        category: 'facilities',
+        chunking: { strategy: 'sentence', maxTokens: 10, overlapTokens: 0 }
+      }
+    });
+
+  async function settle(id: string): Promise<IngestJob> {
+    for (;;) {
+      const job = (await api.app.inject({ method: 'GET', url: `/ingest/jobs/${id}` })).json<IngestJob>();
+      if (job.status === 'done' || job.status === 'failed') return job;
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  const embedBatches = () =>
+    api.tei.requests.filter(req => req.path === '/embed').map(req => req.body.inputs);
+
+  it('queues the document and embeds it in batches', async () => {
+    const before = embedBatches().length;
+    const res = await ingestAsync(SENTENCES.join(' '));
+    expect(res.statusCode).toBe(202);
+    const queued = res.json<IngestJob>();
+    expect(queued.status).toBe('queued');
+
+    const job = await settle(queued.id);
+    expect(job).toMatchObject({
+      status: 'done',
+      progress: 100,
+      totalChunks: 6,
+      completedChunks: 6,
+      attempts: 1
+    });
+    expect(job.result).toMatchObject({ documentId: queued.documentId, status: 'created', embeddedChunks: 6 });
+    expect(
+      embedBatches()
+        .slice(before)
+        .map(inputs => inputs.length)
+    ).toEqual([2, 2, 2]);
+    const list = (await api.app.inject({ method: 'GET', url: '/documents' })).json<DocumentListResponse>();
+    expect(list.documents.map(doc => doc.id)).toContain(queued.documentId);
+  });
+
+  it('reports failed chunks and embeds only those again on retry', async () => {
+    const text = SENTENCES.map(sentence => sentence.replace('.', ' today.')).join(' ');
+    api.tei.failEmbed = inputs => inputs.some(input => input.includes('Parking'));
+    const queued = (await ingestAsync(text)).json<IngestJob>();
+    const failed = await settle(queued.id);
+    expect(failed).toMatchObject({ status: 'failed', completedChunks: 4, failedChunks: 2, attempts: 1 });
+    expect(failed.error).toMatch(/^2 of 6 chunks could not be embedded or stored/);
+    const list = (await api.app.inject({ method: 'GET', url: '/documents' })).json<DocumentListResponse>();
+    expect(list.documents.map(doc => doc.id)).not.toContain(queued.documentId);
+
+    api.tei.failEmbed = null;
+    const before = embedBatches().length;
+    const retried = await api.app.inject({ method: 'POST', url: `/ingest/jobs/${queued.id}/retry` });
+    expect(retried.statusCode).toBe(202);
+    const job = await settle(queued.id);
+    expect(job).toMatchObject({ status: 'done', completedChunks: 6, failedChunks: 0, attempts: 2 });
+    expect(job.error).toBeUndefined();
+    expect(embedBatches().slice(before).flat()).toHaveLength(2);
+    const points = [...api.qdrant.points.values()].filter(
+      point => point.payload.documentId === queued.documentId
+    );
+    expect(points).toHaveLength(6);
+  });
+
+  it('only retries failed jobs', async () => {
+    const jobs = (await api.app.inject({ method: 'GET', url: '/ingest/jobs?status=done' })).json();
+    expect(jobs.total).toBe(2);
+    const res = await api.app.inject({ method: 'POST', url: `/ingest/jobs/${jobs.jobs[0].id}/retry` });
+    expect(res.statusCode).toBe(409);
+    expect((await api.app.inject({ method: 'GET', url: '/ingest/jobs/missing' })).statusCode).toBe(404);
+  });
+
+  it('ingests a document posted again before its first job finished only once', async () => {
+    const post = () =>
+      api.app.inject({
+        method: 'POST',
+        url: '/ingest/text?async=true',
+        payload: { text: SENTENCES[0], category: 'facilities', externalId: 'handbook/badges.md' }
+      });
+    const [first, second] = (await Promise.all([post(), post()])).map(res => res.json<IngestJob>());
+    expect(second.documentId).toBe(first.documentId);
+    await Promise.all([settle(first.id), settle(second.id)]);
+
+    const list = (
+      await api.app.inject({ method: 'GET', url: '/documents?q=handbook/badges.md' })
+    ).json<DocumentListResponse>();
+    expect(list.documents.map(doc => doc.id)).toEqual([first.documentId]);
+    const points = [...api.qdrant.points.values()].filter(
+      point => point.payload.documentId === first.documentId
+    );
+    expect(points).toHaveLength(1);
+  });
+});
+
+describe('job queue', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    logger.level = 'silent';
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-jobs-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resumes the jobs interrupted by a restart', async () => {
+    const now = new Date().toISOString();
+    const interrupted: IngestJob = {
+      id: 'job-1',
+      documentId: 'doc-1',
+      category: 'hr',
+      title: '',
+      status: 'running',
+      progress: 50,
+      totalChunks: 2,
+      completedChunks: 1,
+      failedChunks: 0,
+      attempts: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    writeFileSync(path.join(dir, 'jobs.json'), JSON.stringify([interrupted]));
+    writeFileSync(path.join(dir, 'job-1.json'), JSON.stringify({ text: 'resumed' }));
+    const inputs: unknown[] = [];
+    const queue = new JobQueue<{ text: string }>(
+      new JsonStore<IngestJob>(path.join(dir, 'jobs.json')),
+      dir,
+      async (input, report) => {
+        inputs.push(input);
+        await report({ totalChunks: 2, completedChunks: 2 });
+        return { documentId: 'doc-1', chunks: 2, status: 'created', embeddedChunks: 1 };
+      },
+      1
+    );
+    await queue.resume();
+    const job = await queue.wait('job-1');
+    await queue.close();
+    expect(inputs).toEqual([{ text: 'resumed' }]);
+    expect(job).toMatchObject({ status: 'done', progress: 100, attempts: 2, result: { status: 'created' } });
+  });
+
+  it('fails the waiters of a job that cannot be started', async () => {
+    const store = new JsonStore<IngestJob>(path.join(dir, 'broken.json'));
+    const put = store.put.bind(store);
+    store.put = job => (job.status === 'running' ? Promise.reject(new Error('disk full')) : put(job));
+    const queue = new JobQueue<{ text: string }>(
+      store,
+      dir,
+      async () => ({ documentId: 'doc-2', chunks: 0, status: 'created', embeddedChunks: 0 }),
+      1
+    );
+    const job = await queue.enqueue({ documentId: 'doc-2', category: 'hr', title: '' }, { text: 'x' });
+    await expect(queue.wait(job.id)).rejects.toThrow('disk full');
+    // Also once the job has already failed to start
+    await expect(queue.wait(job.id)).rejects.toThrow('disk full');
+    await queue.close();
+  });
+
+  it('runs the jobs of one document one at a time', async () => {
+    let running = 0;
+    let overlapped = false;
+    const queue = new JobQueue<{ text: string }>(
+      new JsonStore<IngestJob>(path.join(dir, 'serial.json')),
+      dir,
+      async () => {
+        overlapped ||= running > 0;
+        running++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        return { documentId: 'doc-3', chunks: 1, status: 'updated', embeddedChunks: 0 };
+      },
+      2
+    );
+    const fields = { documentId: 'doc-3', category: 'hr', title: '' };
+    const jobs = await Promise.all([
+      queue.enqueue(fields, { text: 'a' }),
+      queue.enqueue(fields, { text: 'b' })
+    ]);
+    await Promise.all(jobs.map(job => queue.wait(job.id)));
+    await queue.close();
+    expect(overlapped).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { HealthResponse } from '@ragika/shared';
+import { Counter, Histogram, Registry } from '../src/metrics';
+import { checkDependencies, logger } from '../src/telemetry';
+import { startApi, TestApi } from './harness';
+
+describe('metrics', () => {
+  it('renders counters and histograms in the Prometheus text format', () => {
+    const registry = new Registry();
+    const requests = registry.register(new Counter('requests_total', 'Requests served'));
+    const latency = registry.register(new Histogram('latency_seconds', 'Latency', [0.1, 1]));
+    requests.inc({ route: '/a', method: 'GET' });
+    requests.inc({ method: 'GET', route: '/a' }, 2);
+    latency.observe({ route: '/a' }, 0.5);
+    latency.observe({ route: '/a' }, 2);
+
+    expect(registry.render().split('\n')).toEqual([
+      '# HELP requests_total Requests served',
+      '# TYPE requests_total counter',
+      'requests_total{method="GET",route="/a"} 3',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{route="/a",le="0.1"} 0',
+      'latency_seconds_bucket{route="/a",le="1"} 1',
+      'latency_seconds_bucket{route="/a",le="+Inf"} 2',
+      'latency_seconds_sum{route="/a"} 2.5',
+      'latency_seconds_count{route="/a"} 2',
+      ''
+    ]);
+  });
+
+  it('runs collectors before rendering', () => {
+    const registry = new Registry();
+    const hits = registry.register(new Counter('hits_total', 'Cache hits'));
+    let total = 0;
+    registry.onCollect(() => hits.setTotal({}, total));
+    total = 4;
+    expect(registry.render()).toContain('hits_total 4\n');
+  });
+});
+
+describe('readiness', () => {
+  beforeAll(() => {
+    logger.level = 'silent';
+  });
+
+  it('reports optional dependencies that are down as degraded', async () => {
+    const health = await checkDependencies(
+      {
+        vector_store: async () => {},
+        reranker: () => Promise.reject(new Error('connect ECONNREFUSED'))
+      },
+      ['reranker'],
+      1000
+    );
+    expect(health.status).toBe('degraded');
+    expect(health.dependencies.reranker).toMatchObject({ status: 'error', error: 'connect ECONNREFUSED' });
+  });
+
+  it('gives up on probes that do not answer in time', async () => {
+    const health = await checkDependencies({ llm: () => new Promise<void>(() => {}) }, [], 10);
+    expect(health).toMatchObject({
+      status: 'error',
+      dependencies: { llm: { error: 'no answer within 10 ms' } }
+    });
+  });
+});
+
+describe('observability', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({ CACHE_BACKEND: 'memory' });
+    await api.app.inject({
+      method: 'POST',
+      url: '/ingest/text',
+      payload: {
+        text: 'Employees receive twenty days of paid vacation per year.',
+        category: 'hr',
+        title: 'Leave policy'
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  it('echoes the correlation ID of a request, or assigns one', async () => {
+    const given = await api.app.inject({
+      method: 'GET',
+      url: '/healthz',
+      headers: { 'x-request-id': 'trace-42' }
+    });
+    expect(given.headers['x-request-id']).toBe('trace-42');
+    const invalid = await api.app.inject({
+      method: 'GET',
+      url: '/healthz',
+      headers: { 'x-request-id': 'no spaces allowed' }
+    });
+    expect(invalid.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('serves request, dependency, ingestion and cache metrics', async () => {
+    await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      payload: { query: 'How many vacation days?' }
+    });
+    await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'Is there paid leave?' }
+    });
+    const res = await api.app.inject({ method: 'GET', url: '/metrics' });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toContain('text/plain');
+    const body = res.payload;
+    expect(body).toContain(
+      'ragika_http_request_duration_seconds_count{method="POST",route="/chat/query",status="200"} 1'
+    );
+    expect(body).toContain(
+      'ragika_http_request_duration_seconds_count{method="POST",route="/chat/query/stream",status="200"} 1'
+    );
+    for (const [dependency, operation] of [
+      ['embeddings', 'embed'],
+      ['vector_store', 'search'],
+      ['reranker', 'rerank'],
+      ['llm', 'generate'],
+      ['llm', 'stream']
+    ]) {
+      expect(body).toMatch(
+        new RegExp(
+          `ragika_upstream_request_duration_seconds_count\\{dependency="${dependency}",operation="${operation}"\\} [1-9]`
+        )
+      );
+    }
+    expect(body).toContain('ragika_ingest_jobs_total{status="done"} 1');
+    expect(body).toContain('ragika_ingested_chunks_total 1');
+    expect(body).toContain('ragika_cache_requests_total{layer="answer",result="miss"} 2');
+  });
+
+  it('counts failed dependency calls', async () => {
+    api.tei.failRerank = true;
+    try {
+      await api.app.inject({ method: 'POST', url: '/chat/query', payload: { query: 'Who gets vacation?' } });
+    } finally {
+      api.tei.failRerank = false;
+    }
+    const res = await api.app.inject({ method: 'GET', url: '/metrics' });
+    // Every attempt is counted, retries included
+    expect(res.payload).toContain('ragika_upstream_errors_total{dependency="reranker",operation="rerank"} 3');
+  });
+
+  it('reports each dependency as ready', async () => {
+    const res = await api.app.inject({ method: 'GET', url: '/healthz' });
+    expect(res.statusCode).toBe(200);
+    const health = res.json<HealthResponse>();
+    expect(health.status).toBe('ok');
+    expect(Object.keys(health.dependencies).sort()).toEqual([
+      'embeddings',
+      'llm',
+      'reranker',
+      'vector_store'
+    ]);
+    expect(health.dependencies.llm).toMatchObject({ status: 'ok' });
+  });
+
+  it('names the dependency that is down', async () => {
+    api.llm.fail = true;
+    try {
+      const res = await api.app.inject({ method: 'GET', url: '/healthz' });
+      expect(res.statusCode).toBe(503);
+      const health = res.json<HealthResponse>();
+      expect(health.status).toBe('error');
+      expect(health.dependencies.llm?.status).toBe('error');
+      expect(health.dependencies.embeddings?.status).toBe('ok');
+      const metrics = await api.app.inject({ method: 'GET', url: '/metrics' });
+      expect(metrics.payload).toContain('ragika_dependency_up{dependency="llm"} 0');
+    } finally {
+      api.llm.fail = false;
+    }
+  });
+});
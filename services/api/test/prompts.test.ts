@@ -0,0 +1,143 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TEMPLATE,
+  loadPromptLibrary,
+  PromptLibrary,
+  renderPrompt,
+  validateTemplate
+} from '../src/prompts';
+import { startApi, TestApi } from './harness';
+
+const HR_TEMPLATE = {
+  name: 'hr',
+  version: '2',
+  categories: ['hr'],
+  system: 'You answer questions about HR policies. Answer in {{language}}.',
+  user: 'Policies:\n{{context}}\n\nEmployee question: {{question}}'
+};
+
+const template = (overrides: object) => ({ ...HR_TEMPLATE, ...overrides });
+
+describe('prompt templates', () => {
+  it('renders variables and leaves out empty sections', () => {
+    const variables = {
+      context: '[1] Twenty days.',
+      question: 'How many?',
+      history: '',
+      language: 'English'
+    };
+    expect(renderPrompt(DEFAULT_TEMPLATE, variables).user).toBe(
+      'Context:\n[1] Twenty days.\n\nQuestion: How many?\nAnswer:'
+    );
+    const followUp = renderPrompt(DEFAULT_TEMPLATE, { ...variables, history: 'User: Hi' });
+    expect(followUp.user).toMatch(/^Conversation so far:\nUser: Hi\n\nContext:/);
+    expect(followUp.system).toMatch(/Answer in English\.$/);
+  });
+
+  it('rejects broken templates', () => {
+    expect(() =>
+      validateTemplate(template({ user: '{{context}} {{question}} {{topic}}' }), 'hr.json')
+    ).toThrow('hr.json: unknown variable "topic" in user');
+    expect(() =>
+      validateTemplate(template({ system: '{{#history}}Earlier: {{history}}' }), 'hr.json')
+    ).toThrow('section "history" in system is not closed');
+    expect(() => validateTemplate(template({ user: '{{ context }} {{question}}' }), 'hr.json')).toThrow(
+      'malformed placeholder in user'
+    );
+    expect(() => validateTemplate(template({ user: 'Question: {{question}}' }), 'hr.json')).toThrow(
+      'user must include {{context}}'
+    );
+    expect(() => validateTemplate(template({ version: 2 }), 'hr.json')).toThrow('version must be');
+  });
+
+  it('selects templates by name, then by category', () => {
+    const library = new PromptLibrary([DEFAULT_TEMPLATE, HR_TEMPLATE], 'default');
+    expect(library.select(undefined, 'hr').name).toBe('hr');
+    expect(library.select(undefined, 'it').name).toBe('default');
+    expect(library.select('default', 'hr').name).toBe('default');
+    expect(() => new PromptLibrary([DEFAULT_TEMPLATE], 'concise')).toThrow(
+      'Default prompt template "concise" does not exist'
+    );
+    expect(
+      () => new PromptLibrary([DEFAULT_TEMPLATE, HR_TEMPLATE, template({ name: 'hr-2' })], 'default')
+    ).toThrow('Category "hr" is assigned to both the hr and hr-2 templates');
+  });
+
+  it('fails to load a directory with a broken template', () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-prompts-'));
+    try {
+      writeFileSync(path.join(dir, 'hr.json'), JSON.stringify(HR_TEMPLATE));
+      writeFileSync(path.join(dir, 'notes.txt'), 'not a template');
+      expect(loadPromptLibrary(dir, 'hr').defaultTemplate.version).toBe('2');
+      writeFileSync(path.join(dir, 'it.json'), '{ "name": "it", ');
+      expect(() => loadPromptLibrary(dir, 'default')).toThrow(path.join(dir, 'it.json'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('chat with prompt templates', () => {
+  let api: TestApi;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-prompts-'));
+    writeFileSync(path.join(dir, 'hr.json'), JSON.stringify(HR_TEMPLATE));
+    api = await startApi({ PROMPT_TEMPLATES_DIR: dir, ANSWER_LANGUAGE: 'English' });
+    await api.app.inject({
+      method: 'POST',
+      url: '/ingest/text',
+      payload: { text: 'Employees receive twenty days of paid vacation per year.', category: 'hr' }
+    });
+  });
+
+  afterAll(async () => {
+    await api.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const lastRequest = () => api.llm.requests[api.llm.requests.length - 1].body;
+
+  it('uses the template of the category with separate system instructions', async () => {
+    const res = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      payload: { query: 'How many vacation days?', category: 'hr', language: 'German' }
+    });
+    expect(res.statusCode).toBe(200);
+    expect(lastRequest().system).toBe('You answer questions about HR policies. Answer in German.');
+    expect(lastRequest().prompt).toMatch(/^Policies:\n\[1\] Employees receive/);
+  });
+
+  it('uses the template named by the request', async () => {
+    await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      payload: { query: 'How many vacation days?', category: 'hr', promptTemplate: 'default' }
+    });
+    expect(lastRequest().system).toMatch(
+      /^You are an institutional knowledge assistant.*Answer in English\.$/
+    );
+    expect(lastRequest().prompt).toContain('Question: How many vacation days?');
+  });
+
+  it('rejects unknown templates and invalid languages', async () => {
+    const unknown = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query',
+      payload: { query: 'How many vacation days?', promptTemplate: 'pirate' }
+    });
+    expect(unknown.statusCode).toBe(400);
+    expect(unknown.json().error).toBe('unknown prompt template "pirate"');
+    const language = await api.app.inject({
+      method: 'POST',
+      url: '/chat/query/stream',
+      payload: { query: 'How many vacation days?', language: '' }
+    });
+    expect(language.statusCode).toBe(400);
+  });
+});
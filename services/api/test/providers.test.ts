@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatQueryResponse } from '@ragika/shared';
+import { readLines } from '../src/providers/stream';
+import { parseEvents, startApi, TestApi } from './harness';
+
+const LEAVE_POLICY = { text: 'Employees receive twenty days of paid vacation per year.', category: 'hr' };
+const QUESTION = { query: 'How many vacation days do employees get?' };
+
+describe('OpenAI-compatible LLM', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({ LLM_PROVIDER: 'openai_compat' });
+    await api.app.inject({ method: 'POST', url: '/ingest/text', payload: LEAVE_POLICY });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  it('answers through the chat completions endpoint', async () => {
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+    expect(res.json<ChatQueryResponse>().answer).toBe(`${LEAVE_POLICY.text} [1]`);
+    const request = api.llm.requests[api.llm.requests.length - 1];
+    expect(request.path).toBe('/v1/chat/completions');
+    const [system, user] = request.body.messages;
+    expect(system.role).toBe('system');
+    expect(system.content).toContain('institutional knowledge assistant');
+    expect(system.content).not.toContain(LEAVE_POLICY.text);
+    expect(user.role).toBe('user');
+    expect(user.content).toContain(`[1] ${LEAVE_POLICY.text}`);
+  });
+
+  it('streams answers sent as Server-Sent Events', async () => {
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query/stream', payload: QUESTION });
+    const events = parseEvents(res.payload);
+    const deltas = events.flatMap(event => (event.type === 'delta' ? [event.text] : []));
+    expect(deltas.join('')).toBe(`${LEAVE_POLICY.text} [1]`);
+    expect(events[events.length - 1].type).toBe('done');
+  });
+
+  it('reports a server error when the LLM fails', async () => {
+    api.llm.fail = true;
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+    api.llm.fail = false;
+    expect(res.statusCode).toBe(502);
+  });
+});
+
+describe('in-memory providers', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({
+      EMBEDDINGS_PROVIDER: 'hash',
+      RERANK_PROVIDER: 'none',
+      LLM_PROVIDER: 'extractive',
+      VECTOR_STORE: 'memory'
+    });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  it('ingests and answers without contacting any service', async () => {
+    await api.app.inject({ method: 'POST', url: '/ingest/text', payload: LEAVE_POLICY });
+    await api.app.inject({
+      method: 'POST',
+      url: '/ingest/text',
+      payload: { text: 'Laptops are replaced every three years.', category: 'it' }
+    });
+    const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+    expect(res.json<ChatQueryResponse>()).toMatchObject({
+      answer: `${LEAVE_POLICY.text} [1]`,
+      citations: [{ category: 'hr' }]
+    });
+    expect([api.qdrant, api.tei, api.llm].every(fake => fake.requests.length === 0)).toBe(true);
+  });
+});
+
+describe('streamed lines', () => {
+  async function lines(chunks: (Buffer | string)[]): Promise<string[]> {
+    const result: string[] = [];
+    for await (const line of readLines(chunks)) result.push(line);
+    return result;
+  }
+
+  it('joins lines and characters split across chunks', async () => {
+    const bytes = Buffer.from('data: Straße\r\n\ndata: 日本');
+    // Split inside "ß" and inside "本"
+    const splits = [bytes.indexOf('ß') + 1, bytes.length - 1];
+    expect(
+      await lines([
+        bytes.subarray(0, splits[0]),
+        bytes.subarray(splits[0], splits[1]),
+        bytes.subarray(splits[1])
+      ])
+    ).toEqual(['data: Straße', '', 'data: 日本']);
+  });
+});
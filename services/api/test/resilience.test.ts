@@ -0,0 +1,211 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AnswerRecord, ChatQueryResponse } from '@ragika/shared';
+import { parseLlmEndpoints } from '../src/providers';
+import { CircuitBreaker, isTransient, UpstreamError } from '../src/resilience';
+import { logger } from '../src/telemetry';
+import { FakeLlm, startFakeLlm } from './fakes';
+import { parseEvents, startApi, TestApi } from './harness';
+
+const LEAVE_POLICY = {
+  text: 'Employees receive twenty days of paid vacation per year.',
+  category: 'hr',
+  title: 'Leave policy'
+};
+const QUESTION = { query: 'How many vacation days do employees get?' };
+
+function httpError(status: number): AxiosError {
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status
+  } as AxiosResponse);
+}
+
+describe('circuit breaker', () => {
+  beforeAll(() => {
+    logger.level = 'silent';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const refused = () => new Error('refused');
+
+  it('tells transient errors from permanent ones', () => {
+    expect(isTransient(httpError(503))).toBe(true);
+    expect(isTransient(httpError(429))).toBe(true);
+    expect(isTransient(new AxiosError('timeout of 100ms exceeded', 'ECONNABORTED'))).toBe(true);
+    expect(isTransient(httpError(400))).toBe(false);
+    expect(isTransient(new Error('Invalid response from embeddings service'))).toBe(false);
+  });
+
+  it('opens after repeated transient failures and closes after a successful trial', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const breaker = new CircuitBreaker('llm', 2, 1000);
+    const failing = vi.fn(() => Promise.reject(httpError(503)));
+    await expect(breaker.call(failing, refused)).rejects.toThrow('Request failed');
+    await expect(breaker.call(failing, refused)).rejects.toThrow('Request failed');
+    expect(breaker.state).toBe('open');
+    await expect(breaker.call(failing, refused)).rejects.toThrow('refused');
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(Date.now() + 1000);
+    expect(breaker.state).toBe('half_open');
+    await expect(breaker.call(failing, refused)).rejects.toThrow('Request failed');
+    expect(breaker.state).toBe('open');
+
+    vi.setSystemTime(Date.now() + 1000);
+    expect(await breaker.call(() => Promise.resolve('ok'), refused)).toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('does not count permanent failures', async () => {
+    const breaker = new CircuitBreaker('llm', 1, 1000);
+    await expect(breaker.call(() => Promise.reject(httpError(400)), refused)).rejects.toThrow();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('names the failed stage in upstream errors', () => {
+    expect(new UpstreamError('embeddings', 'embed', false, new Error('socket hang up'))).toMatchObject({
+      code: 'embedding_failed',
+      message: 'embeddings embed failed: socket hang up'
+    });
+    expect(new UpstreamError('vector_store', 'search', true).code).toBe('search_unavailable');
+  });
+
+  it('parses fallback LLM endpoints', () => {
+    expect(
+      parseLlmEndpoints('ollama|http://backup:11434|llama3.1:8b, openai_compat|http://vllm:8000|mistral')
+    ).toEqual([
+      { provider: 'ollama', baseUrl: 'http://backup:11434', model: 'llama3.1:8b' },
+      { provider: 'openai_compat', baseUrl: 'http://vllm:8000', model: 'mistral' }
+    ]);
+    expect(() => parseLlmEndpoints('ollama|http://backup:11434')).toThrow('Invalid LLM endpoint');
+    expect(() => parseLlmEndpoints('bard|http://x|y')).toThrow('Unknown LLM provider "bard"');
+  });
+});
+
+describe('resilient chat queries', () => {
+  let api: TestApi;
+  let fallback: FakeLlm;
+
+  beforeAll(async () => {
+    fallback = await startFakeLlm();
+    fallback.answer = () => 'Twenty days, according to the fallback. [1]';
+    api = await startApi({
+      LLM_FALLBACKS: `ollama|${fallback.url}|mistral:7b`,
+      CIRCUIT_FAILURE_THRESHOLD: '2'
+    });
+    await api.app.inject({ method: 'POST', url: '/ingest/text', payload: LEAVE_POLICY });
+  });
+
+  afterEach(() => {
+    api.llm.fail = false;
+    api.tei.failEmbed = null;
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await fallback.close();
+  });
+
+  const query = () => api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+  // Model an answer was logged with, read back through its feedback
+  const loggedModel = async (answerId: string) => {
+    const res = await api.app.inject({
+      method: 'POST',
+      url: `/answers/${answerId}/feedback`,
+      payload: { rating: 'up' }
+    });
+    return res.json<AnswerRecord>().model;
+  };
+
+  it('retries transient LLM failures', async () => {
+    api.llm.failures = 2;
+    const prompts = api.llm.prompts.length;
+    const res = await query();
+    expect(res.statusCode).toBe(200);
+    expect(res.json<ChatQueryResponse>().answer).toBe(`${LEAVE_POLICY.text} [1]`);
+    expect(api.llm.prompts).toHaveLength(prompts + 3);
+    expect(fallback.prompts).toHaveLength(0);
+    expect(await loggedModel(res.json<ChatQueryResponse>().answerId!)).toBe('ollama:llama3.1:8b-instruct');
+  });
+
+  it('answers with the fallback LLM when the primary one fails', async () => {
+    api.llm.fail = true;
+    const res = await query();
+    expect(res.statusCode).toBe(200);
+    expect(res.json<ChatQueryResponse>().answer).toBe('Twenty days, according to the fallback. [1]');
+    expect(await loggedModel(res.json<ChatQueryResponse>().answerId!)).toBe('ollama:mistral:7b');
+
+    const stream = await api.app.inject({ method: 'POST', url: '/chat/query/stream', payload: QUESTION });
+    const events = parseEvents(stream.payload);
+    const done = events[events.length - 1];
+    expect(done).toMatchObject({
+      type: 'done',
+      answer: 'Twenty days, according to the fallback. [1]'
+    });
+    expect(done.type === 'done' && (await loggedModel(done.answerId!))).toBe('ollama:mistral:7b');
+  });
+
+  it('stops calling an LLM whose circuit is open', async () => {
+    // The primary failed twice in the previous test, which opened its circuit
+    api.llm.fail = true;
+    fallback.fail = true;
+    const primaryPrompts = api.llm.prompts.length;
+    const res = await query();
+    fallback.fail = false;
+    expect(api.llm.prompts).toHaveLength(primaryPrompts);
+    // The fallback is the last endpoint tried, so its failure is reported
+    expect(res.statusCode).toBe(502);
+    expect(res.json()).toEqual({ error: 'Failed to process chat query', code: 'generation_failed' });
+  });
+
+  it('reports the stage that failed', async () => {
+    api.tei.failEmbed = () => true;
+    for (let i = 0; i < 2; i++) {
+      const res = await query();
+      expect(res.statusCode).toBe(502);
+      expect(res.json()).toMatchObject({ code: 'embedding_failed' });
+    }
+    const refused = await query();
+    expect(refused.statusCode).toBe(503);
+    expect(refused.json()).toMatchObject({ code: 'embedding_unavailable' });
+  });
+});
+
+describe('resilient vector store', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi({ CIRCUIT_FAILURE_THRESHOLD: '2' });
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  it('reports a vector store that is down', async () => {
+    api.qdrant.fail = true;
+    for (let i = 0; i < 2; i++) {
+      const res = await api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+      expect(res.statusCode).toBe(502);
+      expect(res.json()).toMatchObject({ code: 'search_failed' });
+    }
+    const refused = await api.app.inject({ method: 'POST', url: '/chat/query', payload: QUESTION });
+    expect(refused.statusCode).toBe(503);
+    expect(refused.json()).toMatchObject({ code: 'search_unavailable' });
+
+    const health = await api.app.inject({ method: 'GET', url: '/healthz' });
+    expect(health.statusCode).toBe(503);
+    expect(health.json().dependencies.vector_store).toMatchObject({ status: 'error' });
+  });
+
+  it('probes the vector store without creating its collection', async () => {
+    api.qdrant.fail = false;
+    const res = await api.app.inject({ method: 'GET', url: '/healthz' });
+    expect(res.json().dependencies.vector_store).toMatchObject({ status: 'ok' });
+    const collection = await fetch(`${api.qdrant.url}/collections/test`);
+    expect(collection.status).toBe(404);
+  });
+});
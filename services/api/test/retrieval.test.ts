@@ -0,0 +1,125 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { ChatQueryResponse } from '@ragika/shared';
+import { reciprocalRankFusion } from '../src/retrieval';
+import { startApi, TestApi } from './harness';
+
+const DOCUMENTS = [
+  { text: 'Employees receive twenty days of paid vacation per year.', category: 'hr', title: 'Leave policy' },
+  { text: 'Laptops are replaced every three years by the IT department.', category: 'it', title: 'Hardware' }
+];
+const QUESTION = 'How many vacation days do employees get?';
+
+describe('reciprocal rank fusion', () => {
+  const fuse = (dense: string[], sparse: string[], denseWeight = 1, sparseWeight = 1) =>
+    reciprocalRankFusion(
+      [
+        { items: dense, weight: denseWeight },
+        { items: sparse, weight: sparseWeight }
+      ],
+      id => id,
+      60
+    );
+
+  it('ranks items found by both rankers above items found by one', () => {
+    const fused = fuse(['a', 'b', 'c'], ['d', 'c']);
+    expect(fused.map(entry => entry.item)).toEqual(['c', 'a', 'd', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 63 + 1 / 62);
+    expect(fused[1].score).toBeCloseTo(1 / 61);
+  });
+
+  it('weights each ranker', () => {
+    expect(fuse(['a'], ['b'], 1, 2).map(entry => entry.item)).toEqual(['b', 'a']);
+    expect(fuse(['a'], ['b'], 2, 1).map(entry => entry.item)).toEqual(['a', 'b']);
+    // A ranker weighted zero adds its items without raising their rank
+    expect(fuse(['a', 'b'], ['c'], 1, 0).map(entry => entry.item)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps the first occurrence of an item', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: [{ id: 'a', source: 'dense' }], weight: 1 },
+        { items: [{ id: 'a', source: 'sparse' }], weight: 1 }
+      ],
+      item => item.id
+    );
+    expect(fused).toEqual([{ item: { id: 'a', source: 'dense' }, score: 2 / 61 }]);
+  });
+});
+
+describe('retrieval modes', () => {
+  let api: TestApi;
+
+  const ingest = async () => {
+    for (const document of DOCUMENTS) {
+      await api.app.inject({ method: 'POST', url: '/ingest/text', payload: document });
+    }
+  };
+
+  const query = (body: object) =>
+    api.app.inject({ method: 'POST', url: '/chat/query', payload: { query: QUESTION, ...body } });
+
+  // Searches sent to Qdrant since `since`, by the vector they were made with
+  const searches = (since: number) =>
+    api.qdrant.requests
+      .slice(since)
+      .filter(request => request.path.endsWith('/points/search'))
+      .map(request => (Array.isArray(request.body.vector) ? 'unnamed' : request.body.vector.name));
+
+  describe('with a hybrid collection', () => {
+    beforeAll(async () => {
+      api = await startApi();
+      await ingest();
+    });
+
+    afterAll(async () => {
+      await api.close();
+    });
+
+    it('searches only the sparse vectors in sparse mode', async () => {
+      const qdrantRequests = api.qdrant.requests.length;
+      const teiRequests = api.tei.requests.length;
+      const res = await query({ retrieval: { mode: 'sparse' } });
+      expect(res.statusCode).toBe(200);
+      expect(res.json<ChatQueryResponse>().citations[0]).toMatchObject({ title: 'Leave policy' });
+      expect(searches(qdrantRequests)).toEqual(['sparse']);
+      // The question is not embedded
+      expect(api.tei.requests.slice(teiRequests).map(request => request.path)).not.toContain('/embed');
+    });
+
+    it('searches both vectors in hybrid mode', async () => {
+      const qdrantRequests = api.qdrant.requests.length;
+      const res = await query({ retrieval: { mode: 'hybrid', denseWeight: 1, sparseWeight: 0.5 } });
+      expect(res.json<ChatQueryResponse>().citations[0]).toMatchObject({ title: 'Leave policy' });
+      expect(searches(qdrantRequests).sort()).toEqual(['dense', 'sparse']);
+    });
+  });
+
+  describe('with a collection without sparse vectors', () => {
+    beforeAll(async () => {
+      api = await startApi();
+      // A collection created before hybrid retrieval, with a single unnamed vector
+      await fetch(`${api.qdrant.url}/collections/test`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ vectors: { size: api.tei.dimension, distance: 'Cosine' } })
+      });
+      await ingest();
+    });
+
+    afterAll(async () => {
+      await api.close();
+    });
+
+    it('falls back to dense search', async () => {
+      for (const mode of ['sparse', 'hybrid']) {
+        const qdrantRequests = api.qdrant.requests.length;
+        const res = await query({ retrieval: { mode } });
+        expect(res.statusCode, mode).toBe(200);
+        expect(res.json<ChatQueryResponse>().citations[0], mode).toMatchObject({ title: 'Leave policy' });
+        expect(searches(qdrantRequests), mode).toEqual(['unnamed']);
+      }
+      const [point] = api.qdrant.points.values();
+      expect(Array.isArray(point.vector)).toBe(true);
+    });
+  });
+});
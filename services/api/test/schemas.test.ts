@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { IngestJobListResponse } from '@ragika/shared';
+import { startApi, TestApi } from './harness';
+
+describe('request schemas', () => {
+  let api: TestApi;
+
+  beforeAll(async () => {
+    api = await startApi();
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  const post = (url: string, payload: object) => api.app.inject({ method: 'POST', url, payload });
+
+  it('names the field that does not match', async () => {
+    const cases: [string, object, string][] = [
+      ['/chat/query', { query: '' }, 'query must NOT have fewer than 1 characters'],
+      [
+        '/chat/query',
+        { query: 'Hi', retrieval: { mode: 'fuzzy' } },
+        'retrieval.mode must be one of dense, sparse, hybrid'
+      ],
+      [
+        '/chat/query',
+        { query: 'Hi', history: [{ role: 'system', content: 'x' }] },
+        'history.0.role must be one of user, assistant'
+      ],
+      [
+        '/ingest/text',
+        { text: 'x', category: 'hr', chunking: { maxTokens: 0 } },
+        'chunking.maxTokens must be >= 1'
+      ],
+      ['/ingest/text', { text: 'x', category: 'hr', tags: 'policy' }, 'tags must be array'],
+      ['/ingest/text', { text: 'x', catgory: 'hr', category: 'hr' }, 'body has unknown property catgory'],
+      [
+        '/chat/query',
+        { query: 'Hi', retrieval: { mode: 'dense', topK: 5 } },
+        'retrieval has unknown property topK'
+      ],
+      ['/auth/login', { username: 'alice' }, "body must have required property 'password'"]
+    ];
+    for (const [url, payload, error] of cases) {
+      const res = await post(url, payload);
+      expect(res.statusCode, url).toBe(400);
+      expect(res.json()).toEqual({ error });
+    }
+  });
+
+  it('does not convert the types of JSON bodies', async () => {
+    const res = await post('/ingest/text', { text: 42, category: 'hr' });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toEqual({ error: 'text must be string' });
+  });
+
+  it('converts query string values and applies their defaults', async () => {
+    const res = await api.app.inject({ method: 'GET', url: '/ingest/jobs?offset=0' });
+    expect(res.statusCode).toBe(200);
+    expect(res.json<IngestJobListResponse>()).toMatchObject({ limit: 20, offset: 0 });
+
+    const invalid = await api.app.inject({ method: 'GET', url: '/documents?limit=500' });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json()).toEqual({ error: 'limit must be <= 100' });
+  });
+
+  it('serves an OpenAPI document generated from the schemas', async () => {
+    const res = await api.app.inject({ method: 'GET', url: '/openapi.json' });
+    expect(res.statusCode).toBe(200);
+    const document = res.json();
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.paths['/openapi.json']).toBeUndefined();
+    expect(document.paths['/chat/query'].post.requestBody.content['application/json'].schema).toMatchObject({
+      required: ['query'],
+      properties: { retrieval: { properties: { mode: { enum: ['dense', 'sparse', 'hybrid'] } } } }
+    });
+    expect(document.paths['/documents/{id}'].put.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      {
+        name: 'async',
+        in: 'query',
+        required: false,
+        description: 'Return the queued ingestion job at once with status 202',
+        schema: { type: 'boolean' }
+      }
+    ]);
+    expect(Object.keys(document.paths)).toEqual(
+      expect.arrayContaining([
+        '/auth/login',
+        '/conversations/{id}/messages',
+        '/ingest/jobs',
+        '/feedback/summary'
+      ])
+    );
+  });
+});
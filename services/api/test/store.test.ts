@@ -0,0 +1,147 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  promises as fsp,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync
+} from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { JsonStore } from '../src/store';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+describe('record store', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'ragika-store-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const lines = (file: string) => readFileSync(file, 'utf8').trim().split('\n');
+
+  // Three superseded lines for each of two live records
+  const BLOATED = ['one', 'two', 'three', 'four']
+    .flatMap(text => ['a', 'b'].map(id => `${JSON.stringify({ put: { id, text } })}\n`))
+    .join('');
+
+  // Lock and temporary files left next to the log
+  const leftovers = (file: string) =>
+    readdirSync(dir).filter(name => name.startsWith(`${path.basename(file)}.`));
+
+  it('appends one line per change', async () => {
+    const file = path.join(dir, 'notes.json');
+    const store = new JsonStore<Note>(file);
+    await store.put({ id: 'a', text: 'first' });
+    await store.put({ id: 'b', text: 'second' });
+    await store.put({ id: 'a', text: 'edited' });
+    expect(await store.delete('b')).toBe(true);
+    expect(await store.delete('b')).toBe(false);
+    expect(lines(file)).toEqual([
+      '{"put":{"id":"a","text":"first"}}',
+      '{"put":{"id":"b","text":"second"}}',
+      '{"put":{"id":"a","text":"edited"}}',
+      '{"delete":"b"}'
+    ]);
+    expect(await new JsonStore<Note>(file).list()).toEqual([{ id: 'a', text: 'edited' }]);
+  });
+
+  it('keeps the changes of every store sharing a file', async () => {
+    const file = path.join(dir, 'shared.json');
+    const [first, second] = [new JsonStore<Note>(file), new JsonStore<Note>(file)];
+    await first.put({ id: 'seed', text: 'seed' });
+    await second.list();
+    await Promise.all([
+      ...Array.from({ length: 10 }, (_, i) => first.put({ id: `first-${i}`, text: 'x' })),
+      ...Array.from({ length: 10 }, (_, i) => second.put({ id: `second-${i}`, text: 'y' }))
+    ]);
+    await second.delete('seed');
+    expect(await first.get('seed')).toBeUndefined();
+    expect((await first.list()).map(note => note.id).sort()).toEqual(
+      (await second.list()).map(note => note.id).sort()
+    );
+    expect(await first.list()).toHaveLength(20);
+  });
+
+  it('converts files holding a single array, and compacts superseded lines', async () => {
+    const file = path.join(dir, 'legacy.json');
+    writeFileSync(file, JSON.stringify([{ id: 'a', text: 'old' }]));
+    const store = new JsonStore<Note>(file);
+    expect(await store.get('a')).toEqual({ id: 'a', text: 'old' });
+    expect(lines(file)).toEqual(['{"put":{"id":"a","text":"old"}}']);
+
+    for (const text of ['one', 'two', 'three']) {
+      await store.put({ id: 'a', text });
+    }
+    expect(lines(file)).toHaveLength(4);
+    expect(await new JsonStore<Note>(file).get('a')).toEqual({ id: 'a', text: 'three' });
+    expect(lines(file)).toEqual(['{"put":{"id":"a","text":"three"}}']);
+  });
+
+  it('keeps lines appended by another store while the log is compacted', async () => {
+    const file = path.join(dir, 'compacted.json');
+    const second = new JsonStore<Note>(file);
+    await second.put({ id: 'a', text: 'zero' });
+    // Lines appended after the second store opened the log make the first one compact it
+    appendFileSync(file, BLOATED);
+    await second.list();
+
+    const rename = fsp.rename;
+    vi.spyOn(fsp, 'rename').mockImplementationOnce(async (from, to) => {
+      // The live records are written; the second store appends before the rename
+      await second.put({ id: 'c', text: 'during' });
+      return rename(from, to);
+    });
+    const first = new JsonStore<Note>(file);
+    expect(await first.get('c')).toEqual({ id: 'c', text: 'during' });
+    await second.put({ id: 'd', text: 'after' });
+
+    const expected = ['a', 'b', 'c', 'd'];
+    for (const store of [first, second, new JsonStore<Note>(file)]) {
+      expect((await store.list()).map(note => note.id).sort()).toEqual(expected);
+    }
+    expect(lines(file).length).toBeLessThan(8);
+    expect(leftovers(file)).toEqual([]);
+  });
+
+  it('loses no records when several stores compact the log together', async () => {
+    const file = path.join(dir, 'opened.json');
+    writeFileSync(file, BLOATED);
+    const stores = Array.from({ length: 3 }, () => new JsonStore<Note>(file));
+    await Promise.all(stores.map((store, i) => store.put({ id: `new-${i}`, text: 'x' })));
+
+    const expected = ['a', 'b', 'new-0', 'new-1', 'new-2'];
+    for (const store of [...stores, new JsonStore<Note>(file)]) {
+      expect((await store.list()).map(note => note.id).sort()).toEqual(expected);
+    }
+    expect(await stores[0].get('a')).toEqual({ id: 'a', text: 'four' });
+    expect(lines(file).length).toBeLessThan(8);
+    expect(leftovers(file)).toEqual([]);
+  });
+
+  it('skips a line cut short by a crash', async () => {
+    const file = path.join(dir, 'crashed.json');
+    writeFileSync(file, '{"put":{"id":"a","text":"kept"}}\n{"put":{"id":"b","te');
+    const store = new JsonStore<Note>(file);
+    expect(await store.list()).toEqual([{ id: 'a', text: 'kept' }]);
+    await store.put({ id: 'c', text: 'after' });
+    expect(await new JsonStore<Note>(file).list()).toEqual([
+      { id: 'a', text: 'kept' },
+      { id: 'c', text: 'after' }
+    ]);
+  });
+});